@@ -1,83 +1,60 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { flushSync } from 'react-dom';
 import { v4 as uuidv4 } from 'uuid';
-import { BlockData, BlockType, Point, CanvasState, Edge, HandleType, BlockCategory, WorkspaceMetadata } from './types';
+import { BlockData, BlockType, Point, CanvasState, Edge, HandleType, BlockCategory, WorkspaceMetadata, Selection, Page, WorkspaceData, StoredImage, Viewpoint, Rect } from './types';
 import { Block } from './components/Block';
 import { Toolbar, ThemeId } from './components/Toolbar';
 import { Intro } from './components/Intro'; 
-import { Sidebar } from './components/Sidebar';
-import { Menu, Trash } from './components/Icons';
+import { Sidebar, THEMES } from './components/Sidebar';
+import { PageTabs } from './components/PageTabs';
+import { BlockPlaceholder } from './components/BlockPlaceholder';
+import { Minimap } from './components/Minimap';
+import { ViewControls } from './components/ViewControls';
+import { EdgeToolbar } from './components/EdgeToolbar';
+import { FrameBlock } from './components/FrameBlock';
+import { NextActionsPanel } from './components/NextActionsPanel';
+import { Menu, Trash, Copy, AlignLeft, AlignCenter, AlignRight, AlignTop, AlignMiddle, AlignBottom, DistributeHorizontal, DistributeVertical, Frame } from './components/Icons';
 import { generateBlockFromPrompt } from './services/geminiService';
-import { loadWorkspace, saveWorkspace, listWorkspaces, deleteWorkspace } from './services/storageService';
+import { loadWorkspace, saveWorkspace, saveViewport, listWorkspaces, deleteWorkspace, createPage, collectImageGarbage } from './services/storageService';
+import { isImageFile, storeImageBlob, getPagesImageIds, getHistoryImageIds, exportImageBundle, importImageBundle, inlineStoredImages, releaseImageUrls } from './services/imageService';
+import { CURRENT_SCHEMA_VERSION, migrateWorkspace } from './services/schemaService';
+import { datedFileName, downloadFile } from './services/fileService';
+import { workspaceToMarkdown, parseMarkdown, parsePlainText, sectionsToCanvas } from './services/markdownService';
+import { getHandlePosition } from './services/geometryService';
+import { RouteCache, computeEdgeGeometry, getClosestPointOnRoute, getRouteBounds, getRouteMidpoint, getRoutePath, isPointNearRoute } from './services/edgeRoutingService';
+import { createSpatialIndex, querySpatialIndex } from './services/spatialIndexService';
+import { DASH_PATTERN, getEdgeCaption, getMarkerId, resolveEdgeStyle } from './services/edgeStyleService';
+import { computeLayout, LayoutMode } from './services/layoutService';
+import { clampScale, easeInOutCubic, fitRectToViewport, interpolateCanvas, zoomAroundCenter } from './services/viewportService';
+import { renderSvg, svgToPng } from './services/imageExportService';
+import { jsonCanvasToPage, pageToJsonCanvas } from './services/jsonCanvasService';
+import { AlignMode, AlignmentGuide, DEFAULT_GRID_SIZE, DistributeAxis, ResizeEdges, SNAP_THRESHOLD, alignBlocks, distributeBlocks, getAlignmentGuides, getMoveSnap, getResizeSnap, snapRectEdgesToGrid, snapToGrid } from './services/alignmentService';
+import { moveChecklistItem } from './services/checklistService';
+import { isTabularText, parseDelimited, tableFromDelimited } from './services/csvService';
+import { CodeRun, getRunInputBlocks, getRunInputs, runCode } from './services/codeRunnerService';
+import { guessLanguage } from './services/syntaxService';
+import { computeTaskStatuses, findDependencyCycles, getNextActions, isTaskBlock, toggleTaskItem } from './services/dependencyService';
+import { DEFAULT_FRAME_COLOR, createFrameAround, expandWithDescendants, fitFramesToChildren, getFrameContentBounds, getHiddenBlockIds, isFrame, removeBlocks, sortFramesByDepth, updateFrameMembership } from './services/frameService';
+import { EMPTY_HISTORY, HistoryStacks, createHistoryEntry, recordHistoryEntry, applyHistoryChanges, applyBlockHistoryChanges, applyPageTransfer, withPageTransfer, undoHistory, redoHistory } from './services/historyService';
+import { EMPTY_SELECTION, selectOnly, toggleBlockSelection, toggleEdgeSelection, mergeSelections, rectFromPoints, rectsIntersect, getBlocksBounds, selectInRect, cloneBlocksWithEdges } from './services/selectionService';
 
 const INITIAL_ZOOM = 1;
-
-// -- Geometry Helpers --
-
-function getControlPoints(p1: Point, p2: Point, h1: HandleType, h2: HandleType) {
-  const dist = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-  const getOffset = (h: HandleType): Point => {
-      switch(h) {
-          case 'top': return { x: 0, y: -1 };
-          case 'bottom': return { x: 0, y: 1 };
-          case 'left': return { x: -1, y: 0 };
-          case 'right': return { x: 1, y: 0 };
-      }
-  };
-  const o1 = getOffset(h1);
-  const o2 = getOffset(h2);
-  const cpDist = Math.min(dist * 0.5, 150);
-  return {
-      cp1: { x: p1.x + o1.x * cpDist, y: p1.y + o1.y * cpDist },
-      cp2: { x: p2.x + o2.x * cpDist, y: p2.y + o2.y * cpDist }
-  };
-}
-
-function getPointOnBezier(t: number, p1: Point, cp1: Point, cp2: Point, p2: Point): Point {
-    const mt = 1 - t;
-    const mt2 = mt * mt;
-    const mt3 = mt2 * mt;
-    const t2 = t * t;
-    const t3 = t2 * t;
-    
-    return {
-        x: mt3 * p1.x + 3 * mt2 * t * cp1.x + 3 * mt * t2 * cp2.x + t3 * p2.x,
-        y: mt3 * p1.y + 3 * mt2 * t * cp1.y + 3 * mt * t2 * cp2.y + t3 * p2.y
-    };
-}
-
-function distance(p1: Point, p2: Point) {
-    return Math.hypot(p2.x - p1.x, p2.y - p1.y);
-}
-
-function getClosestPointOnBezier(point: Point, p1: Point, p2: Point, h1: HandleType, h2: HandleType): Point {
-    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
-    let minDist = Infinity;
-    let bestPoint = p1;
-    
-    // Scan the bezier curve for the closest point
-    const steps = 50;
-    for (let i = 0; i <= steps; i++) {
-        const t = i / steps;
-        const p = getPointOnBezier(t, p1, cp1, cp2, p2);
-        const d = distance(point, p);
-        if (d < minDist) {
-            minDist = d;
-            bestPoint = p;
-        }
-    }
-    return bestPoint;
-}
-
-function isPointNearBezier(point: Point, p1: Point, p2: Point, h1: HandleType, h2: HandleType, threshold: number = 25): boolean {
-    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
-    const samples = 15;
-    for (let i = 0; i <= samples; i++) {
-        const t = i / samples;
-        const p = getPointOnBezier(t, p1, cp1, cp2, p2);
-        if (distance(point, p) < threshold) return true;
-    }
-    return false;
-}
+const DEFAULT_CANVAS: CanvasState = { scale: INITIAL_ZOOM, pan: { x: 0, y: 0 } };
+const IMAGE_BLOCK_CHROME = 56; // Header and padding around the picture in an image block
+const LOD_SCALE = 0.35; // Below this zoom, unselected blocks render as placeholders
+const CULL_MARGIN = 200; // Screen pixels rendered beyond the viewport so panning doesn't pop
+const SPLICE_DISTANCE = 40;
+const LAYOUT_ANIMATION_MS = 400;
+const EDGE_HIGHLIGHT_COLOR = '#8b5cf6';
+
+const ALIGN_ACTIONS: { mode: AlignMode, label: string, Icon: React.FC<{ className?: string }> }[] = [
+  { mode: 'left', label: 'Align Left', Icon: AlignLeft },
+  { mode: 'center', label: 'Align Centers Horizontally', Icon: AlignCenter },
+  { mode: 'right', label: 'Align Right', Icon: AlignRight },
+  { mode: 'top', label: 'Align Top', Icon: AlignTop },
+  { mode: 'middle', label: 'Align Centers Vertically', Icon: AlignMiddle },
+  { mode: 'bottom', label: 'Align Bottom', Icon: AlignBottom }
+];
 
 // Unified input helper
 const getClientPos = (e: React.MouseEvent | React.TouchEvent | MouseEvent | TouchEvent) => {
@@ -89,6 +66,16 @@ const getClientPos = (e: React.MouseEvent | React.TouchEvent | MouseEvent | Touc
     return { x: 0, y: 0 };
 };
 
+// Keyboard shortcuts must not fire while the user is typing into a block
+const isEditableTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+};
+
+// The active page is edited through the top-level blocks/edges state; fold it back in for saving
+const snapshotPages = (pages: Page[], activePageId: string, blocks: BlockData[], edges: Edge[], canvas: CanvasState): Page[] =>
+    pages.map(p => p.id === activePageId ? { ...p, blocks, edges, canvas } : p);
+
 export default function App() {
   // -- State --
   const [showIntro, setShowIntro] = useState(true);
@@ -97,14 +84,29 @@ export default function App() {
   const [workspaceId, setWorkspaceId] = useState<string>(uuidv4());
   const [workspaceName, setWorkspaceName] = useState("Untitled Workspace");
   const [workspaces, setWorkspaces] = useState<WorkspaceMetadata[]>([]);
+
+  // Page State (blocks/edges below always belong to the active page)
+  const [initialPage] = useState(() => createPage('Page 1'));
+  const [pages, setPages] = useState<Page[]>([initialPage]);
+  const [activePageId, setActivePageId] = useState<string>(initialPage.id);
+  const [viewpoints, setViewpoints] = useState<Viewpoint[]>([]);
+
+  // Canvas Viewport State
+  const [canvasState, setCanvasState] = useState<CanvasState>(DEFAULT_CANVAS);
   
   const [blocks, setBlocks] = useState<BlockData[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
-  const [history, setHistory] = useState<{blocks: BlockData[], edges: Edge[]}[]>([]);
-  const [selection, setSelection] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryStacks>(EMPTY_HISTORY);
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
   const [currentTheme, setCurrentTheme] = useState<ThemeId>('lumina-dark');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [preventOverlap, setPreventOverlap] = useState(false);
+  const [snapGrid, setSnapGrid] = useState(false);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [smartGuides, setSmartGuides] = useState(true);
+  const [dependencyMode, setDependencyMode] = useState(false);
+  // Alignment guides shown while a drag or resize is snapped to a neighbour
+  const [guides, setGuides] = useState<AlignmentGuide[]>([]);
   
   // Storage State
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
@@ -113,17 +115,103 @@ export default function App() {
   const [aiMode, setAiMode] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
   const [highlightedEdgeId, setHighlightedEdgeId] = useState<string | null>(null);
+  // Edge whose label input should take focus (set by double-clicking the edge)
+  const [edgeLabelFocusId, setEdgeLabelFocusId] = useState<string | null>(null);
 
   // Refs for high-freq access in event handlers
   const blocksRef = useRef(blocks);
   const edgesRef = useRef(edges);
+  const selectionRef = useRef(selection);
   const workspaceIdRef = useRef(workspaceId);
   const workspaceNameRef = useRef(workspaceName);
+  const pagesRef = useRef(pages);
+  const activePageIdRef = useRef(activePageId);
+  const canvasStateRef = useRef(canvasState);
+  const historyRef = useRef(history);
+  const viewpointsRef = useRef(viewpoints);
   
   useEffect(() => { blocksRef.current = blocks; }, [blocks]);
   useEffect(() => { edgesRef.current = edges; }, [edges]);
+  useEffect(() => { selectionRef.current = selection; }, [selection]);
   useEffect(() => { workspaceIdRef.current = workspaceId; }, [workspaceId]);
   useEffect(() => { workspaceNameRef.current = workspaceName; }, [workspaceName]);
+  useEffect(() => { pagesRef.current = pages; }, [pages]);
+  useEffect(() => { activePageIdRef.current = activePageId; }, [activePageId]);
+  useEffect(() => { canvasStateRef.current = canvasState; }, [canvasState]);
+  useEffect(() => { historyRef.current = history; }, [history]);
+  useEffect(() => { viewpointsRef.current = viewpoints; }, [viewpoints]);
+
+  // Dragging State (origins holds the start position of every block moving with the grabbed one)
+  const [draggingBlock, setDraggingBlock] = useState<{id: string, startX: number, startY: number, origins: {id: string, x: number, y: number}[]} | null>(null);
+
+  // -- Spatial Index --
+  // Blocks and edge bounding boxes are indexed so rendering and hit-testing only touch
+  // what is near the viewport / pointer, which keeps 500+ block boards responsive.
+  const [viewportSize, setViewportSize] = useState({ w: window.innerWidth, h: window.innerHeight });
+  useEffect(() => {
+    const handleResize = () => setViewportSize({ w: window.innerWidth, h: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Blocks folded inside collapsed frames are left out of rendering, hit-testing and routing,
+  // so edges to them disappear until the frame is expanded again
+  const hiddenBlockIds = useMemo(() => getHiddenBlockIds(blocks), [blocks]);
+  const shownBlocks = useMemo(() => hiddenBlockIds.size > 0 ? blocks.filter(b => !hiddenBlockIds.has(b.id)) : blocks, [blocks, hiddenBlockIds]);
+
+  const blockIndex = useMemo(() => createSpatialIndex(shownBlocks.map(b => ({ id: b.id, rect: b }))), [shownBlocks]);
+
+  // Routes are cached between renders; only edges whose endpoints or nearby blocks changed
+  // are rerouted. Dragged blocks are left out as obstacles until they are dropped.
+  const routeCacheRef = useRef<RouteCache>(new Map());
+  const edgeGeometry = useMemo(() => {
+    const excluded = new Set(draggingBlock ? draggingBlock.origins.map(o => o.id) : []);
+    const { geometry, cache } = computeEdgeGeometry(edges, shownBlocks, blockIndex, routeCacheRef.current, excluded);
+    routeCacheRef.current = cache;
+    return geometry;
+  }, [shownBlocks, edges, blockIndex, draggingBlock]);
+
+  const edgeIndex = useMemo(() => createSpatialIndex(edges
+    .filter(edge => edgeGeometry.has(edge.id))
+    .map(edge => ({ id: edge.id, rect: getRouteBounds(edgeGeometry.get(edge.id)!.route, 4) }))), [edges, edgeGeometry]);
+
+  const edgeGeometryRef = useRef(edgeGeometry);
+  const edgeIndexRef = useRef(edgeIndex);
+  useEffect(() => { edgeGeometryRef.current = edgeGeometry; }, [edgeGeometry]);
+  useEffect(() => { edgeIndexRef.current = edgeIndex; }, [edgeIndex]);
+
+  // -- Task Dependencies --
+  // Opt-in: statuses for the blocks on this page, plus open items that are ready on every page
+  const taskStatuses = useMemo(() => dependencyMode ? computeTaskStatuses(blocks, edges) : null, [dependencyMode, blocks, edges]);
+  const dependencyCycles = useMemo(() => {
+    if (!dependencyMode) return [];
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    return findDependencyCycles(blocks, edges)
+        .filter(cycle => cycle.some(id => isTaskBlock(byId.get(id)!)))
+        .map(cycle => cycle.map(id => byId.get(id)!.title || 'Untitled'));
+  }, [dependencyMode, blocks, edges]);
+  const nextActions = useMemo(() => dependencyMode
+      ? getNextActions(pages.map(p => p.id === activePageId ? { ...p, blocks, edges } : p))
+      : [], [dependencyMode, pages, activePageId, blocks, edges]);
+
+  // -- History --
+  // Every change to blocks/edges is diffed against the last recorded state and becomes an
+  // undo step. Loads and undo/redo move the baseline themselves so they are not recorded.
+  const historyBaselineRef = useRef({ blocks, edges });
+  const gestureIdRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    const baseline = historyBaselineRef.current;
+    if (baseline.blocks === blocks && baseline.edges === edges) return;
+    const entry = createHistoryEntry(baseline.blocks, baseline.edges, blocks, edges, gestureIdRef.current);
+    historyBaselineRef.current = { blocks, edges };
+    if (entry) setHistory(prev => recordHistoryEntry(prev, entry));
+  }, [blocks, edges]);
+
+  const resetHistory = (nextBlocks: BlockData[], nextEdges: Edge[]) => {
+    historyBaselineRef.current = { blocks: nextBlocks, edges: nextEdges };
+    setHistory(EMPTY_HISTORY);
+  };
 
   // -- Initialization --
   const refreshWorkspaceList = async () => {
@@ -131,6 +219,39 @@ export default function App() {
       setWorkspaces(list);
   };
 
+  const currentPages = () => snapshotPages(pages, activePageId, blocks, edges, canvasState);
+
+  const saveCurrentWorkspace = () => saveWorkspace(workspaceId, workspaceName, currentPages(), activePageId, viewpoints);
+
+  const applyWorkspaceData = (data: WorkspaceData) => {
+      const active = data.pages.find(p => p.id === data.activePageId) || data.pages[0];
+      setWorkspaceId(data.id);
+      setWorkspaceName(data.name);
+      setPages(data.pages);
+      setActivePageId(active.id);
+      setViewpoints(data.viewpoints);
+      setBlocks(active.blocks);
+      setEdges(active.edges);
+      stopLayoutAnimation();
+      resetHistory(active.blocks, active.edges);
+      setSelection(EMPTY_SELECTION);
+      stopCanvasAnimation();
+      setCanvasState(active.canvas || DEFAULT_CANVAS);
+  };
+
+  const applyEmptyWorkspace = () => {
+      const page = createPage('Page 1');
+      applyWorkspaceData({
+          id: uuidv4(),
+          name: "Untitled Workspace",
+          pages: [page],
+          activePageId: page.id,
+          viewpoints: [],
+          lastUpdated: Date.now(),
+          schemaVersion: CURRENT_SCHEMA_VERSION
+      });
+  };
+
   useEffect(() => {
     const init = async () => {
         const isSessionActive = sessionStorage.getItem('nukenote-session-active');
@@ -138,28 +259,39 @@ export default function App() {
 
         if (isSessionActive && lastId) {
             const data = await loadWorkspace(lastId);
-            if (data) {
-                setWorkspaceId(data.id);
-                setWorkspaceName(data.name);
-                setBlocks(data.blocks);
-                setEdges(data.edges);
-            }
+            if (data) applyWorkspaceData(data);
         } else {
             sessionStorage.setItem('nukenote-session-active', 'true');
         }
         await refreshWorkspaceList();
+        // Clean up blobs orphaned in earlier sessions (e.g. deleted, then the tab was closed)
+        collectUnusedImages();
     };
     init();
   }, []);
 
+  const savedImageIdsRef = useRef<Set<string>>(new Set());
+
+  const collectUnusedImages = () => {
+    collectImageGarbage(new Set(getHistoryImageIds(historyRef.current)))
+        .then(releaseImageUrls)
+        .catch(e => console.error('Image garbage collection failed', e));
+  };
+
   // Debounced Auto-Save & Aggressive Save on Close
   useEffect(() => {
     setSaveStatus('saving');
     const timer = setTimeout(async () => {
         try {
-            await saveWorkspace(workspaceId, workspaceName, blocks, edges);
+            const snapshot = snapshotPages(pages, activePageId, blocks, edges, canvasStateRef.current);
+            await saveWorkspace(workspaceId, workspaceName, snapshot, activePageId, viewpoints);
             localStorage.setItem('nukenote-last-workspace-id', workspaceId);
             setSaveStatus('saved');
+
+            // Once an image reference disappears, drop blobs nothing points to any more
+            const imageIds = getPagesImageIds(snapshot);
+            if ([...savedImageIdsRef.current].some(id => !imageIds.has(id))) collectUnusedImages();
+            savedImageIdsRef.current = imageIds;
             refreshWorkspaceList(); 
         } catch (e) {
             console.error(e);
@@ -168,48 +300,54 @@ export default function App() {
     }, 500); 
 
     const handleImmediateSave = () => {
-        saveWorkspace(workspaceIdRef.current, workspaceNameRef.current, blocksRef.current, edgesRef.current);
+        saveWorkspace(
+            workspaceIdRef.current,
+            workspaceNameRef.current,
+            snapshotPages(pagesRef.current, activePageIdRef.current, blocksRef.current, edgesRef.current, canvasStateRef.current),
+            activePageIdRef.current,
+            viewpointsRef.current
+        );
     };
     
-    window.addEventListener('beforeunload', handleImmediateSave);
-    document.addEventListener('visibilitychange', () => {
+    const handleVisibilityChange = () => {
         if (document.visibilityState === 'hidden') handleImmediateSave();
-    });
+    };
+    
+    window.addEventListener('beforeunload', handleImmediateSave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
         clearTimeout(timer);
         window.removeEventListener('beforeunload', handleImmediateSave);
-        document.removeEventListener('visibilitychange', handleImmediateSave);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [blocks, edges, workspaceId, workspaceName]);
+  }, [blocks, edges, pages, activePageId, viewpoints, workspaceId, workspaceName]);
+
+  // The viewport changes every frame while panning or zooming, so it is saved on its own:
+  // debounced, only into the active page, and without counting as an edit
+  useEffect(() => {
+    const id = workspaceIdRef.current;
+    const pageId = activePageIdRef.current;
+    const timer = setTimeout(() => {
+        saveViewport(id, pageId, canvasState).catch(e => console.error('Saving the viewport failed', e));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [canvasState]);
 
   // -- Actions --
 
   const handleNewWorkspace = async () => {
-      await saveWorkspace(workspaceId, workspaceName, blocks, edges);
-      
-      const newId = uuidv4();
-      setWorkspaceId(newId);
-      setWorkspaceName("Untitled Workspace");
-      setBlocks([]);
-      setEdges([]);
-      setHistory([]);
-      setCanvasState({ scale: INITIAL_ZOOM, pan: { x: 0, y: 0 } });
-      
+      await saveCurrentWorkspace();
+      applyEmptyWorkspace();
       await refreshWorkspaceList();
   };
 
   const handleSwitchWorkspace = async (id: string) => {
-      await saveWorkspace(workspaceId, workspaceName, blocks, edges);
+      await saveCurrentWorkspace();
       
       const data = await loadWorkspace(id);
       if (data) {
-          setWorkspaceId(data.id);
-          setWorkspaceName(data.name);
-          setBlocks(data.blocks);
-          setEdges(data.edges);
-          setHistory([]);
-          setCanvasState({ scale: INITIAL_ZOOM, pan: { x: 0, y: 0 } });
+          applyWorkspaceData(data);
           localStorage.setItem('nukenote-last-workspace-id', data.id);
       }
       await refreshWorkspaceList();
@@ -221,7 +359,7 @@ export default function App() {
       } else {
           const data = await loadWorkspace(id);
           if (data) {
-              await saveWorkspace(data.id, newName, data.blocks, data.edges);
+              await saveWorkspace(data.id, newName, data.pages, data.activePageId, data.viewpoints);
               await refreshWorkspaceList();
           }
       }
@@ -241,6 +379,7 @@ export default function App() {
       
       try {
           await deleteWorkspace(id);
+          collectUnusedImages();
           
           if (id === workspaceId) {
               // Deleted current, switch to another or create new
@@ -251,20 +390,11 @@ export default function App() {
                   const nextId = remaining[0].id;
                   const data = await loadWorkspace(nextId);
                   if (data) {
-                      setWorkspaceId(data.id);
-                      setWorkspaceName(data.name);
-                      setBlocks(data.blocks);
-                      setEdges(data.edges);
-                      setHistory([]);
+                      applyWorkspaceData(data);
                       localStorage.setItem('nukenote-last-workspace-id', data.id);
                   }
               } else {
-                  const newId = uuidv4();
-                  setWorkspaceId(newId);
-                  setWorkspaceName("Untitled Workspace");
-                  setBlocks([]);
-                  setEdges([]);
-                  setHistory([]);
+                  applyEmptyWorkspace();
               }
           }
           await refreshWorkspaceList();
@@ -274,58 +404,306 @@ export default function App() {
       }
   };
 
-  const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify({ blocks, edges, name: workspaceName }));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `${workspaceName.replace(/\s+/g, '-').toLowerCase()}-${new Date().toISOString().slice(0,10)}.json`);
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+  const handleExport = async () => {
+    const exportPages = currentPages();
+    const imageIds = getPagesImageIds(exportPages);
+    // Stored image blobs travel inside the bundle so the file is self-contained
+    const images = imageIds.size > 0 ? await exportImageBundle(imageIds) : undefined;
+    const data = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, name: workspaceName, pages: exportPages, activePageId, viewpoints, images });
+    downloadFile(datedFileName(workspaceName, 'json'), data, 'application/json');
+  };
+
+  const warnMissingImages = (missing: number) => {
+    if (missing > 0) alert(`${missing} stored image(s) could not be read and were left out of the export`);
+  };
+
+  const handleExportMarkdown = async () => {
+    const { pages: exportPages, missing } = await inlineStoredImages(currentPages());
+    downloadFile(datedFileName(workspaceName, 'md'), workspaceToMarkdown(workspaceName, exportPages), 'text/markdown');
+    warnMissingImages(missing);
+  };
+
+  const handleExportImage = async (format: 'svg' | 'png', scale: number, selectionOnly: boolean) => {
+    // Frames export with their contents; blocks inside collapsed frames stay folded away
+    const ids = new Set(selectionOnly ? expandWithDescendants(blocks, selection.blockIds) : blocks.map(b => b.id));
+    const exportBlocks = shownBlocks.filter(b => ids.has(b.id));
+    if (exportBlocks.length === 0) {
+        alert('Nothing to export');
+        return;
+    }
+    const exportIds = new Set(exportBlocks.map(b => b.id));
+    const exportEdges = edges.filter(e => exportIds.has(e.fromId) && exportIds.has(e.toId));
+    const palette = THEMES.find(t => t.id === currentTheme) || THEMES[0];
+    try {
+        const { svg, width, height } = await renderSvg(exportBlocks, exportEdges, palette);
+        if (format === 'svg') {
+            downloadFile(datedFileName(workspaceName, 'svg'), svg, 'image/svg+xml');
+        } else {
+            downloadFile(datedFileName(workspaceName, 'png'), await svgToPng(svg, width, height, scale), 'image/png');
+        }
+    } catch (err) {
+        console.error('Image export failed', err);
+        alert(`Image export failed${err instanceof Error ? `: ${err.message}` : ''}`);
+    }
+  };
+
+  // .canvas files hold a single board, so they map onto the active page
+  const handleExportCanvas = async () => {
+    const { pages: [page], missing } = await inlineStoredImages(currentPages().filter(p => p.id === activePageId));
+    const fileName = pages.length > 1 ? `${workspaceName} ${page.name}` : workspaceName;
+    downloadFile(datedFileName(fileName, 'canvas'), JSON.stringify(pageToJsonCanvas(page), null, 2), 'application/json');
+    warnMissingImages(missing);
+  };
+
+  const importJsonCanvas = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+        try {
+            const page = jsonCanvasToPage(JSON.parse(event.target?.result as string), file.name.replace(/\.canvas$/i, ''));
+            setPages([...currentPages(), page]);
+            loadPage(page);
+            setIsSidebarOpen(false);
+        } catch (err) {
+            alert(err instanceof Error && !(err instanceof SyntaxError) ? `Import failed: ${err.message}` : 'Invalid file format');
+        }
+    };
+    reader.readAsText(file);
+  };
+
+  const isTextDocument = (file: File) => /\.(md|markdown|txt)$/i.test(file.name) || file.type === 'text/markdown' || file.type === 'text/plain';
+
+  // Builds blocks from a Markdown / text file and adds them to the current page.
+  // `screenPoint` is where the grid starts; defaults to the middle of the viewport.
+  const importTextDocument = (file: File, screenPoint?: Point) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+        const text = event.target?.result as string;
+        const sections = /\.txt$/i.test(file.name) || file.type === 'text/plain' ? parsePlainText(text) : parseMarkdown(text);
+        if (sections.length === 0) {
+            alert('Nothing to import');
+            return;
+        }
+        const { pan, scale } = canvasStateRef.current;
+        const point = screenPoint || { x: window.innerWidth / 2 - 300, y: window.innerHeight / 2 - 200 };
+        const origin = { x: (point.x - pan.x) / scale, y: (point.y - pan.y) / scale };
+        const { blocks: newBlocks, edges: newEdges } = sectionsToCanvas(sections, origin);
+        setBlocks(prev => [...prev, ...newBlocks]);
+        setEdges(prev => [...prev, ...newEdges]);
+        setSelection({ blockIds: newBlocks.map(b => b.id), edgeIds: [] });
+        setIsSidebarOpen(false);
+    };
+    reader.readAsText(file);
   };
 
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    if (isTextDocument(file) || /\.canvas$/i.test(file.name)) {
+        if (isTextDocument(file)) importTextDocument(file);
+        else importJsonCanvas(file);
+        e.target.value = '';
+        return;
+    }
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
         try {
             const parsed = JSON.parse(event.target?.result as string);
-            if (parsed.blocks) setBlocks(parsed.blocks);
-            if (parsed.edges) setEdges(parsed.edges);
-            if (parsed.name) setWorkspaceName(parsed.name);
+            // Older exports are upgraded through the same migrations as stored workspaces
+            const { data, repairs } = migrateWorkspace(parsed);
+            const failedImages = await importImageBundle(parsed.images);
+            if (failedImages > 0) repairs.push(`${failedImages} bundled image(s) could not be restored`);
+            applyWorkspaceData({
+                ...data,
+                id: workspaceId,
+                name: typeof parsed.name === 'string' ? data.name : workspaceName
+            });
+            if (repairs.length > 0) {
+                alert(`Imported with ${repairs.length} repair(s):\n${repairs.slice(0, 5).join('\n')}${repairs.length > 5 ? '\n…' : ''}`);
+            }
             setIsSidebarOpen(false);
         } catch (err) {
-            alert('Invalid file format');
+            alert(err instanceof Error && !(err instanceof SyntaxError) ? `Import failed: ${err.message}` : 'Invalid file format');
         }
     };
     reader.readAsText(file);
     e.target.value = '';
   };
 
+  const handleCanvasDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleCanvasDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    const documents = files.filter(isTextDocument);
+    const images = files.filter(isImageFile);
+    if (documents.length === 0 && images.length === 0) return;
+    e.preventDefault();
+    documents.forEach((file, i) => importTextDocument(file, { x: e.clientX + i * 40, y: e.clientY + i * 40 }));
+    if (images.length > 0) addImageBlocks(images, { x: e.clientX, y: e.clientY });
+  };
+
+  // Stores dropped / pasted image files as blobs and adds an image block for each,
+  // centred on `screenPoint` (the middle of the viewport by default)
+  const addImageBlocks = async (files: File[], screenPoint?: Point) => {
+    let stored: StoredImage[];
+    try {
+        stored = await Promise.all(files.map(file => storeImageBlob(file)));
+    } catch (err) {
+        console.error('Failed to store image', err);
+        alert('Could not read that image');
+        return;
+    }
+
+    // A single image pasted while an empty image block is selected fills that block
+    const selectedIds = selectionRef.current.blockIds;
+    const target = selectedIds.length === 1 ? blocksRef.current.find(b => b.id === selectedIds[0]) : undefined;
+    if (stored.length === 1 && target && target.type === 'image' && !target.imageId && !target.content) {
+        updateBlock(target.id, { imageId: stored[0].id });
+        return;
+    }
+
+    const { pan, scale } = canvasStateRef.current;
+    const point = screenPoint || { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    const center = { x: (point.x - pan.x) / scale, y: (point.y - pan.y) / scale };
+
+    const newBlocks: BlockData[] = stored.map((image, i) => {
+        const w = Math.min(320, Math.max(120, image.width));
+        const h = Math.round(w * image.height / image.width) + IMAGE_BLOCK_CHROME;
+        return {
+            id: uuidv4(),
+            type: 'image',
+            x: center.x - w / 2 + i * 30,
+            y: center.y - h / 2 + i * 30,
+            w,
+            h,
+            title: files[i].name ? files[i].name.replace(/\.[^.]+$/, '') : 'Image',
+            content: '',
+            imageId: image.id
+        };
+    });
+    setBlocks(prev => [...prev, ...newBlocks]);
+    setSelection({ blockIds: newBlocks.map(b => b.id), edgeIds: [] });
+  };
+
+  // A table block holding delimited text, centred in the viewport
+  const addTableFromText = (text: string) => {
+    const content = tableFromDelimited(parseDelimited(text.replace(/(\r?\n)+$/, '')));
+    const { pan, scale } = canvasStateRef.current;
+    const w = Math.min(900, Math.max(320, content.headers.length * 120));
+    const h = Math.min(600, 100 + (content.rows.length + 1) * 35);
+    const block: BlockData = {
+        id: uuidv4(),
+        type: 'table',
+        x: (window.innerWidth / 2 - pan.x) / scale - w / 2,
+        y: (window.innerHeight / 2 - pan.y) / scale - h / 2,
+        w,
+        h,
+        title: 'Pasted Table',
+        content
+    };
+    setBlocks(prev => [...prev, block]);
+    setSelection({ blockIds: [block.id], edgeIds: [] });
+  };
+
   const handleClear = () => {
       setBlocks([]);
       setEdges([]);
-      setHistory([]);
+      resetHistory([], []);
+      setSelection(EMPTY_SELECTION);
       setIsSidebarOpen(false);
   };
 
+  // -- Page Actions --
+
+  const loadPage = (page: Page) => {
+      stopLayoutAnimation();
+      setActivePageId(page.id);
+      setBlocks(page.blocks);
+      setEdges(page.edges);
+      resetHistory(page.blocks, page.edges);
+      setSelection(EMPTY_SELECTION);
+      stopCanvasAnimation();
+      setCanvasState(page.canvas || DEFAULT_CANVAS);
+  };
+
+  const handleSwitchPage = (id: string) => {
+      if (id === activePageId) return;
+      const snapshot = currentPages();
+      const target = snapshot.find(p => p.id === id);
+      if (!target) return;
+      setPages(snapshot);
+      loadPage(target);
+  };
+
+  const handleAddPage = () => {
+      const page = createPage(`Page ${pages.length + 1}`);
+      setPages([...currentPages(), page]);
+      loadPage(page);
+  };
+
+  const handleRenamePage = (id: string, name: string) => {
+      setPages(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleReorderPages = (fromIndex: number, toIndex: number) => {
+      setPages(prev => {
+          const next = [...prev];
+          const [moved] = next.splice(fromIndex, 1);
+          next.splice(toIndex, 0, moved);
+          return next;
+      });
+  };
+
+  const handleDeletePage = (id: string) => {
+      if (pages.length <= 1) return;
+      const page = pages.find(p => p.id === id);
+      if (!page || !window.confirm(`Delete page "${page.name}" and all of its blocks?`)) return;
+
+      const index = pages.findIndex(p => p.id === id);
+      const remaining = currentPages().filter(p => p.id !== id);
+      setPages(remaining);
+      setViewpoints(prev => prev.filter(v => v.pageId !== id));
+      if (id === activePageId) {
+          loadPage(remaining[Math.max(0, index - 1)]);
+      }
+  };
+
+  // Moves the selected blocks (and the edges between them) onto another page
+  const handleMoveSelectionToPage = (targetId: string) => {
+      const { blockIds } = selectionRef.current;
+      if (blockIds.length === 0 || targetId === activePageId) return;
+
+      const moving = blocks.filter(b => blockIds.includes(b.id));
+      const movingEdges = edges.filter(e => blockIds.includes(e.fromId) && blockIds.includes(e.toId));
+      const nextBlocks = blocks.filter(b => !blockIds.includes(b.id));
+      const nextEdges = edges.filter(e => !blockIds.includes(e.fromId) && !blockIds.includes(e.toId));
+
+      const transfer = { pageId: targetId, blocks: moving, edges: movingEdges };
+      setPages(prev => applyPageTransfer(prev, transfer, 'redo'));
+      // Recorded by hand so the step also knows where the blocks went; undo brings them back
+      const entry = createHistoryEntry(blocks, edges, nextBlocks, nextEdges);
+      historyBaselineRef.current = { blocks: nextBlocks, edges: nextEdges };
+      if (entry) setHistory(prev => recordHistoryEntry(prev, withPageTransfer(entry, transfer)));
+      setBlocks(nextBlocks);
+      setEdges(nextEdges);
+      setSelection(EMPTY_SELECTION);
+  };
+
   // Connection State
   const [connecting, setConnecting] = useState<{fromId: string, fromHandle: HandleType, mousePos: Point} | null>(null);
 
-  // Canvas Viewport State
-  const [canvasState, setCanvasState] = useState<CanvasState>({
-    scale: INITIAL_ZOOM,
-    pan: { x: 0, y: 0 }
-  });
-
   const [isPanning, setIsPanning] = useState(false);
   const hasMovedRef = useRef(false);
   const lastMousePos = useRef<Point>({ x: 0, y: 0 });
   const startMousePos = useRef<Point>({ x: 0, y: 0 });
   
-  // Dragging State
-  const [draggingBlock, setDraggingBlock] = useState<{id: string, startX: number, startY: number, initialBlockX: number, initialBlockY: number} | null>(null);
+
+  // Marquee (rubber-band) selection, in canvas coordinates
+  const [marquee, setMarquee] = useState<{start: Point, current: Point} | null>(null);
 
   // -- Effects --
 
@@ -340,20 +718,40 @@ export default function App() {
 
   // -- Actions --
 
-  const pushHistory = () => {
-    setHistory(prev => [...prev.slice(-10), JSON.parse(JSON.stringify({ blocks, edges }))]);
+  const handleUndo = () => {
+    // Undo mid-layout lands the layout first; the next undo reverts it as one step
+    if (layoutAnimationRef.current) {
+        layoutAnimationRef.current.finish();
+        return;
+    }
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    const nextBlocks = applyBlockHistoryChanges(blocksRef.current, entry.blocks, 'undo');
+    const nextEdges = applyHistoryChanges(edgesRef.current, entry.edges, 'undo');
+    historyBaselineRef.current = { blocks: nextBlocks, edges: nextEdges };
+    if (entry.transfer) setPages(prev => applyPageTransfer(prev, entry.transfer!, 'undo'));
+    setBlocks(nextBlocks);
+    setEdges(nextEdges);
+    setHistory(undoHistory);
   };
 
-  const handleUndo = () => {
-    if (history.length === 0) return;
-    const previous = history[history.length - 1];
-    setBlocks(previous.blocks);
-    setEdges(previous.edges);
-    setHistory(prev => prev.slice(0, -1));
+  const handleRedo = () => {
+    if (layoutAnimationRef.current) {
+        layoutAnimationRef.current.finish();
+        return;
+    }
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    const nextBlocks = applyBlockHistoryChanges(blocksRef.current, entry.blocks, 'redo');
+    const nextEdges = applyHistoryChanges(edgesRef.current, entry.edges, 'redo');
+    historyBaselineRef.current = { blocks: nextBlocks, edges: nextEdges };
+    if (entry.transfer) setPages(prev => applyPageTransfer(prev, entry.transfer!, 'redo'));
+    setBlocks(nextBlocks);
+    setEdges(nextEdges);
+    setHistory(redoHistory);
   };
 
   const addBlock = (type: BlockType, xOffset = 0, yOffset = 0) => {
-    pushHistory();
     let x, y;
     
     if (xOffset !== 0 || yOffset !== 0) {
@@ -374,6 +772,11 @@ export default function App() {
         content = [{id: '1', text: 'New Item', checked: false}];
         title = 'Checklist';
         h = 160;
+    } else if (type === 'markdown') {
+        content = '';
+        title = 'Markdown';
+        w = 320;
+        h = 240;
     } else if (type === 'code') {
         content = '// Type your code here';
         title = 'Code Snippet';
@@ -396,6 +799,10 @@ export default function App() {
     } else if (type === 'image') {
         title = 'Image';
         h = 200;
+    } else if (type === 'frame') {
+        title = 'Frame';
+        w = 480;
+        h = 320;
     }
 
     if (xOffset !== 0) {
@@ -412,10 +819,12 @@ export default function App() {
       h,
       content,
       title,
-      category
+      category,
+      ...(type === 'frame' ? { color: DEFAULT_FRAME_COLOR } : {}),
+      ...(type === 'markdown' ? { markdownView: 'source' as const } : {})
     };
     setBlocks(prev => [...prev, newBlock]);
-    setSelection(newBlock.id);
+    setSelection(selectOnly(newBlock.id));
   };
 
   const updateBlock = (id: string, updates: Partial<BlockData>) => {
@@ -423,31 +832,176 @@ export default function App() {
   };
 
   const deleteBlock = (id: string) => {
-    pushHistory();
-    setBlocks(prev => prev.filter(b => b.id !== id));
+    setBlocks(prev => removeBlocks(prev, [id]));
     setEdges(prev => prev.filter(e => e.fromId !== id && e.toId !== id));
-    if (selection === id) setSelection(null);
+    setSelection(prev => ({ ...prev, blockIds: prev.blockIds.filter(b => b !== id) }));
   };
 
   const deleteEdge = (id: string) => {
-    pushHistory();
     setEdges(prev => prev.filter(e => e.id !== id));
+    setSelection(prev => ({ ...prev, edgeIds: prev.edgeIds.filter(e => e !== id) }));
+  };
+
+  const updateEdge = (id: string, updates: Partial<Edge>) => {
+    setEdges(prev => prev.map(e => e.id === id ? { ...e, ...updates } : e));
+  };
+
+  const replaceEdge = (edge: Edge) => {
+    setEdges(prev => prev.map(e => e.id === edge.id ? edge : e));
+  };
+
+  // Clicking an edge selects it for editing; shift-click adds it to the selection
+  const selectEdge = (id: string, additive: boolean) => {
+    setSelection(prev => additive ? toggleEdgeSelection(prev, id) : { blockIds: [], edgeIds: [id] });
+    setEdgeLabelFocusId(null);
   };
 
   const duplicateBlock = (id: string) => {
-    const block = blocks.find(b => b.id === id);
-    if (block) {
-      pushHistory();
-      const newBlock = {
-        ...block,
-        id: uuidv4(),
-        x: block.x + 20,
-        y: block.y + 20,
-        title: block.title ? `${block.title} (Copy)` : undefined
-      };
-      setBlocks(prev => [...prev, newBlock]);
-      setSelection(newBlock.id);
+    duplicateBlocks([id]);
+  };
+
+  // -- Group Actions --
+
+  const deleteSelection = () => {
+    const { blockIds, edgeIds } = selectionRef.current;
+    if (blockIds.length === 0 && edgeIds.length === 0) return;
+    setBlocks(prev => removeBlocks(prev, blockIds));
+    setEdges(prev => prev.filter(e =>
+        !edgeIds.includes(e.id) && !blockIds.includes(e.fromId) && !blockIds.includes(e.toId)
+    ));
+    setSelection(EMPTY_SELECTION);
+  };
+
+  // Duplicating a frame copies everything inside it, along with the edges between those blocks
+  const duplicateBlocks = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const copies = cloneBlocksWithEdges(blocks, edges, expandWithDescendants(blocks, ids), { x: 20, y: 20 });
+    setBlocks(prev => fitFramesToChildren([...prev, ...copies.blocks]));
+    setEdges(prev => [...prev, ...copies.edges]);
+    setSelection({ blockIds: copies.blocks.map(b => b.id), edgeIds: copies.edges.map(e => e.id) });
+  };
+
+  const frameSelection = () => {
+    const wrapped = createFrameAround(blocks, selectionRef.current.blockIds, uuidv4());
+    if (!wrapped) return;
+    // Frames render behind blocks regardless of order; prepending keeps them first in exports too
+    setBlocks(fitFramesToChildren([wrapped.frame, ...wrapped.blocks]));
+    setSelection(selectOnly(wrapped.frame.id));
+  };
+
+  // Frames grow to keep a resized child inside them
+  const handleResizeEnd = () => {
+    setGuides([]);
+    setBlocks(prev => fitFramesToChildren(prev));
+  };
+
+  // Moves the selected blocks in one update so the command is a single undo step
+  const moveSelectedBlocks = (positions: Map<string, Point>) => {
+    setBlocks(prev => prev.map(b => {
+        const pos = positions.get(b.id);
+        return pos && (pos.x !== b.x || pos.y !== b.y) ? { ...b, ...pos } : b;
+    }));
+  };
+
+  const alignSelection = (mode: AlignMode) => {
+    const selected = blocksRef.current.filter(b => selectionRef.current.blockIds.includes(b.id));
+    if (selected.length < 2) return;
+    moveSelectedBlocks(alignBlocks(selected, mode));
+  };
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    const selected = blocksRef.current.filter(b => selectionRef.current.blockIds.includes(b.id));
+    if (selected.length < 3) return;
+    moveSelectedBlocks(distributeBlocks(selected, axis));
+  };
+
+  // -- Auto Layout --
+
+  const layoutAnimationRef = useRef<{ frame: number, gestureId: string, finish: () => void } | null>(null);
+
+  // Drops a running layout animation where it is, e.g. when the page is replaced underneath it
+  const stopLayoutAnimation = () => {
+    const animation = layoutAnimationRef.current;
+    if (!animation) return;
+    cancelAnimationFrame(animation.frame);
+    layoutAnimationRef.current = null;
+    if (gestureIdRef.current === animation.gestureId) gestureIdRef.current = undefined;
+  };
+
+  // Lays out the selection (or the whole page) and animates the blocks there. Every frame shares
+  // one gesture id, so the history records the layout and its edge handle changes as a single step.
+  const handleAutoLayout = (mode: LayoutMode) => {
+    layoutAnimationRef.current?.finish();
+    const { blockIds } = selectionRef.current;
+    const scope = blockIds.length > 1 ? blocksRef.current.filter(b => blockIds.includes(b.id)) : blocksRef.current;
+    const { positions, handles } = computeLayout(scope, edgesRef.current, mode);
+    if (positions.size === 0) {
+        alert('Nothing to lay out: connect some blocks first');
+        return;
     }
+
+    const starts = new Map(scope.filter(b => positions.has(b.id)).map(b => [b.id, { x: b.x, y: b.y }]));
+    const applyProgress = (k: number) => setBlocks(prev => prev.map(b => {
+        const from = starts.get(b.id);
+        const to = positions.get(b.id);
+        return from && to ? { ...b, x: from.x + (to.x - from.x) * k, y: from.y + (to.y - from.y) * k } : b;
+    }));
+
+    const gestureId = uuidv4();
+    gestureIdRef.current = gestureId;
+    setEdges(prev => prev.map(e => {
+        const h = handles.get(e.id);
+        return h && (h.fromHandle !== e.fromHandle || h.toHandle !== e.toHandle) ? { ...e, ...h } : e;
+    }));
+
+    const finish = () => {
+        stopLayoutAnimation();
+        // Committed synchronously so the final frame is recorded before the gesture closes
+        gestureIdRef.current = gestureId;
+        flushSync(() => applyProgress(1));
+        gestureIdRef.current = undefined;
+    };
+
+    const startTime = performance.now();
+    const step = (now: number) => {
+        const t = (now - startTime) / LAYOUT_ANIMATION_MS;
+        if (t >= 1) {
+            finish();
+            return;
+        }
+        applyProgress(easeInOutCubic(t));
+        layoutAnimationRef.current!.frame = requestAnimationFrame(step);
+    };
+    layoutAnimationRef.current = { frame: requestAnimationFrame(step), gestureId, finish };
+  };
+
+  // -- Snapping --
+
+  // Blocks on screen that a dragged or resized block can line up with
+  const getSnapNeighbours = (excluded: { has: (id: string) => boolean }) => {
+    const { pan, scale } = canvasStateRef.current;
+    const visible = { x: -pan.x / scale, y: -pan.y / scale, w: window.innerWidth / scale, h: window.innerHeight / scale };
+    const hidden = getHiddenBlockIds(blocksRef.current);
+    return blocksRef.current.filter(b => !excluded.has(b.id) && !hidden.has(b.id) && rectsIntersect(b, visible));
+  };
+
+  const handleResizeSnap = (id: string, rect: Rect, edges: ResizeEdges, bypass: boolean): Rect => {
+    if (bypass) {
+        setGuides([]);
+        return rect;
+    }
+    let next = snapGrid ? snapRectEdgesToGrid(rect, edges, gridSize) : rect;
+    if (smartGuides) {
+        const neighbours = getSnapNeighbours(new Set([id]));
+        next = getResizeSnap(next, edges, neighbours, SNAP_THRESHOLD / canvasStateRef.current.scale);
+        setGuides(getAlignmentGuides(next, neighbours));
+    }
+    return next;
+  };
+
+  // Plain click keeps an existing group intact so it can be dragged; shift-click is handled in handleBlockDown
+  const selectBlock = (id: string) => {
+    setSelection(prev => prev.blockIds.includes(id) ? prev : selectOnly(id));
   };
 
   const handleConnectStart = (id: string, handle: HandleType, e: React.MouseEvent | React.TouchEvent) => {
@@ -459,7 +1013,6 @@ export default function App() {
 
   const handleConnectEnd = (toId: string, toHandle: HandleType) => {
     if (connecting && connecting.fromId !== toId) {
-       pushHistory();
        const newEdge: Edge = {
            id: uuidv4(),
            fromId: connecting.fromId,
@@ -472,23 +1025,6 @@ export default function App() {
     setConnecting(null);
   };
 
-  const getHandlePosition = (blockId: string, handle: HandleType, currentBlocks: BlockData[]): Point | null => {
-      const block = currentBlocks.find(b => b.id === blockId);
-      if (!block) return null;
-      switch (handle) {
-          case 'top': return { x: block.x + block.w / 2, y: block.y };
-          case 'bottom': return { x: block.x + block.w / 2, y: block.y + block.h };
-          case 'left': return { x: block.x, y: block.y + block.h / 2 };
-          case 'right': return { x: block.x + block.w, y: block.y + block.h / 2 };
-      }
-      return { x: block.x, y: block.y };
-  };
-
-  const getPathString = (p1: Point, p2: Point, h1: HandleType, h2: HandleType) => {
-      const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
-      return `M ${p1.x} ${p1.y} C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${p2.x} ${p2.y}`;
-  };
-
   const handleAiSubmit = async (prompt: string) => {
     setAiLoading(true);
     const centerX = (-canvasState.pan.x + window.innerWidth / 2) / canvasState.scale;
@@ -496,9 +1032,8 @@ export default function App() {
 
     const newBlock = await generateBlockFromPrompt(prompt, {x: centerX, y: centerY});
     if (newBlock) {
-      pushHistory();
       setBlocks(prev => [...prev, newBlock]);
-      setSelection(newBlock.id);
+      setSelection(selectOnly(newBlock.id));
       setAiMode(false); 
     }
     setAiLoading(false);
@@ -506,16 +1041,147 @@ export default function App() {
 
   // -- Canvas Interaction --
 
+  // -- Navigation --
+  const animationFrameRef = useRef<number | null>(null);
+
+  const stopCanvasAnimation = () => {
+    if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+    }
+  };
+
+  // Glides the camera to `target`; any manual pan or zoom interrupts it
+  const animateCanvasTo = (target: CanvasState, duration = 350) => {
+    stopCanvasAnimation();
+    const from = canvasStateRef.current;
+    const viewport = { w: window.innerWidth, h: window.innerHeight };
+    const start = performance.now();
+    const step = (now: number) => {
+        const t = Math.min(1, (now - start) / duration);
+        setCanvasState(t < 1 ? interpolateCanvas(from, target, t, viewport) : target);
+        animationFrameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    animationFrameRef.current = requestAnimationFrame(step);
+  };
+
+  const zoomToBlocks = (targetBlocks: BlockData[]) => {
+    const bounds = getBlocksBounds(targetBlocks);
+    if (bounds) animateCanvasTo(fitRectToViewport(bounds, { w: window.innerWidth, h: window.innerHeight }));
+  };
+
+  const handleZoomToFit = () => {
+    if (blocksRef.current.length === 0) animateCanvasTo(DEFAULT_CANVAS);
+    else zoomToBlocks(blocksRef.current);
+  };
+
+  const handleZoomToSelection = () => {
+    const ids = new Set(selectionRef.current.blockIds);
+    if (ids.size > 0) zoomToBlocks(blocksRef.current.filter(b => ids.has(b.id)));
+  };
+
+  const handleResetZoom = () => {
+    animateCanvasTo(zoomAroundCenter(canvasStateRef.current, 1, { w: window.innerWidth, h: window.innerHeight }));
+  };
+
+  const handleAddViewpoint = (name: string) => {
+    setViewpoints(prev => [...prev, { id: uuidv4(), name, pageId: activePageId, canvas: canvasState }]);
+  };
+
+  const handleGoToViewpoint = (id: string) => {
+    const viewpoint = viewpoints.find(v => v.id === id);
+    if (!viewpoint) return;
+    if (viewpoint.pageId !== activePageId) {
+        // Switching pages replaces the whole canvas, so jump straight there
+        handleSwitchPage(viewpoint.pageId);
+        setCanvasState(viewpoint.canvas);
+    } else {
+        animateCanvasTo(viewpoint.canvas);
+    }
+  };
+
+  const handleDeleteViewpoint = (id: string) => {
+    setViewpoints(prev => prev.filter(v => v.id !== id));
+  };
+
+  // Next actions can live on another page, which is opened already framed on the task
+  const handleGoToTask = (pageId: string, blockId: string) => {
+    if (pageId !== activePageId) {
+        const block = pages.find(p => p.id === pageId)?.blocks.find(b => b.id === blockId);
+        handleSwitchPage(pageId);
+        if (block) setCanvasState(fitRectToViewport(block, { w: window.innerWidth, h: window.innerHeight }));
+    } else {
+        const block = blocksRef.current.find(b => b.id === blockId);
+        if (block) zoomToBlocks([block]);
+    }
+    setSelection(selectOnly(blockId));
+  };
+
+  // One update for both checklists, so a move between blocks is a single undo step
+  const handleMoveChecklistItem = (from: { blockId: string, itemId: string }, to: { blockId: string, index: number, level: number }) => {
+    setBlocks(prev => moveChecklistItem(prev, from, to));
+  };
+
+  // -- Code Runs --
+  // At most one run per block. The output lands on the block when the run ends, even if the
+  // block has been edited meanwhile or its page is no longer the active one. History skips it.
+  const codeRunsRef = useRef(new Map<string, CodeRun>());
+  const [runningCodeIds, setRunningCodeIds] = useState<Set<string>>(new Set());
+  const codeInputTitles = useMemo(() => new Map(blocks.filter(b => b.type === 'code').map(b =>
+      [b.id, getRunInputBlocks(b, blocks, edges).map(input => input.title || input.type)])), [blocks, edges]);
+
+  const handleRunCode = async (id: string) => {
+    const block = blocksRef.current.find(b => b.id === id);
+    if (!block || codeRunsRef.current.has(id)) return;
+    const code = block.content as string;
+    const run = runCode(code, block.language || guessLanguage(code), getRunInputs(block, blocksRef.current, edgesRef.current));
+    codeRunsRef.current.set(id, run);
+    setRunningCodeIds(prev => new Set(prev).add(id));
+    const runOutput = await run.output;
+    codeRunsRef.current.delete(id);
+    setRunningCodeIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+    });
+    if (blocksRef.current.some(b => b.id === id)) {
+        updateBlock(id, { runOutput });
+    } else {
+        setPages(prev => prev.map(p => p.id !== activePageIdRef.current && p.blocks.some(b => b.id === id)
+            ? { ...p, blocks: p.blocks.map(b => b.id === id ? { ...b, runOutput } : b) }
+            : p));
+    }
+  };
+
+  const handleStopCode = (id: string) => codeRunsRef.current.get(id)?.stop();
+
+  const handleToggleTaskItem = (blockId: string, itemId: string) => {
+    const block = blocksRef.current.find(b => b.id === blockId);
+    if (block) updateBlock(blockId, toggleTaskItem(block, itemId));
+  };
+
   const handleCanvasDown = (e: React.MouseEvent | React.TouchEvent) => {
     const pos = getClientPos(e);
     if ('button' in e && e.button !== 0 && e.button !== 1) return;
     if ('target' in e && e.target !== e.currentTarget) return;
+    stopCanvasAnimation();
+    layoutAnimationRef.current?.finish();
+
+    // Shift + drag on empty canvas draws a selection marquee instead of panning
+    if ('shiftKey' in e && e.shiftKey) {
+        const canvasPos = {
+            x: (pos.x - canvasState.pan.x) / canvasState.scale,
+            y: (pos.y - canvasState.pan.y) / canvasState.scale
+        };
+        setMarquee({ start: canvasPos, current: canvasPos });
+        return;
+    }
 
     setIsPanning(true);
     lastMousePos.current = { x: pos.x, y: pos.y };
     startMousePos.current = { x: pos.x, y: pos.y };
     hasMovedRef.current = false;
-    setSelection(null); 
+    setSelection(EMPTY_SELECTION); 
   };
 
   const handleGlobalMove = useCallback((e: MouseEvent | TouchEvent) => {
@@ -538,59 +1204,93 @@ export default function App() {
     if (draggingBlock) {
         if(e.cancelable) e.preventDefault(); 
 
-        const dx = (pos.x - draggingBlock.startX) / canvasState.scale;
-        const dy = (pos.y - draggingBlock.startY) / canvasState.scale;
-        
-        let nextX = draggingBlock.initialBlockX + dx;
-        let nextY = draggingBlock.initialBlockY + dy;
+        let dx = (pos.x - draggingBlock.startX) / canvasState.scale;
+        let dy = (pos.y - draggingBlock.startY) / canvasState.scale;
+
+        const origins = new Map(draggingBlock.origins.map(o => [o.id, o]));
+        const primaryOrigin = origins.get(draggingBlock.id)!;
+        // Moving blocks at their start positions shifted by an offset
+        const movedBounds = (offsetX: number, offsetY: number) => getBlocksBounds(blocksRef.current
+            .filter(b => origins.has(b.id))
+            .map(b => ({ ...b, x: origins.get(b.id)!.x + offsetX, y: origins.get(b.id)!.y + offsetY }))
+        );
+
+        // The grabbed block lands on grid points, then guides pull the group onto neighbouring
+        // edges and centres. Holding Alt drags freely.
+        const snapping = !e.altKey;
+        const neighbours = snapping && smartGuides ? getSnapNeighbours(origins) : [];
+        if (snapping && snapGrid) {
+            dx = snapToGrid(primaryOrigin.x + dx, gridSize) - primaryOrigin.x;
+            dy = snapToGrid(primaryOrigin.y + dy, gridSize) - primaryOrigin.y;
+        }
+        if (neighbours.length > 0) {
+            const bounds = movedBounds(dx, dy);
+            if (bounds) {
+                const offset = getMoveSnap(bounds, neighbours, SNAP_THRESHOLD / canvasState.scale);
+                dx += offset.x;
+                dy += offset.y;
+            }
+        }
         
         if (preventOverlap) {
             const currentBlockData = blocksRef.current.find(b => b.id === draggingBlock.id);
             if (currentBlockData) {
-                 const others = blocksRef.current.filter(b => b.id !== draggingBlock.id);
-                 const { w, h } = currentBlockData;
-
-                 const rectX = { x: nextX, y: currentBlockData.y, w, h };
-                 const hitX = others.some(other => 
-                    rectX.x < other.x + other.w &&
-                    rectX.x + rectX.w > other.x &&
-                    rectX.y < other.y + other.h &&
-                    rectX.y + rectX.h > other.y
-                 );
-                 if (hitX) nextX = currentBlockData.x;
-
-                 const rectY = { x: nextX, y: nextY, w, h };
-                 const hitY = others.some(other => 
-                    rectY.x < other.x + other.w &&
-                    rectY.x + rectY.w > other.x &&
-                    rectY.y < other.y + other.h &&
-                    rectY.y + rectY.h > other.y
-                 );
-                 if (hitY) nextY = currentBlockData.y;
+                 // Frames are meant to be overlapped, so they neither block nor get blocked
+                 const hidden = getHiddenBlockIds(blocksRef.current);
+                 const others = blocksRef.current.filter(b => !origins.has(b.id) && !isFrame(b) && !hidden.has(b.id));
+                 const moving = blocksRef.current.filter(b => origins.has(b.id) && !isFrame(b) && !hidden.has(b.id));
+                 const currentDx = currentBlockData.x - primaryOrigin.x;
+                 const currentDy = currentBlockData.y - primaryOrigin.y;
+
+                 // The whole group is blocked if any of its members would hit a block outside it
+                 const collides = (offsetX: number, offsetY: number) => moving.some(b => {
+                    const origin = origins.get(b.id)!;
+                    const rect = { x: origin.x + offsetX, y: origin.y + offsetY, w: b.w, h: b.h };
+                    return others.some(other => rectsIntersect(rect, other));
+                 });
+
+                 if (collides(dx, currentDy)) dx = currentDx;
+                 if (collides(dx, dy)) dy = currentDy;
             }
         }
 
-        updateBlock(draggingBlock.id, { x: nextX, y: nextY });
+        const nextX = primaryOrigin.x + dx;
+        const nextY = primaryOrigin.y + dy;
+
+        setBlocks(prev => prev.map(b => {
+            const origin = origins.get(b.id);
+            return origin ? { ...b, x: origin.x + dx, y: origin.y + dy } : b;
+        }));
+
+        const finalBounds = neighbours.length > 0 ? movedBounds(dx, dy) : null;
+        setGuides(finalBounds ? getAlignmentGuides(finalBounds, neighbours) : []);
 
         const currentBlocks = blocksRef.current; 
         const currentEdges = edgesRef.current;
         const draggingBlockData = currentBlocks.find(b => b.id === draggingBlock.id);
 
-        if (draggingBlockData) {
+        // Splicing into an edge only makes sense for a single block
+        if (draggingBlockData && origins.size === 1 && !isFrame(draggingBlockData)) {
             const center = { 
                 x: nextX + draggingBlockData.w / 2, 
                 y: nextY + draggingBlockData.h / 2 
             };
             
             let foundEdgeId: string | null = null;
+            // Only edges whose bounds come near the block centre need the exact curve test
+            const candidates = querySpatialIndex(edgeIndexRef.current, {
+                x: center.x - SPLICE_DISTANCE,
+                y: center.y - SPLICE_DISTANCE,
+                w: SPLICE_DISTANCE * 2,
+                h: SPLICE_DISTANCE * 2
+            });
             
             for (const edge of currentEdges) {
+                if (!candidates.has(edge.id)) continue;
                 if (edge.fromId === draggingBlock.id || edge.toId === draggingBlock.id) continue;
                 
-                const p1 = getHandlePosition(edge.fromId, edge.fromHandle, currentBlocks);
-                const p2 = getHandlePosition(edge.toId, edge.toHandle, currentBlocks);
-                
-                if (p1 && p2 && isPointNearBezier(center, p1, p2, edge.fromHandle, edge.toHandle, 40)) {
+                const geometry = edgeGeometryRef.current.get(edge.id);
+                if (geometry && isPointNearRoute(center, geometry.route, SPLICE_DISTANCE)) {
                     foundEdgeId = edge.id;
                     break;
                 }
@@ -605,7 +1305,13 @@ export default function App() {
         setConnecting(prev => prev ? { ...prev, mousePos: { x: mouseX, y: mouseY } } : null);
     }
 
-  }, [isPanning, draggingBlock, connecting, canvasState, preventOverlap]);
+    if (marquee) {
+        const mouseX = (pos.x - canvasState.pan.x) / canvasState.scale;
+        const mouseY = (pos.y - canvasState.pan.y) / canvasState.scale;
+        setMarquee(prev => prev ? { ...prev, current: { x: mouseX, y: mouseY } } : null);
+    }
+
+  }, [isPanning, draggingBlock, connecting, marquee, canvasState, preventOverlap, snapGrid, gridSize, smartGuides]);
 
   const handleGlobalUp = useCallback((e: MouseEvent | TouchEvent) => {
     const pos = getClientPos(e);
@@ -617,26 +1323,22 @@ export default function App() {
     if (draggingBlock && highlightedEdgeId) {
         const edge = edgesRef.current.find(e => e.id === highlightedEdgeId);
         if (edge) {
-            pushHistory();
             const draggingBlockObj = blocksRef.current.find(b => b.id === draggingBlock.id);
             
+            // The route the block was dropped on, as drawn (the dragged block is no obstacle yet)
+            const geometry = edgeGeometryRef.current.get(edge.id);
             if (draggingBlockObj) {
-                const p1 = getHandlePosition(edge.fromId, edge.fromHandle, blocksRef.current);
-                const p2 = getHandlePosition(edge.toId, edge.toHandle, blocksRef.current);
-                
-                if (p1 && p2) {
+                if (geometry) {
                      const currentCenter = {
                          x: draggingBlockObj.x + draggingBlockObj.w / 2,
                          y: draggingBlockObj.y + draggingBlockObj.h / 2
                      };
                      
-                     const snapPoint = getClosestPointOnBezier(currentCenter, p1, p2, edge.fromHandle, edge.toHandle);
+                     const snapPoint = getClosestPointOnRoute(currentCenter, geometry.route);
                      
                      const newBlockX = snapPoint.x - draggingBlockObj.w / 2;
                      const newBlockY = snapPoint.y - draggingBlockObj.h / 2;
                      
-                     updateBlock(draggingBlock.id, { x: newBlockX, y: newBlockY });
-
                      let newInHandle: HandleType = 'left'; 
                      let newOutHandle: HandleType = 'right';
 
@@ -651,36 +1353,126 @@ export default function App() {
                          newOutHandle = 'right';
                      }
 
+                     // Both halves keep the edge's type and style; the label stays on the first
+                     const { label, ...style } = edge;
                      const newEdge1: Edge = {
+                        ...edge,
                         id: uuidv4(),
-                        fromId: edge.fromId,
                         toId: draggingBlock.id,
-                        fromHandle: edge.fromHandle,
                         toHandle: newInHandle
                     };
                     
                     const newEdge2: Edge = {
+                        ...style,
                         id: uuidv4(),
                         fromId: draggingBlock.id,
-                        toId: edge.toId,
-                        fromHandle: newOutHandle,
-                        toHandle: edge.toHandle
+                        fromHandle: newOutHandle
                     };
                     
-                    setEdges(prev => prev.filter(e => e.id !== edge.id).concat([newEdge1, newEdge2]));
+                    // Recorded synchronously, while the drag's gesture is still open, so the move
+                    // and the splice undo together
+                    flushSync(() => {
+                        updateBlock(draggingBlock.id, { x: newBlockX, y: newBlockY });
+                        setEdges(prev => prev.filter(e => e.id !== edge.id).concat([newEdge1, newEdge2]));
+                    });
                 }
             }
             setHighlightedEdgeId(null);
         }
     }
 
+    // Dropped blocks join (or leave) frames. Committed synchronously so the change is recorded
+    // as part of the drag before the gesture closes.
+    if (draggingBlock && hasMovedRef.current) {
+        const movedIds = draggingBlock.origins.map(o => o.id);
+        flushSync(() => setBlocks(prev => fitFramesToChildren(updateFrameMembership(prev, movedIds))));
+    }
+
+    if (marquee) {
+        const rect = rectFromPoints(marquee.start, marquee.current);
+        if (rect.w > 2 || rect.h > 2) {
+            const hidden = getHiddenBlockIds(blocksRef.current);
+            const inRect = selectInRect(rect, blocksRef.current.filter(b => !hidden.has(b.id)), edgesRef.current);
+            setSelection(prev => mergeSelections(prev, inRect));
+        }
+        setMarquee(null);
+    }
+
     setIsPanning(false);
     setDraggingBlock(null);
+    setGuides([]);
+    gestureIdRef.current = undefined;
     setHighlightedEdgeId(null); 
     if (connecting) {
         setConnecting(null);
     }
-  }, [isPanning, connecting, canvasState, draggingBlock, highlightedEdgeId]); 
+  }, [isPanning, connecting, marquee, canvasState, draggingBlock, highlightedEdgeId]); 
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo,
+  // Delete/Backspace removes the selection, Ctrl/Cmd+D duplicates it, Escape clears it,
+  // Shift+1 / Shift+2 zoom to fit / selection, Ctrl/Cmd+0 resets the zoom
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const key = e.key.toLowerCase();
+        const isMod = e.ctrlKey || e.metaKey;
+
+        // Rich text keeps the browser's own undo; controlled inputs go through our history
+        if (isMod && (key === 'z' || key === 'y') && !(e.target as HTMLElement | null)?.isContentEditable) {
+            e.preventDefault();
+            if (key === 'y' || e.shiftKey) handleRedo();
+            else handleUndo();
+            return;
+        }
+
+        if (isEditableTarget(e.target)) return;
+        const { blockIds } = selectionRef.current;
+
+        if (isMod && e.key === '0') {
+            e.preventDefault();
+            handleResetZoom();
+            return;
+        }
+        if (e.shiftKey && !isMod && (e.code === 'Digit1' || e.code === 'Digit2')) {
+            e.preventDefault();
+            if (e.code === 'Digit1') handleZoomToFit();
+            else handleZoomToSelection();
+            return;
+        }
+
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            deleteSelection();
+        } else if (isMod && key === 'd') {
+            e.preventDefault();
+            duplicateBlocks(blockIds);
+        } else if (e.key === 'Escape') {
+            setSelection(EMPTY_SELECTION);
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Pasting an image anywhere outside rich text stores it as a blob-backed image block;
+  // spreadsheet or CSV text pasted onto the canvas becomes a table block
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+        if ((e.target as HTMLElement | null)?.isContentEditable) return;
+        const images = Array.from(e.clipboardData?.files || []).filter(isImageFile);
+        if (images.length > 0) {
+            e.preventDefault();
+            addImageBlocks(images);
+            return;
+        }
+        if (e.defaultPrevented || isEditableTarget(e.target)) return;
+        const text = e.clipboardData?.getData('text/plain') || '';
+        if (!isTabularText(text)) return;
+        e.preventDefault();
+        addTableFromText(text);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
 
   useEffect(() => {
     window.addEventListener('mousemove', handleGlobalMove);
@@ -698,9 +1490,10 @@ export default function App() {
 
   const handleWheel = (e: React.WheelEvent) => {
       e.preventDefault();
+      stopCanvasAnimation();
       const zoomIntensity = 0.001; 
       const delta = -e.deltaY * zoomIntensity;
-      const newScale = Math.min(Math.max(0.1, canvasState.scale * (1 + delta)), 5);
+      const newScale = clampScale(canvasState.scale * (1 + delta));
       const mouseX = e.clientX;
       const mouseY = e.clientY;
       const newPanX = mouseX - (mouseX - canvasState.pan.x) * (newScale / canvasState.scale);
@@ -715,28 +1508,73 @@ export default function App() {
   const handleBlockDown = (e: React.MouseEvent | React.TouchEvent, id: string) => {
       const pos = getClientPos(e);
       const target = e.target as HTMLElement;
+      layoutAnimationRef.current?.finish();
+
+      if (e.shiftKey) {
+          setSelection(prev => toggleBlockSelection(prev, id));
+          e.stopPropagation();
+          return;
+      }
+
       if (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.closest('button')) {
-         setSelection(id);
+         selectBlock(id);
          return;
       }
 
       if (target.closest('[data-drag-handle]')) {
-          const block = blocks.find(b => b.id === id);
-          if (block) {
+          // Grabbing a block that is part of the selection drags the whole group
+          const current = selectionRef.current;
+          const groupIds = current.blockIds.includes(id) ? current.blockIds : [id];
+          // Frames carry everything inside them
+          const movingIds = new Set(expandWithDescendants(blocks, groupIds));
+          const origins = blocks
+              .filter(b => movingIds.has(b.id))
+              .map(b => ({ id: b.id, x: b.x, y: b.y }));
+
+          if (origins.length > 0) {
               setDraggingBlock({
                   id,
                   startX: pos.x,
                   startY: pos.y,
-                  initialBlockX: block.x,
-                  initialBlockY: block.y
+                  origins
               });
-              pushHistory(); 
+              hasMovedRef.current = false;
+              // The whole drag is recorded as a single move step
+              gestureIdRef.current = uuidv4();
           }
       }
-      setSelection(id);
+      selectBlock(id);
       e.stopPropagation(); 
   };
 
+  const selectedIds = new Set(selection.blockIds);
+  const selectedBlocks = blocks.filter(b => selectedIds.has(b.id));
+  const selectionBounds = selectedBlocks.length > 1 ? getBlocksBounds(selectedBlocks) : null;
+
+  // Viewport culling: only blocks and edges near the visible area are mounted. Selected
+  // blocks always stay mounted so an open editor keeps its focus while panning away.
+  const margin = CULL_MARGIN / canvasState.scale;
+  const viewportRect = {
+      x: -canvasState.pan.x / canvasState.scale - margin,
+      y: -canvasState.pan.y / canvasState.scale - margin,
+      w: viewportSize.w / canvasState.scale + margin * 2,
+      h: viewportSize.h / canvasState.scale + margin * 2
+  };
+  const visibleBlockIds = querySpatialIndex(blockIndex, viewportRect);
+  selection.blockIds.forEach(id => visibleBlockIds.add(id));
+  const visibleEdgeIds = querySpatialIndex(edgeIndex, viewportRect);
+  const isLowDetail = canvasState.scale < LOD_SCALE;
+  const edgeMarkerColors = Array.from(new Set([
+      EDGE_HIGHLIGHT_COLOR,
+      ...edges.filter(e => visibleEdgeIds.has(e.id)).map(e => resolveEdgeStyle(e).color)
+  ]));
+
+  // The edge editor opens when exactly one edge (and no block) is selected
+  const editedEdge = selection.blockIds.length === 0 && selection.edgeIds.length === 1
+      ? edges.find(e => e.id === selection.edgeIds[0])
+      : undefined;
+  const editedEdgeGeometry = editedEdge && edgeGeometry.get(editedEdge.id);
+
   return (
     <div 
         className="w-screen h-screen overflow-hidden flex flex-col relative select-none" 
@@ -761,10 +1599,22 @@ export default function App() {
           currentTheme={currentTheme}
           setTheme={setCurrentTheme}
           onExport={handleExport}
+          onExportMarkdown={handleExportMarkdown}
+          onExportCanvas={handleExportCanvas}
+          onExportImage={handleExportImage}
+          selectionCount={selection.blockIds.length}
           onImport={handleImport}
           onClear={handleClear}
           preventOverlap={preventOverlap}
           setPreventOverlap={setPreventOverlap}
+          snapGrid={snapGrid}
+          setSnapGrid={setSnapGrid}
+          gridSize={gridSize}
+          setGridSize={setGridSize}
+          smartGuides={smartGuides}
+          dependencyMode={dependencyMode}
+          setDependencyMode={setDependencyMode}
+          setSmartGuides={setSmartGuides}
           workspaces={workspaces}
           currentWorkspaceId={workspaceId}
           onSwitchWorkspace={handleSwitchWorkspace}
@@ -803,11 +1653,26 @@ export default function App() {
           </div>
       </div>
 
+      <PageTabs
+          pages={pages}
+          activePageId={activePageId}
+          selectionCount={selection.blockIds.length}
+          onSwitchPage={handleSwitchPage}
+          onAddPage={handleAddPage}
+          onRenamePage={handleRenamePage}
+          onReorderPages={handleReorderPages}
+          onDeletePage={handleDeletePage}
+          onMoveSelectionToPage={handleMoveSelectionToPage}
+      />
+
       <Toolbar 
         onAddBlock={(type) => addBlock(type, 0, 0)} 
         onUndo={handleUndo} 
-        canUndo={history.length > 0} 
+        canUndo={history.undo.length > 0} 
+        onRedo={handleRedo}
+        canRedo={history.redo.length > 0}
         onAiSubmit={handleAiSubmit}
+        onAutoLayout={handleAutoLayout}
         aiMode={aiMode}
         setAiMode={setAiMode}
         isLoading={aiLoading}
@@ -818,6 +1683,8 @@ export default function App() {
         className={`flex-1 w-full h-full relative grid-bg transition-colors duration-300 ${isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
         onMouseDown={handleCanvasDown}
         onTouchStart={handleCanvasDown}
+        onDragOver={handleCanvasDragOver}
+        onDrop={handleCanvasDrop}
       >
         <div 
           className="absolute origin-top-left will-change-transform transition-transform duration-100 ease-out"
@@ -825,25 +1692,49 @@ export default function App() {
             transform: `translate(${canvasState.pan.x}px, ${canvasState.pan.y}px) scale(${canvasState.scale})`
           }}
         >
+          {/* Frames Layer (behind edges and blocks; nested frames above their parents) */}
+          {sortFramesByDepth(shownBlocks, shownBlocks.filter(b => isFrame(b) && visibleBlockIds.has(b.id))).map(frame => (
+            <div
+              key={frame.id}
+              onMouseDown={(e) => handleBlockDown(e, frame.id)}
+              onTouchStart={(e) => handleBlockDown(e, frame.id)}
+            >
+                <FrameBlock
+                    frame={frame}
+                    isSelected={selectedIds.has(frame.id)}
+                    contentBounds={getFrameContentBounds(blocks, frame.id)}
+                    childCount={blocks.filter(b => b.frameId === frame.id).length}
+                    onUpdate={updateBlock}
+                    onDelete={deleteBlock}
+                    onDuplicate={duplicateBlock}
+                    onSelect={selectBlock}
+                    onConnectStart={handleConnectStart}
+                    onConnectEnd={handleConnectEnd}
+                    onResizeSnap={handleResizeSnap}
+                    onResizeEnd={() => setGuides([])}
+                    scale={canvasState.scale}
+                />
+            </div>
+          ))}
+
           {/* Edges Layer */}
           <svg className="absolute top-0 left-0 overflow-visible w-1 h-1 pointer-events-none" style={{ zIndex: 0 }}>
               <defs>
-                  <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
-                    <polygon points="0 0, 10 3.5, 0 7" className="fill-gray-500 dark:fill-gray-400" />
-                  </marker>
-                  <marker id="arrowhead-highlight" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
-                    <polygon points="0 0, 10 3.5, 0 7" className="fill-primary-500" />
-                  </marker>
-                  <marker id="arrowhead-delete" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
-                    <polygon points="0 0, 10 3.5, 0 7" className="fill-red-500" />
-                  </marker>
+                  {edgeMarkerColors.map(color => (
+                      <marker key={color} id={getMarkerId(color)} markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto-start-reverse">
+                        <polygon points="0 0, 10 3.5, 0 7" fill={color} />
+                      </marker>
+                  ))}
               </defs>
               {edges.map(edge => {
-                  const p1 = getHandlePosition(edge.fromId, edge.fromHandle, blocks);
-                  const p2 = getHandlePosition(edge.toId, edge.toHandle, blocks);
-                  if (!p1 || !p2) return null;
+                  const geometry = edgeGeometry.get(edge.id);
+                  if (!geometry || !visibleEdgeIds.has(edge.id)) return null;
+                  const path = getRoutePath(geometry.route);
                   
-                  const isHighlighted = edge.id === highlightedEdgeId;
+                  const isHighlighted = edge.id === highlightedEdgeId || selection.edgeIds.includes(edge.id);
+                  const style = resolveEdgeStyle(edge);
+                  const color = isHighlighted ? EDGE_HIGHLIGHT_COLOR : style.color;
+                  const marker = `url(#${getMarkerId(color)})`;
                   
                   return (
                       <g 
@@ -851,19 +1742,26 @@ export default function App() {
                         className="group cursor-pointer pointer-events-auto"
                         onClick={(e) => {
                             e.stopPropagation();
-                            deleteEdge(edge.id);
+                            selectEdge(edge.id, e.shiftKey);
+                        }}
+                        onDoubleClick={(e) => {
+                            e.stopPropagation();
+                            selectEdge(edge.id, false);
+                            setEdgeLabelFocusId(edge.id);
                         }}
                       >
                           <path 
-                              d={getPathString(p1, p2, edge.fromHandle, edge.toHandle)}
+                              d={path}
                               stroke="transparent"
                               strokeWidth="20"
                               fill="none"
+                              className="group-hover:stroke-gray-400"
+                              strokeOpacity={0.2}
                           />
 
                           {isHighlighted && (
                             <path 
-                                d={getPathString(p1, p2, edge.fromHandle, edge.toHandle)}
+                                d={path}
                                 stroke="rgba(139, 92, 246, 0.5)"
                                 strokeWidth="8"
                                 fill="none"
@@ -871,12 +1769,14 @@ export default function App() {
                             />
                           )}
                           <path 
-                            d={getPathString(p1, p2, edge.fromHandle, edge.toHandle)}
-                            stroke={isHighlighted ? "#8b5cf6" : "#6b7280"}
+                            d={path}
+                            stroke={color}
                             strokeWidth={isHighlighted ? "3" : "2"}
+                            strokeDasharray={style.lineStyle === 'dashed' ? DASH_PATTERN : undefined}
                             fill="none"
-                            markerEnd={isHighlighted ? "url(#arrowhead-highlight)" : "url(#arrowhead)"}
-                            className="transition-colors duration-200 group-hover:stroke-red-500"
+                            markerEnd={style.arrowheads !== 'none' ? marker : undefined}
+                            markerStart={style.arrowheads === 'both' ? marker : undefined}
+                            className="transition-colors duration-200"
                           />
                       </g>
                   );
@@ -896,41 +1796,234 @@ export default function App() {
               })()}
           </svg>
 
+          {/* Edge Labels */}
+          {edges.map(edge => {
+              const geometry = edgeGeometry.get(edge.id);
+              const caption = getEdgeCaption(edge);
+              if (!geometry || !caption || !visibleEdgeIds.has(edge.id)) return null;
+              const mid = getRouteMidpoint(geometry.route);
+              const isSelected = selection.edgeIds.includes(edge.id);
+              return (
+                  <div
+                    key={edge.id}
+                    className={`absolute -translate-x-1/2 -translate-y-1/2 max-w-[200px] truncate px-2 py-0.5 rounded-md text-xs font-medium border cursor-pointer bg-white dark:bg-gray-800 ${edge.label ? 'text-gray-700 dark:text-gray-200' : 'italic text-gray-400'} ${isSelected ? 'border-primary-500' : 'border-gray-200 dark:border-gray-700'}`}
+                    style={{ left: mid.x, top: mid.y, zIndex: 5 }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => selectEdge(edge.id, e.shiftKey)}
+                    onDoubleClick={() => {
+                        selectEdge(edge.id, false);
+                        setEdgeLabelFocusId(edge.id);
+                    }}
+                  >
+                      {caption}
+                  </div>
+              );
+          })}
+
           {/* Blocks Layer */}
-          {blocks.map(block => (
+          {shownBlocks.map(block => visibleBlockIds.has(block.id) && !isFrame(block) && (
             <div 
               key={block.id} 
               onMouseDown={(e) => handleBlockDown(e, block.id)}
               onTouchStart={(e) => handleBlockDown(e, block.id)}
             >
-                <Block
-                    block={block}
-                    isSelected={selection === block.id}
-                    onUpdate={updateBlock}
-                    onDelete={deleteBlock}
-                    onDuplicate={duplicateBlock}
-                    onSelect={setSelection}
-                    onConnectStart={handleConnectStart}
-                    onConnectEnd={handleConnectEnd}
-                    scale={canvasState.scale}
-                />
+                {isLowDetail && !selectedIds.has(block.id) ? (
+                    <BlockPlaceholder block={block} scale={canvasState.scale} onSelect={selectBlock} />
+                ) : (
+                    <Block
+                        block={block}
+                        isSelected={selectedIds.has(block.id)}
+                        onUpdate={updateBlock}
+                        onDelete={deleteBlock}
+                        onDuplicate={duplicateBlock}
+                        onSelect={selectBlock}
+                        onConnectStart={handleConnectStart}
+                        onConnectEnd={handleConnectEnd}
+                        onResizeSnap={handleResizeSnap}
+                        onResizeEnd={handleResizeEnd}
+                        taskStatus={taskStatuses?.get(block.id)}
+                        onMoveChecklistItem={handleMoveChecklistItem}
+                        isRunning={runningCodeIds.has(block.id)}
+                        runInputTitles={codeInputTitles.get(block.id)}
+                        onRunCode={handleRunCode}
+                        onStopCode={handleStopCode}
+                        scale={canvasState.scale}
+                    />
+                )}
             </div>
           ))}
+
+          {/* Selection Bounding Box */}
+          {selectionBounds && (
+              <div
+                className="absolute border-2 border-dashed border-primary-500 rounded-xl pointer-events-none"
+                style={{
+                    transform: `translate(${selectionBounds.x - 8}px, ${selectionBounds.y - 8}px)`,
+                    width: selectionBounds.w + 16,
+                    height: selectionBounds.h + 16,
+                    zIndex: 60
+                }}
+              />
+          )}
+
+          {/* Alignment Guides */}
+          {guides.map((guide, i) => (
+              <div
+                key={i}
+                className="absolute bg-pink-500 pointer-events-none"
+                style={guide.orientation === 'vertical' ? {
+                    transform: `translate(${guide.position}px, ${guide.start}px)`,
+                    width: 1 / canvasState.scale,
+                    height: guide.end - guide.start,
+                    zIndex: 70
+                } : {
+                    transform: `translate(${guide.start}px, ${guide.position}px)`,
+                    width: guide.end - guide.start,
+                    height: 1 / canvasState.scale,
+                    zIndex: 70
+                }}
+              />
+          ))}
+
+          {/* Marquee */}
+          {marquee && (() => {
+              const rect = rectFromPoints(marquee.start, marquee.current);
+              return (
+                  <div
+                    className="absolute border border-primary-500 bg-primary-500/10 pointer-events-none"
+                    style={{
+                        transform: `translate(${rect.x}px, ${rect.y}px)`,
+                        width: rect.w,
+                        height: rect.h,
+                        zIndex: 70
+                    }}
+                  />
+              );
+          })()}
         </div>
         
         {blocks.length === 0 && (
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-40">
                 <div className="text-center">
                     <h2 className="text-4xl font-bold text-gray-300 dark:text-gray-800 mb-4 tracking-tight">Tap Anywhere to Create</h2>
-                    <p className="text-gray-400 dark:text-gray-600">Drag to pan • Scroll to zoom</p>
+                    <p className="text-gray-400 dark:text-gray-600">Drag to pan • Scroll to zoom • Shift+drag to select</p>
                 </div>
             </div>
         )}
       </div>
 
-       <div className="fixed bottom-4 right-4 bg-white/80 dark:bg-gray-800/80 backdrop-blur px-3 py-1 rounded-full text-xs font-mono text-gray-500 border border-gray-200 dark:border-gray-700 pointer-events-none z-50">
-           {Math.round(canvasState.scale * 100)}%
-       </div>
+      {/* Group Actions (anchored above the selection bounding box) */}
+      {selectionBounds && !draggingBlock && (
+          <div
+            className="fixed z-50 flex items-center gap-1 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md shadow-lg border border-gray-200 dark:border-gray-700 rounded-xl p-1 -translate-x-1/2 -translate-y-full animate-pop-in"
+            style={{
+                left: (selectionBounds.x + selectionBounds.w / 2) * canvasState.scale + canvasState.pan.x,
+                top: (selectionBounds.y - 8) * canvasState.scale + canvasState.pan.y - 8
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+          >
+              <span className="px-2 text-xs font-mono text-gray-500">{selectedBlocks.length} selected</span>
+              <button
+                onClick={() => duplicateBlocks(selection.blockIds)}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300"
+                title="Duplicate Selection (Ctrl+D)"
+              >
+                  <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={frameSelection}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300"
+                title="Frame Selection"
+              >
+                  <Frame className="w-4 h-4" />
+              </button>
+              <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+              {ALIGN_ACTIONS.map(({ mode, label, Icon }) => (
+                  <button
+                    key={mode}
+                    onClick={() => alignSelection(mode)}
+                    className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300"
+                    title={label}
+                  >
+                      <Icon className="w-4 h-4" />
+                  </button>
+              ))}
+              <button
+                onClick={() => distributeSelection('horizontal')}
+                disabled={selectedBlocks.length < 3}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 disabled:opacity-30 disabled:pointer-events-none"
+                title="Distribute Horizontally"
+              >
+                  <DistributeHorizontal className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => distributeSelection('vertical')}
+                disabled={selectedBlocks.length < 3}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 disabled:opacity-30 disabled:pointer-events-none"
+                title="Distribute Vertically"
+              >
+                  <DistributeVertical className="w-4 h-4" />
+              </button>
+              <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+              <button
+                onClick={deleteSelection}
+                className="p-1.5 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg text-red-500"
+                title="Delete Selection (Del)"
+              >
+                  <Trash className="w-4 h-4" />
+              </button>
+          </div>
+      )}
+
+      {editedEdge && editedEdgeGeometry && (() => {
+          const mid = getRouteMidpoint(editedEdgeGeometry.route);
+          return (
+              <EdgeToolbar
+                edge={editedEdge}
+                position={{ x: mid.x * canvasState.scale + canvasState.pan.x, y: mid.y * canvasState.scale + canvasState.pan.y }}
+                focusLabel={edgeLabelFocusId === editedEdge.id}
+                onUpdate={updateEdge}
+                onReplace={replaceEdge}
+                onDelete={deleteEdge}
+              />
+          );
+      })()}
+
+       {dependencyMode && (
+           <NextActionsPanel
+             actions={nextActions}
+             cycles={dependencyCycles}
+             activePageId={activePageId}
+             onGoTo={handleGoToTask}
+             onToggleItem={handleToggleTaskItem}
+           />
+       )}
+
+       <Minimap
+         blocks={shownBlocks}
+         edges={edges}
+         canvasState={canvasState}
+         viewportSize={viewportSize}
+         onPan={(pan) => {
+             stopCanvasAnimation();
+             setCanvasState(prev => ({ ...prev, pan }));
+         }}
+       />
+
+       <ViewControls
+         scale={canvasState.scale}
+         hasSelection={selection.blockIds.length > 0}
+         viewpoints={viewpoints}
+         pages={pages}
+         activePageId={activePageId}
+         onZoomToFit={handleZoomToFit}
+         onZoomToSelection={handleZoomToSelection}
+         onResetZoom={handleResetZoom}
+         onAddViewpoint={handleAddViewpoint}
+         onGoToViewpoint={handleGoToViewpoint}
+         onDeleteViewpoint={handleDeleteViewpoint}
+       />
     </div>
   );
 }
\ No newline at end of file
@@ -1,8 +1,16 @@
 import React, { useRef, useState, useLayoutEffect, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { BlockData, ChecklistItem, HandleType, TableContent } from '../types';
-import { Trash, Copy, Sparkles, Move, Plus, Dumbbell, Book, Type, Code as CodeIcon, TableIcon, BoldIcon, ItalicIcon, UnderlineIcon, LinkIcon, XIcon, Undo } from './Icons';
+import { BlockData, ChecklistItem, HandleType, Rect, TableContent } from '../types';
+import { Trash, Copy, Sparkles, Move, Dumbbell, Book, Type, Code as CodeIcon, TableIcon, BoldIcon, ItalicIcon, UnderlineIcon, LinkIcon, XIcon, Undo, GripVertical, Calendar, MarkdownIcon, Eye, Pencil } from './Icons';
 import { improveText } from '../services/geminiService';
+import { getImageUrl } from '../services/imageService';
+import { ResizeEdges } from '../services/alignmentService';
+import { TableView } from './TableView';
+import { CodeEditor } from './CodeEditor';
+import { MarkdownEditor } from './MarkdownEditor';
+import { htmlToMarkdown, renderMarkdown, sanitizeUrl } from '../services/markdownService';
+import { TASK_STATUS_LABELS, TaskStatus } from '../services/dependencyService';
+import { CHECKLIST_ITEM_MIME, INDENT_WIDTH, getChecklistProgress, getItemLevel, indentChecklistItem, isOverdue, removeChecklistItem, todayString, toggleChecklistItem } from '../services/checklistService';
 
 interface BlockProps {
   block: BlockData;
@@ -13,9 +21,27 @@ interface BlockProps {
   onSelect: (id: string) => void;
   onConnectStart: (id: string, handle: HandleType, e: React.MouseEvent | React.TouchEvent) => void;
   onConnectEnd: (id: string, handle: HandleType) => void;
+  // Lets the canvas snap a freeform resize to the grid or neighbouring blocks; `bypass` is set while Alt is held
+  onResizeSnap?: (id: string, rect: Rect, edges: ResizeEdges, bypass: boolean) => Rect;
+  onResizeEnd?: () => void;
+  taskStatus?: TaskStatus; // Set in dependency mode for checklists and checkbox tables
+  // Drops a dragged checklist item (with its sub-items) into this or another checklist
+  onMoveChecklistItem?: (from: { blockId: string, itemId: string }, to: { blockId: string, index: number, level: number }) => void;
+  // Code blocks: running in a worker, with upstream blocks as inputs
+  isRunning?: boolean;
+  runInputTitles?: string[];
+  onRunCode?: (id: string) => void;
+  onStopCode?: (id: string) => void;
   scale: number;
 }
 
+const TASK_STATUS_STYLES: Record<TaskStatus, string> = {
+  blocked: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  ready: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  done: 'bg-primary-500 text-white',
+  cycle: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+};
+
 // -- Helpers --
 const stripHtmlStyles = (html: string) => {
     const div = document.createElement('div');
@@ -175,7 +201,8 @@ const RichTextEditor = ({
     const handleLinkClick = (e: React.MouseEvent) => {
         const target = e.target as HTMLElement;
         const link = target.closest('a');
-        if (link && !e.ctrlKey && !e.metaKey) {
+        // Pasted or older content may still hold script URLs; those are not followed
+        if (link && !e.ctrlKey && !e.metaKey && sanitizeUrl(link.href) !== '#') {
              window.open(link.href, '_blank');
         }
     };
@@ -283,42 +310,6 @@ const RichTextEditor = ({
     )
 }
 
-// -- AutoResizeTextarea (Used for Table) --
-
-const AutoResizeTextarea = ({ 
-  value, 
-  onChange, 
-  className, 
-  placeholder 
-}: { 
-  value: string, 
-  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void, 
-  className?: string, 
-  placeholder?: string 
-}) => {
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-
-  useLayoutEffect(() => {
-    if (textareaRef.current) {
-      textareaRef.current.style.height = 'auto';
-      textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
-    }
-  }, [value]);
-
-  return (
-    <textarea
-      ref={textareaRef}
-      className={className}
-      value={value}
-      onChange={onChange}
-      placeholder={placeholder}
-      rows={1}
-      spellCheck={false}
-      style={{ resize: 'none', overflow: 'hidden' }} 
-    />
-  );
-};
-
 export const Block: React.FC<BlockProps> = ({
   block,
   isSelected,
@@ -328,10 +319,30 @@ export const Block: React.FC<BlockProps> = ({
   onSelect,
   onConnectStart,
   onConnectEnd,
+  onResizeSnap,
+  onResizeEnd,
+  taskStatus,
+  onMoveChecklistItem,
+  isRunning,
+  runInputTitles,
+  onRunCode,
+  onStopCode,
   scale
 }) => {
   const titleRef = useRef<HTMLTextAreaElement>(null);
   const [isResizing, setIsResizing] = useState(false);
+  // Where a dragged checklist item would land: list position and indent level
+  const [dropTarget, setDropTarget] = useState<{ index: number, level: number } | null>(null);
+  const [storedImageUrl, setStoredImageUrl] = useState<string | null | undefined>(undefined); // undefined while loading
+
+  // Stored images show their thumbnail until they are drawn large enough to need the original
+  const imageVariant = block.w * scale > 300 ? 'full' : 'thumbnail';
+  useEffect(() => {
+      if (!block.imageId) return;
+      let cancelled = false;
+      getImageUrl(block.imageId, imageVariant).then(url => { if (!cancelled) setStoredImageUrl(url); });
+      return () => { cancelled = true; };
+  }, [block.imageId, imageVariant]);
 
   useLayoutEffect(() => {
       if (titleRef.current) {
@@ -354,6 +365,7 @@ export const Block: React.FC<BlockProps> = ({
     if (lowerTitle.includes('study') || lowerTitle.includes('book') || lowerTitle.includes('read')) 
         return <Book className="w-4 h-4 text-blue-500" />;
     if (block.type === 'table') return <TableIcon className="w-4 h-4 text-primary-500" />;
+    if (block.type === 'markdown') return <MarkdownIcon className="w-4 h-4 text-gray-400" />;
 
     return <Type className="w-4 h-4 text-gray-400" />;
   };
@@ -361,10 +373,7 @@ export const Block: React.FC<BlockProps> = ({
   // -- Content Renderers --
   const handleChecklistToggle = (itemId: string) => {
     if (Array.isArray(block.content)) {
-      const newContent = (block.content as ChecklistItem[]).map(item =>
-        item.id === itemId ? { ...item, checked: !item.checked } : item
-      );
-      onUpdate(block.id, { content: newContent });
+      onUpdate(block.id, { content: toggleChecklistItem(block.content as ChecklistItem[], itemId) });
     }
   };
 
@@ -383,6 +392,46 @@ export const Block: React.FC<BlockProps> = ({
     }
   };
 
+  const updateChecklistItem = (itemId: string, updates: Partial<ChecklistItem>) => {
+    const newContent = (block.content as ChecklistItem[]).map(i => i.id === itemId ? { ...i, ...updates } : i);
+    onUpdate(block.id, { content: newContent });
+  };
+
+  // Tab / Shift+Tab nest and un-nest an item
+  const handleChecklistItemKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, itemId: string) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    onUpdate(block.id, { content: indentChecklistItem(block.content as ChecklistItem[], itemId, e.shiftKey ? -1 : 1) });
+  };
+
+  // Upper half of a row drops before it; lower half drops after it, or as its first sub-item
+  // when it already has some
+  const handleChecklistDragOver = (e: React.DragEvent, index: number) => {
+    if (!onMoveChecklistItem || !e.dataTransfer.types.includes(CHECKLIST_ITEM_MIME)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    const items = block.content as ChecklistItem[];
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = index < items.length && e.clientY > rect.top + rect.height / 2;
+    const level = index >= items.length
+        ? 0
+        : after && index + 1 < items.length && getItemLevel(items[index + 1]) > getItemLevel(items[index])
+            ? getItemLevel(items[index + 1])
+            : getItemLevel(items[index]);
+    const next = { index: after ? index + 1 : index, level };
+    setDropTarget(prev => prev && prev.index === next.index && prev.level === next.level ? prev : next);
+  };
+
+  const handleChecklistDrop = (e: React.DragEvent) => {
+    const payload = e.dataTransfer.getData(CHECKLIST_ITEM_MIME);
+    if (!payload || !dropTarget || !onMoveChecklistItem) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onMoveChecklistItem(JSON.parse(payload), { blockId: block.id, ...dropTarget });
+    setDropTarget(null);
+  };
+
   const handleAiQuery = async (text: string, action: 'summarize' | 'polish' | 'expand') => {
     let prompt = "";
     switch(action) {
@@ -393,41 +442,8 @@ export const Block: React.FC<BlockProps> = ({
     return await improveText(text, prompt);
   };
 
-  // -- Table Logic --
-  const updateTableCell = (rowIndex: number, colIndex: number, value: string, isHeader: boolean = false) => {
-      const tableData = block.content as TableContent;
-      if (isHeader) {
-          const newHeaders = [...tableData.headers];
-          newHeaders[colIndex] = value;
-          onUpdate(block.id, { content: { ...tableData, headers: newHeaders } });
-      } else {
-          const newRows = [...tableData.rows];
-          newRows[rowIndex] = [...newRows[rowIndex]];
-          newRows[rowIndex][colIndex] = value;
-          onUpdate(block.id, { content: { ...tableData, rows: newRows } });
-      }
-  };
-
-  const addTableRow = () => {
-      const tableData = block.content as TableContent;
-      const newRow = new Array(tableData.headers.length).fill('');
-      onUpdate(block.id, { content: { ...tableData, rows: [...tableData.rows, newRow] } });
-  };
-
-  const addTableCol = () => {
-      const tableData = block.content as TableContent;
-      const newHeaders = [...tableData.headers, 'NEW'];
-      const newRows = tableData.rows.map(row => [...row, '']);
-      const newColTypes = tableData.columnTypes ? [...tableData.columnTypes, 'text'] : undefined; 
-      onUpdate(block.id, { content: { ...tableData, headers: newHeaders, rows: newRows, columnTypes: newColTypes as any } });
-  };
-
-  const toggleTableCheckbox = (rowIndex: number, colIndex: number) => {
-       const tableData = block.content as TableContent;
-       const currentRowVal = tableData.rows[rowIndex][colIndex];
-       const newVal = currentRowVal === 'true' ? 'false' : 'true';
-       updateTableCell(rowIndex, colIndex, newVal);
-  };
+  const today = todayString();
+  const checklistProgress = block.type === 'checklist' ? getChecklistProgress(block.content as ChecklistItem[]) : null;
 
   const renderContent = () => {
     switch (block.type) {
@@ -441,68 +457,127 @@ export const Block: React.FC<BlockProps> = ({
             placeholder="Start typing or paste from Wikipedia..."
           />
         );
+      case 'markdown':
+        return (
+          <MarkdownEditor
+            source={block.content as string}
+            view={block.markdownView || 'preview'}
+            onChange={(source) => onUpdate(block.id, { content: source })}
+            onViewChange={(markdownView) => onUpdate(block.id, { markdownView })}
+          />
+        );
       case 'code':
         return (
-          <div className="w-full h-full flex flex-col">
-            <div className="bg-gray-900 text-xs text-gray-400 px-3 py-1.5 rounded-t-md font-mono select-none flex justify-between items-center">
-              <span>Code</span>
-              <span className="text-[10px] opacity-50">JS/TS/PY</span>
-            </div>
-            <textarea
-              className="w-full flex-1 bg-gray-800 text-green-400 p-3 font-mono text-sm resize-none outline-none block-content"
-              value={block.content as string}
-              onChange={(e) => onUpdate(block.id, { content: e.target.value })}
-              spellCheck={false}
-            />
-          </div>
+          <CodeEditor
+            code={block.content as string}
+            language={block.language}
+            onChange={(code) => onUpdate(block.id, { content: code })}
+            onLanguageChange={(language) => onUpdate(block.id, { language })}
+            runOutput={block.runOutput}
+            isRunning={isRunning}
+            inputTitles={runInputTitles}
+            onRun={onRunCode && (() => onRunCode(block.id))}
+            onStop={onStopCode && (() => onStopCode(block.id))}
+            onClearOutput={() => onUpdate(block.id, { runOutput: undefined })}
+          />
         );
       case 'checklist':
         return (
-          <div className="w-full h-full overflow-y-auto p-3 block-content">
-            {(block.content as ChecklistItem[]).map((item) => (
-              <div key={item.id} className="flex items-center gap-3 mb-2 group">
+          <div
+            className="w-full h-full overflow-y-auto p-3 block-content"
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={handleChecklistDrop}
+          >
+            {(block.content as ChecklistItem[]).map((item, index) => {
+              const overdue = isOverdue(item, today);
+              return (
+              <div
+                key={item.id}
+                className={`relative flex items-center gap-2 mb-2 group/item rounded-md ${overdue ? 'bg-red-50 dark:bg-red-900/20' : ''}`}
+                style={{ paddingLeft: getItemLevel(item) * INDENT_WIDTH }}
+                onDragOver={(e) => handleChecklistDragOver(e, index)}
+              >
+                {dropTarget && (dropTarget.index === index || (dropTarget.index === index + 1 && index === (block.content as ChecklistItem[]).length - 1)) && (
+                    <div
+                      className="absolute right-0 h-0.5 bg-primary-500 rounded-full pointer-events-none"
+                      style={{ left: dropTarget.level * INDENT_WIDTH, [dropTarget.index === index ? 'top' : 'bottom']: -5 }}
+                    />
+                )}
+                <div
+                  draggable={!!onMoveChecklistItem}
+                  onDragStart={(e) => {
+                      e.stopPropagation();
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData(CHECKLIST_ITEM_MIME, JSON.stringify({ blockId: block.id, itemId: item.id }));
+                  }}
+                  onDragEnd={() => setDropTarget(null)}
+                  className="-ml-1 text-gray-300 dark:text-gray-600 hover:text-gray-500 cursor-grab opacity-0 group-hover/item:opacity-100 transition-opacity"
+                  title="Drag to reorder"
+                >
+                  <GripVertical className="w-3.5 h-3.5" />
+                </div>
                 <button
                   onClick={() => handleChecklistToggle(item.id)}
-                  className={`w-5 h-5 border rounded-md flex items-center justify-center transition-all ${
+                  className={`w-5 h-5 shrink-0 border rounded-md flex items-center justify-center transition-all ${
                     item.checked ? 'bg-primary-500 border-primary-500 text-white' : 'border-gray-400 hover:border-primary-400'
                   }`}
                 >
                   {item.checked && <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><polyline points="20 6 9 17 4 12" strokeWidth="3"/></svg>}
                 </button>
                 <input
-                   className={`bg-transparent w-full outline-none transition-all ${item.checked ? 'line-through text-gray-400' : 'text-gray-800 dark:text-gray-200'}`}
+                   className={`bg-transparent w-full min-w-0 outline-none transition-all ${item.checked ? 'line-through text-gray-400' : overdue ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-200'}`}
                    value={item.text}
-                   onChange={(e) => {
-                     const newContent = (block.content as ChecklistItem[]).map(i => i.id === item.id ? {...i, text: e.target.value} : i);
-                     onUpdate(block.id, { content: newContent });
-                   }}
+                   onChange={(e) => updateChecklistItem(item.id, { text: e.target.value })}
+                   onKeyDown={(e) => handleChecklistItemKeyDown(e, item.id)}
                 />
+                {item.dueDate ? (
+                    <input
+                      type="date"
+                      value={item.dueDate}
+                      onChange={(e) => updateChecklistItem(item.id, { dueDate: e.target.value || undefined })}
+                      className={`shrink-0 w-[7.5rem] bg-transparent text-xs outline-none ${overdue ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500'}`}
+                      title={overdue ? 'Overdue' : 'Due date'}
+                    />
+                ) : (
+                    <button
+                      onClick={() => updateChecklistItem(item.id, { dueDate: todayString() })}
+                      className="shrink-0 opacity-0 group-hover/item:opacity-100 text-gray-400 hover:text-primary-500 transition-opacity"
+                      title="Add due date"
+                    >
+                      <Calendar className="w-3.5 h-3.5" />
+                    </button>
+                )}
                 <button
-                  onClick={() => {
-                     const newContent = (block.content as ChecklistItem[]).filter(i => i.id !== item.id);
-                     onUpdate(block.id, { content: newContent });
-                  }}
-                  className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-opacity"
+                  onClick={() => onUpdate(block.id, { content: removeChecklistItem(block.content as ChecklistItem[], item.id) })}
+                  className="shrink-0 opacity-0 group-hover/item:opacity-100 text-gray-400 hover:text-red-500 transition-opacity"
                 >
                   <Trash className="w-3.5 h-3.5"/>
                 </button>
               </div>
-            ))}
+              );
+            })}
              <input
               className="bg-transparent border-b border-dashed border-gray-300 dark:border-gray-700 w-full outline-none text-sm text-gray-500 mt-2 placeholder-gray-400 py-1"
               placeholder="+ Add item"
               onKeyDown={handleChecklistAdd}
+              onDragOver={(e) => handleChecklistDragOver(e, (block.content as ChecklistItem[]).length)}
             />
           </div>
         );
       case 'image':
          return (
              <div className="w-full h-full relative group flex items-center justify-center overflow-hidden rounded-md bg-gray-100 dark:bg-gray-800 block-content">
-                 {(block.content as string) ? (
+                 {block.imageId ? (
+                     storedImageUrl
+                        ? <img src={storedImageUrl} alt={block.title || 'Block content'} className="w-full h-full object-cover pointer-events-none" />
+                        : storedImageUrl === null && <p className="text-xs text-gray-500">Image not found</p>
+                 ) : (block.content as string) ? (
                      <img src={block.content as string} alt="Block content" className="w-full h-full object-cover pointer-events-none" />
                  ) : (
                      <div className="text-center p-4">
-                         <p className="text-xs text-gray-500 mb-2">Enter Image URL</p>
+                         <p className="text-xs text-gray-500 mb-2">Enter Image URL, or paste an image</p>
                          <input
                             className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs"
                             placeholder="https://..."
@@ -517,67 +592,7 @@ export const Block: React.FC<BlockProps> = ({
              </div>
          )
       case 'table':
-        const tableData = block.content as TableContent;
-        // Default column types if not provided
-        const colTypes = tableData.columnTypes || new Array(tableData.headers.length).fill('text');
-        
-        return (
-            <div className="w-full h-full overflow-hidden flex flex-col block-content">
-                {/* Dark Header Row */}
-                <div className="flex w-full bg-black/5 dark:bg-gray-900 border-b border-gray-300 dark:border-gray-700">
-                    {tableData.headers.map((header, idx) => (
-                         <div key={idx} className={`flex-1 min-w-[50px] border-r border-gray-300 dark:border-gray-700 last:border-r-0 relative group/col ${idx === 0 && colTypes[idx] === 'checkbox' ? 'max-w-[50px]' : ''}`}>
-                            <input 
-                                className="w-full bg-transparent outline-none font-bold text-[10px] tracking-wider text-gray-500 dark:text-gray-400 uppercase py-2 px-2 text-left"
-                                value={header}
-                                onChange={(e) => updateTableCell(0, idx, e.target.value, true)}
-                            />
-                        </div>
-                    ))}
-                </div>
-                
-                {/* Table Body */}
-                <div className="overflow-auto flex-1 custom-scrollbar">
-                    {tableData.rows.map((row, rIdx) => (
-                        <div key={rIdx} className="flex w-full border-b border-gray-200 dark:border-gray-800/50 last:border-0 hover:bg-gray-50/50 dark:hover:bg-gray-800/30 transition-colors">
-                            {row.map((cell, cIdx) => {
-                                const isCheckbox = colTypes[cIdx] === 'checkbox';
-                                return (
-                                    <div key={cIdx} className={`flex-1 min-w-[50px] border-r border-gray-200 dark:border-gray-800/50 last:border-r-0 flex items-start ${isCheckbox ? 'justify-center max-w-[50px]' : ''}`}>
-                                        {isCheckbox ? (
-                                            <button 
-                                                onClick={() => toggleTableCheckbox(rIdx, cIdx)}
-                                                className={`w-4 h-4 mt-2.5 rounded-full border border-gray-400 dark:border-gray-600 flex items-center justify-center transition-all ${cell === 'true' ? 'bg-blue-500 border-blue-500' : 'hover:border-blue-400'}`}
-                                            >
-                                                {cell === 'true' && <svg className="w-2.5 h-2.5 text-white" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
-                                            </button>
-                                        ) : (
-                                            <AutoResizeTextarea
-                                                className="w-full bg-transparent outline-none text-sm text-gray-800 dark:text-gray-200 py-2 px-2"
-                                                value={cell}
-                                                onChange={(e) => updateTableCell(rIdx, cIdx, e.target.value)}
-                                                placeholder=""
-                                            />
-                                        )}
-                                    </div>
-                                );
-                            })}
-                        </div>
-                    ))}
-                </div>
-                
-                {/* Footer Actions */}
-                 <div className="flex gap-2 p-2 border-t border-gray-200 dark:border-gray-800">
-                    <button onClick={addTableRow} className="text-[10px] px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-1 text-gray-600 dark:text-gray-300">
-                        <Plus className="w-3 h-3"/> Row
-                    </button>
-                    {/* Only allow adding generic columns via button for now */}
-                    <button onClick={addTableCol} className="text-[10px] px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-1 text-gray-600 dark:text-gray-300">
-                         <Plus className="w-3 h-3"/> Col
-                    </button>
-                </div>
-            </div>
-        )
+        return <TableView table={block.content as TableContent} onChange={(table) => onUpdate(block.id, { content: table })} scale={scale} title={block.title} />;
       default:
         return null;
     }
@@ -670,6 +685,19 @@ export const Block: React.FC<BlockProps> = ({
             newW = startW - dX;
             newX = startBlockX + dX;
           }
+
+          if (onResizeSnap) {
+              const edges: ResizeEdges = {
+                  left: direction.includes('w'),
+                  right: direction.includes('e'),
+                  top: direction.includes('n'),
+                  bottom: direction.includes('s')
+              };
+              const snapped = onResizeSnap(block.id, { x: newX, y: newY, w: newW, h: newH }, edges, moveEvent.altKey);
+              // A snap never pushes the block below its minimum size
+              if (snapped.w >= minW) { newX = snapped.x; newW = snapped.w; }
+              if (snapped.h >= minH) { newY = snapped.y; newH = snapped.h; }
+          }
           
           onUpdate(block.id, { w: newW, h: newH, x: newX, y: newY });
       }
@@ -677,6 +705,7 @@ export const Block: React.FC<BlockProps> = ({
 
     const onEnd = () => {
       setIsResizing(false);
+      onResizeEnd?.();
       document.removeEventListener('mousemove', onMove);
       document.removeEventListener('mouseup', onEnd);
       document.removeEventListener('touchmove', onMove);
@@ -711,8 +740,9 @@ export const Block: React.FC<BlockProps> = ({
             ? '0 0 0 2px rgba(139, 92, 246, 1), 0 10px 33px -5px rgba(139, 92, 246, 0.45)' 
             : undefined
       }}
-      onMouseDown={() => {
-          onSelect(block.id);
+      onMouseDown={(e) => {
+          // Shift-click toggles group membership, which the canvas handles
+          if (!e.shiftKey) onSelect(block.id);
       }}
       onTouchStart={() => {
           onSelect(block.id);
@@ -772,10 +802,53 @@ export const Block: React.FC<BlockProps> = ({
                         maxHeight: '44px' 
                     }}
                 />
+                {checklistProgress && checklistProgress.total > 0 && (
+                    <div className="flex items-center gap-1.5 shrink-0" title={`${checklistProgress.done} of ${checklistProgress.total} done`}>
+                        <div className="w-12 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                            <div className="h-full bg-primary-500 transition-all duration-300" style={{ width: `${(checklistProgress.done / checklistProgress.total) * 100}%` }} />
+                        </div>
+                        <span className="text-[10px] font-mono text-gray-500">{checklistProgress.done}/{checklistProgress.total}</span>
+                    </div>
+                )}
+                {taskStatus && (
+                    <span
+                      className={`shrink-0 px-1.5 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${TASK_STATUS_STYLES[taskStatus]}`}
+                      title={taskStatus === 'blocked' ? 'Waiting on unfinished upstream tasks' : taskStatus === 'cycle' ? 'Part of a dependency cycle' : undefined}
+                    >
+                        {TASK_STATUS_LABELS[taskStatus]}
+                    </span>
+                )}
             </div>
 
             {/* Action Buttons */}
             <div className={`flex items-center gap-1 transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+              {block.type === 'markdown' && (
+                <>
+                  <button
+                    onClick={() => onUpdate(block.id, { markdownView: block.markdownView === 'source' ? 'preview' : 'source' })}
+                    className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-500"
+                    title={block.markdownView === 'source' ? 'Show preview' : 'Edit source'}
+                  >
+                    {block.markdownView === 'source' ? <Eye className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => onUpdate(block.id, { type: 'text', content: renderMarkdown(block.content as string), markdownView: undefined })}
+                    className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-500"
+                    title="Convert to rich text"
+                  >
+                    <Type className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+              {block.type === 'text' && (
+                <button
+                  onClick={() => onUpdate(block.id, { type: 'markdown', content: htmlToMarkdown(block.content as string), markdownView: 'preview' })}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-500"
+                  title="Convert to Markdown"
+                >
+                  <MarkdownIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
               <button onClick={() => onDuplicate(block.id)} className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-500">
                  <Copy className="w-3.5 h-3.5" />
               </button>
@@ -786,7 +859,7 @@ export const Block: React.FC<BlockProps> = ({
           </div>
 
           {/* Content Area */}
-          <div className="flex-1 overflow-hidden relative">
+          <div className={`flex-1 overflow-hidden relative transition-opacity ${taskStatus === 'blocked' ? 'opacity-50' : ''}`}>
              {renderContent()}
           </div>
       </div>
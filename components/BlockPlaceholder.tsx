@@ -0,0 +1,36 @@
+import React from 'react';
+import { BlockData } from '../types';
+
+interface BlockPlaceholderProps {
+  block: BlockData;
+  scale: number;
+  onSelect: (id: string) => void;
+}
+
+// Level-of-detail stand-in for a Block when the canvas is zoomed far out: just the frame and
+// a title sized to stay legible. The whole card is a drag handle, so it can still be selected
+// and moved without mounting the full editor.
+export const BlockPlaceholder: React.FC<BlockPlaceholderProps> = ({ block, scale, onSelect }) => {
+  return (
+    <div
+      data-drag-handle
+      className="absolute z-10 flex items-start overflow-hidden rounded-xl bg-white/95 dark:bg-gray-800/95 border border-gray-300 dark:border-gray-700 cursor-grab"
+      style={{
+        transform: `translate(${block.x}px, ${block.y}px)`,
+        width: block.w,
+        height: block.h
+      }}
+      onMouseDown={(e) => {
+          if (!e.shiftKey) onSelect(block.id);
+      }}
+      onTouchStart={() => onSelect(block.id)}
+    >
+      <div
+        className="w-full px-3 py-2 font-bold text-gray-700 dark:text-gray-200 truncate bg-primary-500/10"
+        style={{ fontSize: Math.min(14 / scale, block.h / 2) }}
+      >
+        {block.title || block.type}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CodeLanguage, CodeLogLevel, CodeRunOutput } from '../types';
+import { Copy, Check, Play, Stop, XIcon } from './Icons';
+import {
+  CODE_LANGUAGES, CODE_LANGUAGE_LABELS, TOKEN_COLORS, findMatchingBracket, getIndentUnit, guessLanguage, opensBlock, tokenize
+} from '../services/syntaxService';
+import { isRunnable } from '../services/codeRunnerService';
+
+interface CodeEditorProps {
+  code: string;
+  language?: CodeLanguage; // Unset: guessed from the code
+  onChange: (code: string) => void;
+  onLanguageChange: (language: CodeLanguage | undefined) => void;
+  // Running (JavaScript and TypeScript only; the Run button shows when onRun is given)
+  runOutput?: CodeRunOutput;
+  isRunning?: boolean;
+  inputTitles?: string[]; // Upstream blocks passed in as inputs, in order
+  onRun?: () => void;
+  onStop?: () => void;
+  onClearOutput?: () => void;
+}
+
+const CLOSING_BRACKETS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+
+const LOG_STYLES: Record<CodeLogLevel, string> = {
+  log: 'text-gray-300',
+  info: 'text-sky-300',
+  warn: 'text-amber-300 bg-amber-500/10',
+  error: 'text-red-400 bg-red-500/10'
+};
+
+// A transparent textarea over a highlighted copy of the same text. Both use the same font,
+// padding and scroll offset, so the caret and selection line up with the coloured code.
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  code, language, onChange, onLanguageChange, runOutput, isRunning = false, inputTitles = [], onRun, onStop, onClearOutput
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  // Selection to restore once an edit made from a key handler has rendered
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const [caret, setCaret] = useState<number | null>(null); // Collapsed caret while focused
+  const [copied, setCopied] = useState(false);
+
+  const activeLanguage = language || guessLanguage(code);
+  const tokens = useMemo(() => tokenize(code, activeLanguage), [code, activeLanguage]);
+  const bracketMatch = useMemo(() => caret === null ? null : findMatchingBracket(tokens, caret), [tokens, caret]);
+  const lineCount = code.split('\n').length;
+  const canRun = !!onRun && isRunnable(activeLanguage);
+
+  useLayoutEffect(() => {
+      const selection = pendingSelection.current;
+      if (!selection || !textareaRef.current) return;
+      textareaRef.current.setSelectionRange(selection[0], selection[1]);
+      pendingSelection.current = null;
+      setCaret(selection[0] === selection[1] ? selection[0] : null);
+  }, [code]);
+
+  const applyEdit = (value: string, selectionStart: number, selectionEnd = selectionStart) => {
+      pendingSelection.current = [selectionStart, selectionEnd];
+      onChange(value);
+  };
+
+  const updateCaret = () => {
+      const el = textareaRef.current;
+      if (!el) return;
+      setCaret(el.selectionStart === el.selectionEnd ? el.selectionStart : null);
+  };
+
+  const syncScroll = () => {
+      const el = textareaRef.current;
+      if (!el) return;
+      if (highlightRef.current) {
+          highlightRef.current.scrollTop = el.scrollTop;
+          highlightRef.current.scrollLeft = el.scrollLeft;
+      }
+      if (gutterRef.current) gutterRef.current.scrollTop = el.scrollTop;
+  };
+
+  // Tab indents (every selected line when the selection spans lines), Shift+Tab outdents,
+  // Enter keeps the indentation and steps in after an opening bracket. Escape leaves the editor.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      const el = e.currentTarget;
+      const { selectionStart: start, selectionEnd: end, value } = el;
+      const unit = getIndentUnit(activeLanguage);
+
+      if (e.key === 'Escape') {
+          el.blur();
+          return;
+      }
+
+      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          if (canRun && !isRunning) onRun!();
+          return;
+      }
+
+      if (e.key === 'Tab') {
+          e.preventDefault();
+          const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+          if (!e.shiftKey && start === end) {
+              applyEdit(value.slice(0, start) + unit + value.slice(end), start + unit.length);
+              return;
+          }
+          const block = value.slice(lineStart, end);
+          const lines = block.split('\n');
+          let firstDelta = 0;
+          const changed = lines.map((line, i) => {
+              if (!e.shiftKey) {
+                  if (i === 0) firstDelta = unit.length;
+                  return unit + line;
+              }
+              const removable = line.match(unit === '\t' ? /^\t/ : new RegExp(`^ {1,${unit.length}}|^\\t`))?.[0] || '';
+              if (i === 0) firstDelta = -removable.length;
+              return line.slice(removable.length);
+          }).join('\n');
+          const delta = changed.length - block.length;
+          applyEdit(value.slice(0, lineStart) + changed + value.slice(end), Math.max(lineStart, start + firstDelta), end + delta);
+          return;
+      }
+
+      if (e.key === 'Enter' && !e.shiftKey && !e.metaKey && !e.ctrlKey) {
+          e.preventDefault();
+          const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+          const before = value.slice(lineStart, start);
+          const indent = before.match(/^[ \t]*/)![0];
+          const extra = opensBlock(before, activeLanguage) ? unit : '';
+          const opener = before.trimEnd().slice(-1);
+          // Between a pair of brackets the closing one moves to its own line
+          if (extra && CLOSING_BRACKETS[opener] && value[end] === CLOSING_BRACKETS[opener]) {
+              const insert = `\n${indent}${extra}\n${indent}`;
+              applyEdit(value.slice(0, start) + insert + value.slice(end), start + indent.length + extra.length + 1);
+              return;
+          }
+          const insert = `\n${indent}${extra}`;
+          applyEdit(value.slice(0, start) + insert + value.slice(end), start + insert.length);
+      }
+  };
+
+  const handleCopy = () => {
+      navigator.clipboard.writeText(code).then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+      }).catch(() => alert('Could not copy to the clipboard'));
+  };
+
+  // Coloured spans, with the bracket pair at the caret picked out
+  const renderHighlighted = () => {
+      const marks = new Map<number, string>();
+      if (bracketMatch) {
+          const [at, partner] = bracketMatch;
+          if (partner < 0) marks.set(at, 'bg-red-500/40 rounded-sm');
+          else {
+              marks.set(at, 'bg-white/20 rounded-sm outline outline-1 outline-white/40');
+              marks.set(partner, 'bg-white/20 rounded-sm outline outline-1 outline-white/40');
+          }
+      }
+      const nodes: React.ReactNode[] = [];
+      let offset = 0;
+      tokens.forEach((token, t) => {
+          const color = TOKEN_COLORS[token.type];
+          const italic = token.type === 'comment' ? 'italic' : undefined;
+          const markedPositions = Array.from(marks.keys()).filter(p => p >= offset && p < offset + token.text.length).sort((a, b) => a - b);
+          let cursor = 0;
+          markedPositions.forEach(p => {
+              const i = p - offset;
+              if (i > cursor) nodes.push(<span key={`${t}-${cursor}`} style={{ color, fontStyle: italic }}>{token.text.slice(cursor, i)}</span>);
+              nodes.push(<span key={`${t}-m${i}`} className={marks.get(p)} style={{ color }}>{token.text[i]}</span>);
+              cursor = i + 1;
+          });
+          if (cursor < token.text.length) nodes.push(<span key={`${t}-${cursor}`} style={{ color, fontStyle: italic }}>{token.text.slice(cursor)}</span>);
+          offset += token.text.length;
+      });
+      return nodes;
+  };
+
+  const editorText = 'font-mono text-sm leading-5 whitespace-pre';
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="bg-gray-900 text-xs text-gray-400 px-3 py-1.5 rounded-t-md font-mono select-none flex justify-between items-center gap-2">
+        <select
+          value={language || ''}
+          onChange={(e) => onLanguageChange((e.target.value || undefined) as CodeLanguage | undefined)}
+          className="bg-transparent outline-none cursor-pointer text-gray-400 hover:text-gray-200 max-w-[60%]"
+          title="Language"
+        >
+          <option value="">Auto · {CODE_LANGUAGE_LABELS[activeLanguage]}</option>
+          {CODE_LANGUAGES.map(l => <option key={l} value={l}>{CODE_LANGUAGE_LABELS[l]}</option>)}
+        </select>
+        <div className="flex items-center gap-1">
+          {canRun && inputTitles.length > 0 && (
+            <span
+              className="text-[10px] text-gray-500 px-1"
+              title={`Upstream blocks, passed in as inputs[0..${inputTitles.length - 1}]:\n${inputTitles.map((t, i) => `inputs[${i}]: ${t}`).join('\n')}`}
+            >
+              {inputTitles.length} input{inputTitles.length === 1 ? '' : 's'}
+            </span>
+          )}
+          {canRun && (
+            <button
+              onClick={isRunning ? onStop : onRun}
+              className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${isRunning ? 'text-red-400 hover:bg-red-500/20' : 'text-green-400 hover:bg-gray-800'}`}
+              title={isRunning ? 'Stop' : 'Run (Ctrl+Enter)'}
+            >
+              {isRunning ? <Stop className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              <span className="text-[10px]">{isRunning ? 'Stop' : 'Run'}</span>
+            </button>
+          )}
+          <button onClick={handleCopy} className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-gray-800 hover:text-gray-200 transition-colors" title="Copy code">
+            {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+            <span className="text-[10px]">{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+        </div>
+      </div>
+      <div className={`flex-1 flex min-h-0 bg-gray-800 overflow-hidden block-content ${runOutput ? '' : 'rounded-b-md'}`}>
+        {/* Line Numbers */}
+        <div ref={gutterRef} className={`${editorText} py-3 pl-2 pr-2 text-right text-gray-500 select-none overflow-hidden border-r border-gray-700/60 shrink-0`}>
+          {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+        </div>
+        <div className="relative flex-1 min-w-0">
+          <pre ref={highlightRef} aria-hidden className={`${editorText} absolute inset-0 m-0 p-3 overflow-hidden pointer-events-none`} style={{ tabSize: 4 }}>
+            {renderHighlighted()}
+            {/* Keeps a trailing empty line as tall as the textarea's */}
+            {' '}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            className={`${editorText} absolute inset-0 w-full h-full p-3 bg-transparent text-transparent caret-white resize-none outline-none overflow-auto custom-scrollbar selection:bg-blue-500/40`}
+            style={{ tabSize: 4 }}
+            value={code}
+            wrap="off"
+            spellCheck={false}
+            onChange={(e) => { onChange(e.target.value); updateCaret(); }}
+            onKeyDown={handleKeyDown}
+            onSelect={updateCaret}
+            onBlur={() => setCaret(null)}
+            onScroll={syncScroll}
+          />
+        </div>
+      </div>
+      {/* Output of the last run */}
+      {runOutput && (
+        <div className="max-h-[45%] shrink-0 overflow-auto custom-scrollbar bg-gray-900 border-t border-gray-700 rounded-b-md font-mono text-xs block-content">
+          <div className="sticky top-0 flex items-center justify-between px-3 py-1 bg-gray-900 text-[10px] text-gray-500 select-none">
+            <span>Output · {runOutput.durationMs} ms{isRunning ? ' · running…' : ''}</span>
+            <button onClick={onClearOutput} className="p-0.5 rounded hover:bg-gray-800 hover:text-gray-300" title="Clear output">
+              <XIcon className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="px-3 pb-2 space-y-0.5">
+            {runOutput.logs.map((log, i) => (
+              <div key={i} className={`whitespace-pre-wrap break-words px-1 rounded-sm ${LOG_STYLES[log.level]}`}>{log.text}</div>
+            ))}
+            {runOutput.error !== undefined && (
+              <div className="whitespace-pre-wrap break-words px-1 rounded-sm text-red-400 bg-red-500/10">{runOutput.error}</div>
+            )}
+            {runOutput.result !== undefined && (
+              <div className="whitespace-pre-wrap break-words px-1 text-gray-100"><span className="text-gray-500 select-none">← </span>{runOutput.result}</div>
+            )}
+            {runOutput.logs.length === 0 && runOutput.error === undefined && runOutput.result === undefined && (
+              <div className="px-1 text-gray-500 italic">No output</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
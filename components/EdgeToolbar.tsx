@@ -0,0 +1,109 @@
+import React from 'react';
+import { Edge, EdgeArrowheads, EdgeKind, EdgeLineStyle, EdgeRouting, Point } from '../types';
+import { EDGE_ARROWHEADS, EDGE_COLORS, EDGE_KINDS, EDGE_LINE_STYLES, applyEdgeKind, resolveEdgeStyle } from '../services/edgeStyleService';
+import { EDGE_ROUTINGS } from '../services/edgeRoutingService';
+import { Trash } from './Icons';
+
+interface EdgeToolbarProps {
+  edge: Edge;
+  position: Point; // Screen position of the edge midpoint
+  focusLabel: boolean;
+  onUpdate: (id: string, updates: Partial<Edge>) => void;
+  onReplace: (edge: Edge) => void;
+  onDelete: (id: string) => void;
+}
+
+const segmentClass = (active: boolean) =>
+  `p-1 rounded-md transition-colors ${active ? 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+// Small line sample used for the style and arrowhead buttons
+const LinePreview: React.FC<{ lineStyle: EdgeLineStyle, arrowheads: EdgeArrowheads }> = ({ lineStyle, arrowheads }) => (
+  <svg width="28" height="12" viewBox="0 0 28 12" className="block">
+      <line x1="3" y1="6" x2="25" y2="6" stroke="currentColor" strokeWidth="1.5" strokeDasharray={lineStyle === 'dashed' ? '4,3' : undefined} />
+      {arrowheads !== 'none' && <polyline points="20,2 25,6 20,10" fill="none" stroke="currentColor" strokeWidth="1.5" />}
+      {arrowheads === 'both' && <polyline points="8,2 3,6 8,10" fill="none" stroke="currentColor" strokeWidth="1.5" />}
+  </svg>
+);
+
+const ROUTING_PREVIEWS: Record<EdgeRouting, string> = {
+  bezier: 'M 3 10 C 14 10, 14 2, 25 2',
+  straight: 'M 3 10 L 25 2',
+  orthogonal: 'M 3 10 L 14 10 L 14 2 L 25 2'
+};
+
+// Floating editor for a single selected edge: label, semantic type and style
+export const EdgeToolbar: React.FC<EdgeToolbarProps> = ({ edge, position, focusLabel, onUpdate, onReplace, onDelete }) => {
+  const style = resolveEdgeStyle(edge);
+
+  return (
+    <div
+      className="fixed z-50 flex items-center gap-1 bg-white/95 dark:bg-gray-800/95 backdrop-blur-md shadow-lg border border-gray-200 dark:border-gray-700 rounded-xl p-1 -translate-x-1/2 -translate-y-full animate-pop-in"
+      style={{ left: position.x, top: position.y - 24 }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+        <input
+          // Remounted when label focus is requested, so autoFocus fires again
+          key={focusLabel ? 'focus' : 'idle'}
+          autoFocus={focusLabel}
+          value={edge.label || ''}
+          onChange={(e) => onUpdate(edge.id, { label: e.target.value || undefined })}
+          onKeyDown={(e) => { if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur(); }}
+          placeholder="Label"
+          className="w-28 bg-transparent text-sm px-2 py-1 outline-none text-gray-700 dark:text-gray-200 placeholder-gray-400"
+        />
+        <select
+          value={edge.kind || 'default'}
+          onChange={(e) => onReplace(applyEdgeKind(edge, e.target.value as EdgeKind))}
+          className="text-xs bg-transparent border border-gray-200 dark:border-gray-700 rounded-md px-1 py-1 text-gray-700 dark:text-gray-200"
+          title="Edge type"
+        >
+            {EDGE_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+        </select>
+
+        <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+        {EDGE_LINE_STYLES.map(lineStyle => (
+            <button key={lineStyle} onClick={() => onUpdate(edge.id, { lineStyle })} className={segmentClass(style.lineStyle === lineStyle)} title={`${lineStyle[0].toUpperCase()}${lineStyle.slice(1)} line`}>
+                <LinePreview lineStyle={lineStyle} arrowheads="none" />
+            </button>
+        ))}
+        <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+        {EDGE_ARROWHEADS.map(arrowheads => (
+            <button key={arrowheads} onClick={() => onUpdate(edge.id, { arrowheads })} className={segmentClass(style.arrowheads === arrowheads)} title={arrowheads === 'none' ? 'No arrowheads' : arrowheads === 'end' ? 'Arrow at the end' : 'Arrows at both ends'}>
+                <LinePreview lineStyle="solid" arrowheads={arrowheads} />
+            </button>
+        ))}
+
+        <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+        {EDGE_ROUTINGS.map(({ routing, label }) => (
+            <button key={routing} onClick={() => onUpdate(edge.id, { routing })} className={segmentClass((edge.routing || 'bezier') === routing)} title={`${label} route`}>
+                <svg width="28" height="12" viewBox="0 0 28 12" className="block">
+                    <path d={ROUTING_PREVIEWS[routing]} fill="none" stroke="currentColor" strokeWidth="1.5" />
+                </svg>
+            </button>
+        ))}
+
+        <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+        <div className="flex items-center gap-0.5 px-0.5">
+            {EDGE_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => onUpdate(edge.id, { color })}
+                  className={`w-4 h-4 rounded-full border-2 transition-transform hover:scale-110 ${style.color === color ? 'border-gray-700 dark:border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+            ))}
+        </div>
+
+        <div className="w-px h-5 bg-gray-200 dark:bg-gray-700 mx-0.5" />
+        <button
+          onClick={() => onDelete(edge.id)}
+          className="p-1.5 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg text-red-500"
+          title="Delete Connection (Del)"
+        >
+            <Trash className="w-4 h-4" />
+        </button>
+    </div>
+  );
+};
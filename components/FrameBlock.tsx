@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { BlockData, HandleType, Rect } from '../types';
+import { Trash, Copy, Move, ChevronDown, ChevronRight } from './Icons';
+import { ResizeEdges } from '../services/alignmentService';
+import { DEFAULT_FRAME_COLOR, FRAME_COLORS, FRAME_HEADER_HEIGHT, toggleFrameCollapsed } from '../services/frameService';
+
+interface FrameBlockProps {
+  frame: BlockData;
+  isSelected: boolean;
+  contentBounds: Rect | null; // Space the children need; the frame cannot be resized smaller
+  childCount: number;
+  onUpdate: (id: string, updates: Partial<BlockData>) => void;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onSelect: (id: string) => void;
+  onConnectStart: (id: string, handle: HandleType, e: React.MouseEvent | React.TouchEvent) => void;
+  onConnectEnd: (id: string, handle: HandleType) => void;
+  onResizeSnap?: (id: string, rect: Rect, edges: ResizeEdges, bypass: boolean) => Rect;
+  onResizeEnd?: () => void;
+  scale: number;
+}
+
+const MIN_WIDTH = 200;
+const MIN_HEIGHT = 120;
+
+// A container drawn behind other blocks. Only the title bar, the border handles and the resize
+// corner take the pointer; the body lets clicks through to the canvas and the blocks inside.
+export const FrameBlock: React.FC<FrameBlockProps> = ({
+  frame,
+  isSelected,
+  contentBounds,
+  childCount,
+  onUpdate,
+  onDelete,
+  onDuplicate,
+  onSelect,
+  onConnectStart,
+  onConnectEnd,
+  onResizeSnap,
+  onResizeEnd,
+  scale
+}) => {
+  const [isResizing, setIsResizing] = useState(false);
+  const color = frame.color || DEFAULT_FRAME_COLOR;
+
+  const handleResizeStart = (e: React.MouseEvent | React.TouchEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setIsResizing(true);
+
+    const start = 'touches' in e ? e.touches[0] : e;
+    const startX = start.clientX;
+    const startY = start.clientY;
+    const startW = frame.w;
+    const startH = frame.h;
+    // The frame always keeps its children inside
+    const minW = Math.max(MIN_WIDTH, contentBounds ? contentBounds.x + contentBounds.w - frame.x : 0);
+    const minH = Math.max(MIN_HEIGHT, contentBounds ? contentBounds.y + contentBounds.h - frame.y : 0);
+
+    const onMove = (moveEvent: MouseEvent | TouchEvent) => {
+      const point = 'touches' in moveEvent ? moveEvent.touches[0] : moveEvent;
+      let w = Math.max(minW, startW + (point.clientX - startX) / scale);
+      let h = Math.max(minH, startH + (point.clientY - startY) / scale);
+
+      if (onResizeSnap) {
+          const snapped = onResizeSnap(frame.id, { x: frame.x, y: frame.y, w, h }, { left: false, right: true, top: false, bottom: true }, moveEvent.altKey);
+          if (snapped.w >= minW) w = snapped.w;
+          if (snapped.h >= minH) h = snapped.h;
+      }
+      onUpdate(frame.id, { w, h });
+    };
+
+    const onEnd = () => {
+      setIsResizing(false);
+      onResizeEnd?.();
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onEnd);
+      document.removeEventListener('touchmove', onMove);
+      document.removeEventListener('touchend', onEnd);
+    };
+
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onEnd);
+    document.addEventListener('touchmove', onMove, { passive: false });
+    document.addEventListener('touchend', onEnd);
+  };
+
+  const handleTypes: HandleType[] = ['top', 'right', 'bottom', 'left'];
+
+  return (
+    <div
+      className={`absolute group rounded-2xl border-2 pointer-events-none ${isResizing ? 'transition-none' : 'transition-shadow duration-300'}`}
+      style={{
+        transform: `translate(${frame.x}px, ${frame.y}px)`,
+        width: frame.w,
+        height: frame.h,
+        borderColor: color,
+        // 8-digit hex: the frame colour at low opacity
+        backgroundColor: `${color}14`,
+        boxShadow: isSelected ? '0 0 0 2px rgba(139, 92, 246, 1)' : undefined
+      }}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      {handleTypes.map((h) => (
+        <div
+            key={h}
+            className={`absolute w-4 h-4 md:w-3 md:h-3 bg-white border-2 border-primary-500 rounded-full opacity-0 group-hover:opacity-100 hover:scale-125 cursor-crosshair z-20 transition-all pointer-events-auto
+              ${h === 'top' ? '-top-2 left-1/2 -translate-x-1/2' : ''}
+              ${h === 'bottom' ? '-bottom-2 left-1/2 -translate-x-1/2' : ''}
+              ${h === 'left' ? 'top-1/2 -translate-y-1/2 -left-2' : ''}
+              ${h === 'right' ? 'top-1/2 -translate-y-1/2 -right-2' : ''}
+            `}
+            onMouseDown={(e) => { e.stopPropagation(); onConnectStart(frame.id, h, e); }}
+            onMouseUp={(e) => { e.stopPropagation(); onConnectEnd(frame.id, h); }}
+            onTouchStart={(e) => { e.stopPropagation(); onConnectStart(frame.id, h, e); }}
+            onTouchEnd={(e) => { e.stopPropagation(); onConnectEnd(frame.id, h); }}
+        />
+      ))}
+
+      {/* Title Bar / Drag Handle */}
+      <div
+        className={`flex items-center gap-2 px-3 cursor-grab active:cursor-grabbing pointer-events-auto ${frame.collapsed ? 'rounded-xl' : 'rounded-t-xl'}`}
+        style={{ height: FRAME_HEADER_HEIGHT - 4, backgroundColor: `${color}33` }}
+        data-drag-handle
+        onMouseDown={(e) => {
+            if (!e.shiftKey) onSelect(frame.id);
+        }}
+        onTouchStart={() => onSelect(frame.id)}
+      >
+        <button
+          onClick={() => onUpdate(frame.id, toggleFrameCollapsed(frame))}
+          className="p-1 rounded hover:bg-black/10 dark:hover:bg-white/10 text-gray-600 dark:text-gray-300"
+          title={frame.collapsed ? 'Expand frame' : 'Collapse frame'}
+        >
+            {frame.collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        <Move className="w-4 h-4 text-gray-400 shrink-0" />
+        <input
+          value={frame.title || ''}
+          onChange={(e) => onUpdate(frame.id, { title: e.target.value })}
+          placeholder="Frame"
+          className="flex-1 min-w-0 bg-transparent font-semibold text-sm text-gray-800 dark:text-gray-100 outline-none placeholder-gray-400/70"
+        />
+        {frame.collapsed && childCount > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{childCount} inside</span>
+        )}
+
+        <div className={`flex items-center gap-1 transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+          {FRAME_COLORS.map(c => (
+              <button
+                key={c}
+                onClick={() => onUpdate(frame.id, { color: c })}
+                className={`w-3.5 h-3.5 rounded-full border-2 transition-transform hover:scale-110 ${color === c ? 'border-gray-700 dark:border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: c }}
+                title={c}
+              />
+          ))}
+          <button onClick={() => onDuplicate(frame.id)} className="p-1 ml-1 hover:bg-black/10 dark:hover:bg-white/10 rounded text-gray-500" title="Duplicate frame and contents">
+             <Copy className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onDelete(frame.id)} className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded text-red-500" title="Delete frame (keeps its contents)">
+             <Trash className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Resize Handle */}
+      {isSelected && !frame.collapsed && (
+        <>
+            <div className="absolute bottom-0 right-0 w-6 h-6 cursor-nwse-resize z-20 touch-none pointer-events-auto" onMouseDown={handleResizeStart} onTouchStart={handleResizeStart} />
+            <div className="absolute bottom-1 right-1 w-2.5 h-2.5 bg-primary-500 rounded-full pointer-events-none shadow-sm" />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { MarkdownView } from '../types';
+import { renderMarkdown, sanitizeUrl } from '../services/markdownService';
+
+interface MarkdownEditorProps {
+  source: string;
+  view: MarkdownView;
+  onChange: (source: string) => void;
+  onViewChange: (view: MarkdownView) => void;
+}
+
+const PREVIEW_STYLES = `text-sm text-gray-800 dark:text-gray-100 leading-relaxed break-words
+  [&>div>*:first-child]:mt-0
+  [&_h1]:text-xl [&_h1]:font-bold [&_h1]:mt-4 [&_h1]:mb-2
+  [&_h2]:text-lg [&_h2]:font-bold [&_h2]:mt-4 [&_h2]:mb-2
+  [&_h3]:text-base [&_h3]:font-semibold [&_h3]:mt-3 [&_h3]:mb-1
+  [&_h4]:font-semibold [&_h5]:font-semibold [&_h6]:font-semibold [&_h6]:text-gray-500
+  [&_p]:my-2 [&_hr]:my-4 [&_hr]:border-gray-200 dark:[&_hr]:border-gray-700
+  [&_b]:font-bold [&_i]:italic [&_s]:line-through [&_u]:underline
+  [&_a]:text-blue-500 dark:[&_a]:text-blue-400 [&_a]:underline [&_a]:cursor-pointer
+  [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_ul]:my-2 [&_ol]:my-2 [&_li_ul]:my-0 [&_li_ol]:my-0
+  [&_li.task]:list-none [&_li.task]:-ml-5 [&_li.task_input]:mr-1 [&_li.task_input]:align-middle
+  [&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 dark:[&_blockquote]:border-gray-600 [&_blockquote]:pl-3 [&_blockquote]:text-gray-500 dark:[&_blockquote]:text-gray-400
+  [&_code]:font-mono [&_code]:text-[0.85em] [&_code]:px-1 [&_code]:rounded [&_code]:bg-gray-100 dark:[&_code]:bg-gray-700/60
+  [&_pre]:my-2 [&_pre]:p-3 [&_pre]:rounded-md [&_pre]:bg-gray-900 [&_pre]:text-gray-100 [&_pre]:overflow-x-auto
+  [&_pre_code]:p-0 [&_pre_code]:bg-transparent dark:[&_pre_code]:bg-transparent
+  [&_table]:my-2 [&_table]:border-collapse [&_table]:text-xs
+  [&_th]:border [&_td]:border [&_th]:border-gray-300 [&_td]:border-gray-300 dark:[&_th]:border-gray-600 dark:[&_td]:border-gray-600
+  [&_th]:px-2 [&_td]:px-2 [&_th]:py-1 [&_td]:py-1 [&_th]:bg-gray-100 dark:[&_th]:bg-gray-700/60 [&_th]:font-semibold
+  [&_img]:max-w-full [&_img]:rounded`;
+
+// Source text with a rendered preview. Double-click the preview to edit; Escape or Ctrl+Enter
+// in the source goes back to the preview.
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ source, view, onChange, onViewChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const html = useMemo(() => view === 'preview' ? renderMarkdown(source) : '', [source, view]);
+  const mountedRef = useRef(false);
+
+  // Switching to the source puts the caret in it; blocks that load in source view are left alone
+  useEffect(() => {
+      if (mountedRef.current && view === 'source') textareaRef.current?.focus();
+      mountedRef.current = true;
+  }, [view]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === 'Escape' || (e.key === 'Enter' && (e.metaKey || e.ctrlKey))) {
+          e.preventDefault();
+          onViewChange('preview');
+          return;
+      }
+      // Tab indents by two spaces, which is what nests a list item
+      if (e.key === 'Tab' && !e.shiftKey) {
+          e.preventDefault();
+          const el = e.currentTarget;
+          const { selectionStart: start, selectionEnd: end, value } = el;
+          onChange(value.slice(0, start) + '  ' + value.slice(end));
+          requestAnimationFrame(() => el.setSelectionRange(start + 2, start + 2));
+      }
+  };
+
+  // Links open in a new tab rather than navigating the board away
+  const handlePreviewClick = (e: React.MouseEvent) => {
+      const link = (e.target as HTMLElement).closest('a');
+      if (!link) return;
+      e.preventDefault();
+      // Rendered links are already sanitized; checked again so nothing else reaches window.open
+      const href = sanitizeUrl(link.getAttribute('href') || '');
+      if (href && href !== '#') window.open(href, '_blank', 'noopener');
+  };
+
+  if (view === 'source') {
+    return (
+      <textarea
+        ref={textareaRef}
+        className="w-full h-full p-3 bg-transparent resize-none outline-none font-mono text-sm leading-5 text-gray-800 dark:text-gray-100 block-content custom-scrollbar placeholder-gray-400/70"
+        value={source}
+        spellCheck={false}
+        placeholder={'# Heading\n\nWrite **Markdown** here…'}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`w-full h-full p-3 overflow-y-auto custom-scrollbar block-content cursor-text ${PREVIEW_STYLES}`}
+      onClick={handlePreviewClick}
+      onDoubleClick={() => onViewChange('source')}
+      title="Double-click to edit"
+    >
+      {source.trim()
+        ? <div dangerouslySetInnerHTML={{ __html: html }} />
+        : <p className="text-gray-400 italic">Empty — double-click to write Markdown</p>}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { BlockCategory, BlockData, CanvasState, Edge, Point, Rect } from '../types';
+import { getBlockHandlePoint } from '../services/geometryService';
+import { getBlocksBounds } from '../services/selectionService';
+import { DEFAULT_FRAME_COLOR } from '../services/frameService';
+import { MapIcon, XIcon } from './Icons';
+
+interface MinimapProps {
+  blocks: BlockData[];
+  edges: Edge[];
+  canvasState: CanvasState;
+  viewportSize: { w: number; h: number };
+  onPan: (pan: Point) => void;
+}
+
+const MAP_WIDTH = 200;
+const MAP_HEIGHT = 140;
+const WORLD_PADDING = 200;
+
+const CATEGORY_COLORS: Record<BlockCategory, string> = {
+  fitness: '#f97316',
+  study: '#3b82f6',
+  code: '#22c55e',
+  general: '#9ca3af'
+};
+
+export const Minimap: React.FC<MinimapProps> = ({ blocks, edges, canvasState, viewportSize, onPan }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  // The mapped area is frozen while dragging, otherwise moving the viewport would rescale the map under the pointer
+  const dragBoundsRef = useRef<Rect | null>(null);
+
+  const { scale, pan } = canvasState;
+  const viewport: Rect = {
+      x: -pan.x / scale,
+      y: -pan.y / scale,
+      w: viewportSize.w / scale,
+      h: viewportSize.h / scale
+  };
+
+  const computeBounds = (): Rect => {
+      const content = getBlocksBounds(blocks);
+      const x1 = Math.min(viewport.x, content ? content.x - WORLD_PADDING : viewport.x);
+      const y1 = Math.min(viewport.y, content ? content.y - WORLD_PADDING : viewport.y);
+      const x2 = Math.max(viewport.x + viewport.w, content ? content.x + content.w + WORLD_PADDING : -Infinity);
+      const y2 = Math.max(viewport.y + viewport.h, content ? content.y + content.h + WORLD_PADDING : -Infinity);
+      return { x: x1, y: y1, w: x2 - x1, h: y2 - y1 };
+  };
+
+  const bounds = dragBoundsRef.current || computeBounds();
+  // Uniform scale, centred, so the map keeps the canvas aspect ratio
+  const mapScale = Math.min(MAP_WIDTH / bounds.w, MAP_HEIGHT / bounds.h);
+  const offsetX = (MAP_WIDTH - bounds.w * mapScale) / 2;
+  const offsetY = (MAP_HEIGHT - bounds.h * mapScale) / 2;
+  const toMap = (p: Point): Point => ({ x: offsetX + (p.x - bounds.x) * mapScale, y: offsetY + (p.y - bounds.y) * mapScale });
+
+  const panTo = (e: React.PointerEvent<SVGSVGElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const world = {
+          x: bounds.x + (e.clientX - rect.left - offsetX) / mapScale,
+          y: bounds.y + (e.clientY - rect.top - offsetY) / mapScale
+      };
+      // Centre the viewport on the clicked point
+      onPan({ x: viewportSize.w / 2 - world.x * scale, y: viewportSize.h / 2 - world.y * scale });
+  };
+
+  if (!isOpen) {
+      return (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="fixed bottom-14 right-4 z-50 p-2 bg-white/80 dark:bg-gray-800/80 backdrop-blur rounded-lg border border-gray-200 dark:border-gray-700 text-gray-500 hover:text-primary-500 transition-colors"
+            title="Show minimap"
+          >
+              <MapIcon className="w-4 h-4" />
+          </button>
+      );
+  }
+
+  const viewportTopLeft = toMap(viewport);
+  const blocksById = new Map(blocks.map(b => [b.id, b]));
+
+  return (
+    <div className="fixed bottom-14 right-4 z-50 bg-white/80 dark:bg-gray-800/80 backdrop-blur rounded-xl border border-gray-200 dark:border-gray-700 shadow-lg overflow-hidden group animate-pop-in">
+        <button
+          onClick={() => setIsOpen(false)}
+          className="absolute top-1 right-1 p-0.5 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+          title="Hide minimap"
+        >
+            <XIcon className="w-3 h-3" />
+        </button>
+        <svg
+          width={MAP_WIDTH}
+          height={MAP_HEIGHT}
+          className="block cursor-pointer touch-none"
+          onPointerDown={(e) => {
+              e.stopPropagation();
+              dragBoundsRef.current = bounds;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              panTo(e);
+          }}
+          onPointerMove={(e) => {
+              if (dragBoundsRef.current) panTo(e);
+          }}
+          onPointerUp={(e) => {
+              dragBoundsRef.current = null;
+              e.currentTarget.releasePointerCapture(e.pointerId);
+          }}
+        >
+            {edges.map(edge => {
+                const from = blocksById.get(edge.fromId);
+                const to = blocksById.get(edge.toId);
+                if (!from || !to) return null;
+                const p1 = toMap(getBlockHandlePoint(from, edge.fromHandle));
+                const p2 = toMap(getBlockHandlePoint(to, edge.toHandle));
+                return <line key={edge.id} x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#6b7280" strokeOpacity={0.6} strokeWidth={1} />;
+            })}
+            {/* Frames first, as translucent areas beneath their contents */}
+            {[...blocks.filter(b => b.type === 'frame'), ...blocks.filter(b => b.type !== 'frame')].map(block => {
+                const p = toMap(block);
+                const isFrame = block.type === 'frame';
+                return (
+                    <rect
+                      key={block.id}
+                      x={p.x}
+                      y={p.y}
+                      width={Math.max(1.5, block.w * mapScale)}
+                      height={Math.max(1.5, block.h * mapScale)}
+                      rx={1.5}
+                      fill={isFrame ? block.color || DEFAULT_FRAME_COLOR : CATEGORY_COLORS[block.category || 'general']}
+                      fillOpacity={isFrame ? 0.2 : 0.8}
+                    />
+                );
+            })}
+            <rect
+              x={viewportTopLeft.x}
+              y={viewportTopLeft.y}
+              width={viewport.w * mapScale}
+              height={viewport.h * mapScale}
+              className="fill-primary-500 stroke-primary-500"
+              fillOpacity={0.1}
+              strokeWidth={1.5}
+              rx={2}
+            />
+        </svg>
+    </div>
+  );
+};
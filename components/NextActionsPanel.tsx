@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { NextAction } from '../services/dependencyService';
+import { CheckSquare, XIcon } from './Icons';
+
+interface NextActionsPanelProps {
+  actions: NextAction[];
+  cycles: string[][]; // Block titles along each dependency loop
+  activePageId: string;
+  onGoTo: (pageId: string, blockId: string) => void;
+  onToggleItem: (blockId: string, itemId: string) => void;
+}
+
+// Workspace-wide to-do list for dependency mode: every open item whose upstream work is finished
+export const NextActionsPanel: React.FC<NextActionsPanelProps> = ({ actions, cycles, activePageId, onGoTo, onToggleItem }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`fixed top-14 right-4 z-50 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border backdrop-blur transition-colors
+          ${cycles.length > 0
+            ? 'bg-amber-100/90 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 border-amber-300 dark:border-amber-700'
+            : 'bg-white/80 dark:bg-gray-800/80 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:text-primary-500'}`}
+        title="Next actions"
+      >
+          <CheckSquare className="w-3.5 h-3.5" />
+          {actions.length} next
+          {cycles.length > 0 && <span>· {cycles.length} cycle{cycles.length > 1 ? 's' : ''}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-14 right-4 z-50 w-72 max-h-[60vh] flex flex-col bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl animate-pop-in">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Next Actions</span>
+            <button onClick={() => setIsOpen(false)} className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                <XIcon className="w-3.5 h-3.5" />
+            </button>
+        </div>
+
+        {cycles.length > 0 && (
+            <div className="mx-2 mt-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-200">
+                <p className="font-semibold mb-1">Dependency cycle{cycles.length > 1 ? 's' : ''}: these tasks wait on each other</p>
+                {cycles.map((titles, i) => (
+                    <p key={i} className="truncate" title={titles.join(' → ')}>{[...titles, titles[0]].join(' → ')}</p>
+                ))}
+            </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+            {actions.length === 0 && (
+                <p className="text-xs text-gray-400 px-1 py-2">Nothing is ready. Connect checklists to order them.</p>
+            )}
+            {actions.map(action => {
+                const isLocal = action.pageId === activePageId;
+                return (
+                    <div key={`${action.blockId}-${action.item.id}`} className="flex items-start gap-2 rounded-md px-1 py-1 hover:bg-gray-100 dark:hover:bg-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={false}
+                          disabled={!isLocal}
+                          onChange={() => onToggleItem(action.blockId, action.item.id)}
+                          className="mt-1 w-3.5 h-3.5 accent-primary-500 cursor-pointer disabled:cursor-default disabled:opacity-40"
+                          title={isLocal ? 'Mark as done' : 'Open the page to tick this off'}
+                        />
+                        <button onClick={() => onGoTo(action.pageId, action.blockId)} className="flex-1 min-w-0 text-left">
+                            <span className="block text-sm text-gray-700 dark:text-gray-200 truncate">{action.item.text || 'Untitled item'}</span>
+                            <span className="block text-[10px] text-gray-400 truncate">
+                                {isLocal ? action.blockTitle : `${action.pageName} · ${action.blockTitle}`}
+                            </span>
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Plus, XIcon } from './Icons';
+import { Page } from '../types';
+
+interface PageTabsProps {
+  pages: Page[];
+  activePageId: string;
+  selectionCount: number;
+  onSwitchPage: (id: string) => void;
+  onAddPage: () => void;
+  onRenamePage: (id: string, name: string) => void;
+  onReorderPages: (fromIndex: number, toIndex: number) => void;
+  onDeletePage: (id: string) => void;
+  onMoveSelectionToPage: (id: string) => void;
+}
+
+export const PageTabs: React.FC<PageTabsProps> = ({
+  pages,
+  activePageId,
+  selectionCount,
+  onSwitchPage,
+  onAddPage,
+  onRenamePage,
+  onReorderPages,
+  onDeletePage,
+  onMoveSelectionToPage
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const startEditing = (page: Page) => {
+      setEditingId(page.id);
+      setEditName(page.name);
+  };
+
+  const saveEditing = (id: string) => {
+      if (editName.trim()) {
+          onRenamePage(id, editName.trim());
+      }
+      setEditingId(null);
+  };
+
+  const otherPages = pages.filter(p => p.id !== activePageId);
+
+  return (
+    <div
+        className="absolute top-14 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 max-w-[90vw] bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200 dark:border-gray-700 rounded-xl p-1 shadow-lg"
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+    >
+        <div className="flex items-center gap-1 overflow-x-auto scrollbar-hide">
+            {pages.map((page, index) => (
+                <div
+                    key={page.id}
+                    draggable={editingId !== page.id}
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => {
+                        if (dragIndex !== null && dragIndex !== index) onReorderPages(dragIndex, index);
+                        setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`group flex items-center gap-1 pl-3 pr-1 py-1 rounded-lg text-xs font-medium whitespace-nowrap transition-colors shrink-0 ${
+                        page.id === activePageId
+                        ? 'bg-primary-500 text-white'
+                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    } ${dragIndex === index ? 'opacity-50' : ''}`}
+                >
+                    {editingId === page.id ? (
+                        <input
+                            className="bg-white dark:bg-gray-950 text-gray-900 dark:text-gray-100 border border-primary-500 rounded px-1 py-0.5 w-24 text-xs outline-none"
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            onBlur={() => saveEditing(page.id)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveEditing(page.id)}
+                            autoFocus
+                        />
+                    ) : (
+                        <button
+                            onClick={() => onSwitchPage(page.id)}
+                            onDoubleClick={() => startEditing(page)}
+                            title="Double-click to rename, drag to reorder"
+                        >
+                            {page.name}
+                        </button>
+                    )}
+                    {pages.length > 1 && editingId !== page.id && (
+                        <button
+                            onClick={() => onDeletePage(page.id)}
+                            className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-black/10 transition-opacity"
+                            title="Delete Page"
+                        >
+                            <XIcon className="w-3 h-3" />
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+
+        <button
+            onClick={onAddPage}
+            className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 shrink-0"
+            title="Add Page"
+        >
+            <Plus className="w-3.5 h-3.5" />
+        </button>
+
+        {selectionCount > 0 && otherPages.length > 0 && (
+            <select
+                className="bg-transparent text-xs text-gray-600 dark:text-gray-300 border-l border-gray-200 dark:border-gray-700 pl-2 ml-1 outline-none cursor-pointer shrink-0"
+                value=""
+                onChange={(e) => e.target.value && onMoveSelectionToPage(e.target.value)}
+            >
+                <option value="">Move {selectionCount} to…</option>
+                {otherPages.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+            </select>
+        )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useRef, useState } from 'react';
 import { ThemeId } from './Toolbar';
 import { XIcon, Database, Download, Upload, Layout, Layers, Trash, Plus } from './Icons';
 import { WorkspaceMetadata } from '../types';
+import { GRID_SIZES } from '../services/alignmentService';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -9,10 +10,22 @@ interface SidebarProps {
   currentTheme: ThemeId;
   setTheme: (theme: ThemeId) => void;
   onExport: () => void;
+  onExportMarkdown: () => void;
+  onExportCanvas: () => void;
+  onExportImage: (format: 'svg' | 'png', scale: number, selectionOnly: boolean) => void;
+  selectionCount: number;
   onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onClear: () => void;
   preventOverlap: boolean;
   setPreventOverlap: (v: boolean) => void;
+  snapGrid: boolean;
+  setSnapGrid: (v: boolean) => void;
+  gridSize: number;
+  setGridSize: (v: number) => void;
+  smartGuides: boolean;
+  setSmartGuides: (v: boolean) => void;
+  dependencyMode: boolean;
+  setDependencyMode: (v: boolean) => void;
   
   // Workspace Props
   workspaces: WorkspaceMetadata[];
@@ -23,24 +36,57 @@ interface SidebarProps {
   onDeleteWorkspace: (id: string) => void;
 }
 
-const THEMES: { id: ThemeId; color: string; bg: string; label: string }[] = [
-    { id: 'lumina-dark', color: '#8b5cf6', bg: '#0d1117', label: 'Lumina Dark' },
-    { id: 'lumina-light', color: '#8b5cf6', bg: '#f3f4f6', label: 'Lumina Light' },
-    { id: 'crimson', color: '#ef4444', bg: '#1a0505', label: 'Crimson' },
-    { id: 'slate', color: '#a1a1aa', bg: '#0a0a0a', label: 'Slate' },
-    { id: 'contrast', color: '#facc15', bg: '#000000', label: 'High Contrast' },
+// `surface` and `text` mirror the theme CSS variables so image exports match the canvas
+export const THEMES: { id: ThemeId; color: string; bg: string; surface: string; text: string; label: string }[] = [
+    { id: 'lumina-dark', color: '#8b5cf6', bg: '#0d1117', surface: '#1f2937', text: '#e5e7eb', label: 'Lumina Dark' },
+    { id: 'lumina-light', color: '#8b5cf6', bg: '#f3f4f6', surface: '#ffffff', text: '#1f2937', label: 'Lumina Light' },
+    { id: 'crimson', color: '#ef4444', bg: '#1a0505', surface: '#280a0a', text: '#fecaca', label: 'Crimson' },
+    { id: 'slate', color: '#a1a1aa', bg: '#0a0a0a', surface: '#171717', text: '#e5e5e5', label: 'Slate' },
+    { id: 'contrast', color: '#facc15', bg: '#000000', surface: '#000000', text: '#ffffff', label: 'High Contrast' },
 ];
 
+interface SettingToggleProps {
+  label: string;
+  value: boolean;
+  onChange: (v: boolean) => void;
+  children?: React.ReactNode;
+}
+
+const SettingToggle: React.FC<SettingToggleProps> = ({ label, value, onChange, children }) => (
+    <div className="flex items-center justify-between gap-2 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
+        <span className="flex-1 text-sm text-gray-700 dark:text-gray-300">{label}</span>
+        {children}
+        <button 
+            onClick={() => onChange(!value)}
+            className={`w-10 h-6 shrink-0 rounded-full relative transition-colors duration-200 ease-in-out focus:outline-none ${value ? 'bg-primary-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+        >
+            <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform duration-200 shadow-sm ${value ? 'translate-x-5' : 'translate-x-1'}`} />
+        </button>
+    </div>
+);
+
 export const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   onClose,
   currentTheme,
   setTheme,
   onExport,
+  onExportMarkdown,
+  onExportCanvas,
+  onExportImage,
+  selectionCount,
   onImport,
   onClear,
   preventOverlap,
   setPreventOverlap,
+  snapGrid,
+  setSnapGrid,
+  gridSize,
+  setGridSize,
+  smartGuides,
+  setSmartGuides,
+  dependencyMode,
+  setDependencyMode,
   workspaces,
   currentWorkspaceId,
   onSwitchWorkspace,
@@ -52,6 +98,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [isHistoryOpen, setIsHistoryOpen] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
+  const [pngScale, setPngScale] = useState(2);
+  const [selectionOnly, setSelectionOnly] = useState(false);
 
   const handleFileClick = () => {
     fileInputRef.current?.click();
@@ -171,14 +219,23 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-4 flex items-center gap-2">
                     <Layers className="w-3.5 h-3.5" /> Workspace Settings
                 </h3>
-                <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
-                    <span className="text-sm text-gray-700 dark:text-gray-300">Prevent Overlap</span>
-                    <button 
-                        onClick={() => setPreventOverlap(!preventOverlap)}
-                        className={`w-10 h-6 rounded-full relative transition-colors duration-200 ease-in-out focus:outline-none ${preventOverlap ? 'bg-primary-600' : 'bg-gray-300 dark:bg-gray-600'}`}
-                    >
-                        <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform duration-200 shadow-sm ${preventOverlap ? 'translate-x-5' : 'translate-x-1'}`} />
-                    </button>
+                <div className="space-y-2">
+                    <SettingToggle label="Prevent Overlap" value={preventOverlap} onChange={setPreventOverlap} />
+                    <SettingToggle label="Alignment Guides" value={smartGuides} onChange={setSmartGuides} />
+                    <SettingToggle label="Snap to Grid" value={snapGrid} onChange={setSnapGrid}>
+                        <select
+                          value={gridSize}
+                          onChange={(e) => setGridSize(Number(e.target.value))}
+                          disabled={!snapGrid}
+                          className="text-xs bg-transparent border border-gray-200 dark:border-gray-700 rounded px-1 py-0.5 text-gray-700 dark:text-gray-300 disabled:opacity-40"
+                          title="Grid size"
+                        >
+                            {GRID_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+                        </select>
+                    </SettingToggle>
+                    <p className="text-[10px] text-gray-400 px-1">Hold Alt while dragging to move freely.</p>
+                    <SettingToggle label="Task Dependencies" value={dependencyMode} onChange={setDependencyMode} />
+                    <p className="text-[10px] text-gray-400 px-1">Checklists wait until everything connected into them is ticked off.</p>
                 </div>
             </section>
 
@@ -198,12 +255,68 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         </span>
                     </button>
 
+                    <button 
+                        onClick={onExportMarkdown}
+                        className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 transition-colors border border-gray-200 dark:border-gray-700 group"
+                    >
+                        <span className="flex items-center gap-3">
+                            <Download className="w-4 h-4 text-gray-400 group-hover:text-primary-500" />
+                            <span className="text-sm">Export Markdown</span>
+                        </span>
+                    </button>
+
+                    <button 
+                        onClick={onExportCanvas}
+                        className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 transition-colors border border-gray-200 dark:border-gray-700 group"
+                        title="JSON Canvas, opens in Obsidian"
+                    >
+                        <span className="flex items-center gap-3">
+                            <Download className="w-4 h-4 text-gray-400 group-hover:text-primary-500" />
+                            <span className="text-sm">Export Canvas</span>
+                        </span>
+                    </button>
+
+                    <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <button 
+                                onClick={() => onExportImage('svg', 1, selectionOnly && selectionCount > 0)}
+                                className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 text-sm transition-colors"
+                            >
+                                <Download className="w-3.5 h-3.5 text-gray-400" /> SVG
+                            </button>
+                            <button 
+                                onClick={() => onExportImage('png', pngScale, selectionOnly && selectionCount > 0)}
+                                className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 text-sm transition-colors"
+                            >
+                                <Download className="w-3.5 h-3.5 text-gray-400" /> PNG
+                            </button>
+                            <select
+                                value={pngScale}
+                                onChange={(e) => setPngScale(Number(e.target.value))}
+                                className="bg-transparent text-xs text-gray-500 dark:text-gray-400 outline-none cursor-pointer"
+                                title="PNG scale"
+                            >
+                                {[1, 2, 3, 4].map(s => <option key={s} value={s}>{s}x</option>)}
+                            </select>
+                        </div>
+                        <label className={`flex items-center gap-2 text-xs ${selectionCount > 0 ? 'text-gray-600 dark:text-gray-400 cursor-pointer' : 'text-gray-400 dark:text-gray-600'}`}>
+                            <input 
+                                type="checkbox"
+                                checked={selectionOnly && selectionCount > 0}
+                                disabled={selectionCount === 0}
+                                onChange={(e) => setSelectionOnly(e.target.checked)}
+                                className="accent-primary-500"
+                            />
+                            Selection only{selectionCount > 0 ? ` (${selectionCount})` : ''}
+                        </label>
+                    </div>
+
                     <input 
                         type="file" 
                         ref={fileInputRef} 
                         onChange={onImport} 
                         className="hidden" 
-                        accept=".json"
+                        accept=".json,.canvas,.md,.markdown,.txt"
                     />
                     <button 
                         onClick={handleFileClick}
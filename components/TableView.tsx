@@ -0,0 +1,583 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ColumnAggregate, ColumnType, TableContent } from '../types';
+import { Plus, XIcon, ChevronDown, LinkIcon, GripVertical, Trash, Download } from './Icons';
+import { columnLetter, isFormulaError } from '../services/formulaService';
+import {
+  AGGREGATE_LABELS, COLUMN_TYPES, COLUMN_TYPE_LABELS, MIN_COLUMN_WIDTH, SortDirection, addColumn, addSelectOption,
+  computeAggregate, computeTable, deleteColumn, deleteRow, filterRows, formatCell, getAggregatesFor, getColumnConfig,
+  getColumnType, hasAggregates, isValidUrl, moveColumn, moveRow, parseNumber, removeSelectOption, setColumnType,
+  pasteCells, sortRows, updateColumnConfig
+} from '../services/tableService';
+import { Delimiter, isTabularText, parseDelimited, tableToDelimited } from '../services/csvService';
+import { downloadFile, toFileSlug } from '../services/fileService';
+
+interface TableViewProps {
+  table: TableContent;
+  onChange: (table: TableContent) => void;
+  scale: number; // Canvas zoom, to turn pointer movement into column widths
+  title?: string; // Block title, used to name downloads
+}
+
+// Drag-and-drop payload type for reordering rows and columns within a table
+const TABLE_DRAG_MIME = 'application/x-nukenote-table';
+
+// -- AutoResizeTextarea (Used for text cells) --
+
+const AutoResizeTextarea = ({
+  value,
+  onChange,
+  className,
+  placeholder
+}: {
+  value: string,
+  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void,
+  className?: string,
+  placeholder?: string
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useLayoutEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+      textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
+    }
+  }, [value]);
+
+  return (
+    <textarea
+      ref={textareaRef}
+      className={className}
+      value={value}
+      onChange={onChange}
+      placeholder={placeholder}
+      rows={1}
+      spellCheck={false}
+      style={{ resize: 'none', overflow: 'hidden' }}
+    />
+  );
+};
+
+const cellInputClass = 'w-full bg-transparent outline-none text-sm text-gray-800 dark:text-gray-200 py-2 px-2';
+
+// Table block body: typed cells, per-column settings and footer aggregates
+export const TableView: React.FC<TableViewProps> = ({ table, onChange, scale, title }) => {
+  const [menuColumn, setMenuColumn] = useState<number | null>(null); // Column whose settings are open
+  const [isAddingColumn, setIsAddingColumn] = useState(false);
+  const [optionDraft, setOptionDraft] = useState('');
+  const [isPickingTotals, setIsPickingTotals] = useState(false);
+  const [filter, setFilter] = useState<{ query: string, column: number | null } | null>(null); // null: filter bar closed
+  // Row or column being dragged, and the position it would be dropped at
+  const [dragging, setDragging] = useState<{ kind: 'row' | 'col', index: number } | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const colTypes = table.headers.map((_, i) => getColumnType(table, i));
+  // Recomputed on every edit; formulas follow their references, so order does not matter
+  const computed = useMemo(() => computeTable(table), [table]);
+  const showFooter = isPickingTotals || hasAggregates(table);
+  const visibleRows = filter ? filterRows(table, computed, filter.query, filter.column) : table.rows.map((_, i) => i);
+
+  const updateCell = (rowIndex: number, colIndex: number, value: string) => {
+      const newRows = [...table.rows];
+      newRows[rowIndex] = [...newRows[rowIndex]];
+      newRows[rowIndex][colIndex] = value;
+      onChange({ ...table, rows: newRows });
+  };
+
+  const updateHeader = (colIndex: number, value: string) => {
+      const newHeaders = [...table.headers];
+      newHeaders[colIndex] = value;
+      onChange({ ...table, headers: newHeaders });
+  };
+
+  const addRow = () => {
+      const newRow = colTypes.map(type => type === 'checkbox' ? 'false' : '');
+      onChange({ ...table, rows: [...table.rows, newRow] });
+  };
+
+  const handleAddColumn = (type: ColumnType) => {
+      onChange(addColumn(table, type));
+      setIsAddingColumn(false);
+      // Formula and select columns need setting up before they are useful
+      if (type === 'formula' || type === 'select') setMenuColumn(table.headers.length);
+  };
+
+  const toggleCheckbox = (rowIndex: number, colIndex: number) => {
+      updateCell(rowIndex, colIndex, table.rows[rowIndex][colIndex] === 'true' ? 'false' : 'true');
+  };
+
+  const isNarrow = (idx: number) => idx === 0 && colTypes[idx] === 'checkbox';
+
+  // Resized columns keep their width; the others share what is left
+  const columnClass = (idx: number) => getColumnConfig(table, idx).width
+      ? 'shrink-0'
+      : `flex-1 min-w-[50px] ${isNarrow(idx) ? 'max-w-[50px]' : ''}`;
+  const columnStyle = (idx: number): React.CSSProperties | undefined => {
+      const width = getColumnConfig(table, idx).width;
+      return width ? { width } : undefined;
+  };
+  const minTableWidth = table.headers.reduce((sum, _, i) => sum + (getColumnConfig(table, i).width || MIN_COLUMN_WIDTH), 0);
+
+  const handleColumnResizeStart = (e: React.MouseEvent | React.TouchEvent, col: number) => {
+      e.stopPropagation();
+      e.preventDefault();
+      const start = 'touches' in e ? e.touches[0] : e;
+      const startX = start.clientX;
+      const startWidth = (e.currentTarget as HTMLElement).parentElement!.getBoundingClientRect().width / scale;
+
+      const onMove = (moveEvent: MouseEvent | TouchEvent) => {
+          const point = 'touches' in moveEvent ? moveEvent.touches[0] : moveEvent;
+          const width = Math.round(Math.max(MIN_COLUMN_WIDTH, startWidth + (point.clientX - startX) / scale));
+          onChange(updateColumnConfig(table, col, { width }));
+      };
+      const onEnd = () => {
+          document.removeEventListener('mousemove', onMove);
+          document.removeEventListener('mouseup', onEnd);
+          document.removeEventListener('touchmove', onMove);
+          document.removeEventListener('touchend', onEnd);
+      };
+      document.addEventListener('mousemove', onMove);
+      document.addEventListener('mouseup', onEnd);
+      document.addEventListener('touchmove', onMove, { passive: false });
+      document.addEventListener('touchend', onEnd);
+  };
+
+  const handleDragStart = (e: React.DragEvent, kind: 'row' | 'col', index: number) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData(TABLE_DRAG_MIME, kind);
+      setDragging({ kind, index });
+      setMenuColumn(null);
+  };
+
+  const handleDragEnd = () => {
+      setDragging(null);
+      setDropIndex(null);
+  };
+
+  // The near half of a row or header cell drops before it, the far half after it
+  const handleDragOver = (e: React.DragEvent, kind: 'row' | 'col', index: number) => {
+      if (dragging?.kind !== kind) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      const rect = e.currentTarget.getBoundingClientRect();
+      const after = kind === 'row' ? e.clientY > rect.top + rect.height / 2 : e.clientX > rect.left + rect.width / 2;
+      // Rows are dropped relative to the stored order, even while a filter hides some
+      const next = kind === 'row'
+          ? (after ? visibleRows[visibleRows.indexOf(index) + 1] ?? table.rows.length : index)
+          : (after ? index + 1 : index);
+      if (next !== dropIndex) setDropIndex(next);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      if (!dragging || dropIndex === null) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onChange(dragging.kind === 'row' ? moveRow(table, dragging.index, dropIndex) : moveColumn(table, dragging.index, dropIndex));
+      handleDragEnd();
+  };
+
+  // A range copied from a spreadsheet (or CSV text) fills the cells from here on, growing the
+  // table. Plain multi-line text still pastes into a single text cell.
+  const handleCellPaste = (e: React.ClipboardEvent, row: number, col: number) => {
+      const text = e.clipboardData.getData('text/plain').replace(/(\r?\n)+$/, '');
+      const multiLine = /\r?\n/.test(text);
+      if (!text.includes('\t') && !isTabularText(text) && !(multiLine && colTypes[col] !== 'text')) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onChange(pasteCells(table, row, col, parseDelimited(text)));
+  };
+
+  const handleExport = (delimiter: Delimiter) => {
+      const extension = delimiter === '\t' ? 'tsv' : 'csv';
+      downloadFile(`${toFileSlug(title || 'table')}.${extension}`, tableToDelimited(table, delimiter), delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv');
+      setIsExporting(false);
+  };
+
+  const handleSort = (col: number, direction: SortDirection) => {
+      onChange(sortRows(table, col, direction));
+      setMenuColumn(null);
+  };
+
+  const handleDeleteColumn = (col: number) => {
+      onChange(deleteColumn(table, col));
+      setMenuColumn(null);
+      if (filter?.column === col) setFilter({ ...filter, column: null });
+  };
+
+  const renderCell = (rIdx: number, cIdx: number) => {
+      const cell = table.rows[rIdx][cIdx] ?? '';
+      switch (colTypes[cIdx]) {
+          case 'checkbox':
+              return (
+                  <button
+                      onClick={() => toggleCheckbox(rIdx, cIdx)}
+                      className={`w-4 h-4 mt-2.5 rounded-full border border-gray-400 dark:border-gray-600 flex items-center justify-center transition-all ${cell === 'true' ? 'bg-blue-500 border-blue-500' : 'hover:border-blue-400'}`}
+                  >
+                      {cell === 'true' && <svg className="w-2.5 h-2.5 text-white" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
+                  </button>
+              );
+          case 'number': {
+              const invalid = cell.trim() !== '' && parseNumber(cell) === null;
+              return (
+                  <input
+                      className={`${cellInputClass} text-right tabular-nums ${invalid ? 'text-red-500 dark:text-red-400' : ''}`}
+                      value={cell}
+                      inputMode="decimal"
+                      onChange={(e) => updateCell(rIdx, cIdx, e.target.value)}
+                      title={invalid ? 'Not a number' : undefined}
+                  />
+              );
+          }
+          case 'date':
+              return (
+                  <input
+                      type="date"
+                      className={`${cellInputClass} text-xs`}
+                      value={cell}
+                      onChange={(e) => updateCell(rIdx, cIdx, e.target.value)}
+                  />
+              );
+          case 'select': {
+              const options = getColumnConfig(table, cIdx).options || [];
+              const selected = options.find(o => o.value === cell);
+              return (
+                  <select
+                      value={selected ? cell : ''}
+                      onChange={(e) => updateCell(rIdx, cIdx, e.target.value)}
+                      className={`m-1.5 max-w-full appearance-none rounded-full px-2 py-0.5 text-xs font-medium outline-none cursor-pointer ${selected ? 'text-white' : 'text-gray-400 bg-transparent'}`}
+                      style={selected ? { backgroundColor: selected.color } : undefined}
+                  >
+                      <option value="">—</option>
+                      {options.map(o => <option key={o.value} value={o.value}>{o.value}</option>)}
+                  </select>
+              );
+          }
+          case 'url':
+              return (
+                  <div className="flex items-center w-full min-w-0">
+                      <input
+                          className={`${cellInputClass} min-w-0 ${isValidUrl(cell) ? 'text-primary-600 dark:text-primary-400 underline' : ''}`}
+                          value={cell}
+                          placeholder="https://"
+                          onChange={(e) => updateCell(rIdx, cIdx, e.target.value)}
+                      />
+                      {isValidUrl(cell) && (
+                          <a href={cell.trim()} target="_blank" rel="noopener noreferrer" className="p-1 mr-1 text-gray-400 hover:text-primary-500 shrink-0" title="Open link">
+                              <LinkIcon className="w-3 h-3" />
+                          </a>
+                      )}
+                  </div>
+              );
+          case 'formula': {
+              const text = formatCell(table, computed, rIdx, cIdx);
+              const isError = isFormulaError(computed[rIdx]?.[cIdx]);
+              return (
+                  <span
+                      className={`w-full py-2 px-2 text-sm text-right tabular-nums select-text ${isError ? 'text-red-500 dark:text-red-400 font-mono text-xs' : 'text-gray-600 dark:text-gray-300'}`}
+                      title={getColumnConfig(table, cIdx).formula ? `= ${getColumnConfig(table, cIdx).formula}` : 'Set a formula in the column menu'}
+                  >
+                      {text}
+                  </span>
+              );
+          }
+          default:
+              return (
+                  <AutoResizeTextarea
+                      className={cellInputClass}
+                      value={cell}
+                      onChange={(e) => updateCell(rIdx, cIdx, e.target.value)}
+                      placeholder=""
+                  />
+              );
+      }
+  };
+
+  const renderColumnMenu = (col: number) => {
+      const type = colTypes[col];
+      const config = getColumnConfig(table, col);
+      return (
+          <div className="absolute left-2 right-2 top-9 z-20 max-h-[70%] overflow-y-auto p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-xl text-xs space-y-2 animate-pop-in">
+              <div className="flex items-center justify-between">
+                  <span className="font-semibold text-gray-600 dark:text-gray-300">
+                      Column {columnLetter(col)} · {COLUMN_TYPE_LABELS[type]}
+                  </span>
+                  <button onClick={() => setMenuColumn(null)} className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                      <XIcon className="w-3.5 h-3.5" />
+                  </button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                  <span className="text-gray-400 w-8">Type</span>
+                  <select
+                      value={type}
+                      onChange={(e) => onChange(setColumnType(table, col, e.target.value as ColumnType))}
+                      className="flex-1 bg-gray-100 dark:bg-gray-900 rounded px-1.5 py-1 outline-none text-gray-800 dark:text-gray-100 cursor-pointer"
+                  >
+                      {COLUMN_TYPES.map(t => <option key={t} value={t}>{COLUMN_TYPE_LABELS[t]}</option>)}
+                  </select>
+              </div>
+              <div className="flex items-center gap-2">
+                  <span className="text-gray-400 w-8">Sort</span>
+                  <button onClick={() => handleSort(col, 'asc')} className="flex-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-900 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300">Ascending</button>
+                  <button onClick={() => handleSort(col, 'desc')} className="flex-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-900 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300">Descending</button>
+              </div>
+
+              {type === 'formula' && (
+                  <div className="space-y-1">
+                      <input
+                          autoFocus
+                          value={config.formula || ''}
+                          onChange={(e) => onChange(updateColumnConfig(table, col, { formula: e.target.value }))}
+                          placeholder="B * C * D"
+                          className="w-full font-mono bg-gray-100 dark:bg-gray-900 rounded px-2 py-1 outline-none text-gray-800 dark:text-gray-100"
+                      />
+                      <p className="text-[10px] text-gray-400 leading-snug">
+                          {table.headers.map((h, i) => `${columnLetter(i)} = ${h || '…'}`).join(' · ')}
+                      </p>
+                      <p className="text-[10px] text-gray-400 leading-snug">
+                          A letter is this row's cell, B2 a fixed cell, B1:B5 or B:B a range. SUM, AVG, MIN, MAX, COUNT, ROUND, ABS.
+                      </p>
+                  </div>
+              )}
+
+              {type === 'select' && (
+                  <div className="space-y-1">
+                      {(config.options || []).map(o => (
+                          <div key={o.value} className="flex items-center gap-2">
+                              <span className="px-2 py-0.5 rounded-full text-white font-medium truncate" style={{ backgroundColor: o.color }}>{o.value}</span>
+                              <button onClick={() => onChange(removeSelectOption(table, col, o.value))} className="ml-auto p-0.5 rounded text-gray-400 hover:text-red-500" title="Remove option">
+                                  <XIcon className="w-3 h-3" />
+                              </button>
+                          </div>
+                      ))}
+                      <input
+                          autoFocus
+                          value={optionDraft}
+                          onChange={(e) => setOptionDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                  onChange(addSelectOption(table, col, optionDraft));
+                                  setOptionDraft('');
+                              }
+                          }}
+                          placeholder="Add option..."
+                          className="w-full bg-gray-100 dark:bg-gray-900 rounded px-2 py-1 outline-none text-gray-800 dark:text-gray-100"
+                      />
+                  </div>
+              )}
+
+              <div className="flex items-center gap-2 pt-1 border-t border-gray-100 dark:border-gray-700">
+                  {config.width && (
+                      <button onClick={() => onChange(updateColumnConfig(table, col, { width: undefined }))} className="px-2 py-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">
+                          Auto width
+                      </button>
+                  )}
+                  <button
+                      onClick={() => handleDeleteColumn(col)}
+                      disabled={table.headers.length <= 1}
+                      className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                      <Trash className="w-3 h-3" /> Delete column
+                  </button>
+              </div>
+          </div>
+      );
+  };
+
+  return (
+      <div className="w-full h-full overflow-hidden flex flex-col block-content relative">
+          {filter && (
+              <div className="flex items-center gap-1.5 px-2 py-1 border-b border-gray-200 dark:border-gray-800 text-xs">
+                  <input
+                      autoFocus
+                      value={filter.query}
+                      onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+                      onKeyDown={(e) => { if (e.key === 'Escape') setFilter(null); }}
+                      placeholder="Filter rows..."
+                      className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-900 rounded px-2 py-1 outline-none text-gray-800 dark:text-gray-100"
+                  />
+                  <select
+                      value={filter.column ?? ''}
+                      onChange={(e) => setFilter({ ...filter, column: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="max-w-[40%] bg-gray-100 dark:bg-gray-900 rounded px-1 py-1 outline-none text-gray-600 dark:text-gray-300 cursor-pointer"
+                  >
+                      <option value="">All columns</option>
+                      {table.headers.map((h, i) => <option key={i} value={i}>{h || columnLetter(i)}</option>)}
+                  </select>
+                  <span className="text-[10px] text-gray-400 shrink-0 tabular-nums">{visibleRows.length}/{table.rows.length}</span>
+                  <button onClick={() => setFilter(null)} className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Clear filter">
+                      <XIcon className="w-3.5 h-3.5" />
+                  </button>
+              </div>
+          )}
+
+          {menuColumn !== null && menuColumn < table.headers.length && renderColumnMenu(menuColumn)}
+
+          <div className="overflow-auto flex-1 custom-scrollbar" onDrop={handleDrop}>
+            <div className="min-h-full flex flex-col" style={{ minWidth: minTableWidth }}>
+              {/* Dark Header Row */}
+              <div className="flex w-full sticky top-0 z-10 bg-gray-100 dark:bg-gray-900 border-b border-gray-300 dark:border-gray-700">
+                  {table.headers.map((header, idx) => (
+                       <div
+                          key={idx}
+                          className={`${columnClass(idx)} border-r border-gray-300 dark:border-gray-700 last:border-r-0 relative group/col flex items-center`}
+                          style={columnStyle(idx)}
+                          onDragOver={(e) => handleDragOver(e, 'col', idx)}
+                       >
+                          {dragging?.kind === 'col' && (dropIndex === idx || (dropIndex === idx + 1 && idx === table.headers.length - 1)) && (
+                              <div className={`absolute top-0 bottom-0 w-0.5 bg-primary-500 z-10 pointer-events-none ${dropIndex === idx ? '-left-px' : '-right-px'}`} />
+                          )}
+                          {!isNarrow(idx) && (
+                              <div
+                                  draggable
+                                  onDragStart={(e) => handleDragStart(e, 'col', idx)}
+                                  onDragEnd={handleDragEnd}
+                                  className="pl-0.5 text-gray-300 dark:text-gray-600 hover:text-gray-500 cursor-grab opacity-0 group-hover/col:opacity-100 transition-opacity shrink-0"
+                                  title="Drag to reorder"
+                              >
+                                  <GripVertical className="w-3 h-3" />
+                              </div>
+                          )}
+                          <input
+                              className="w-full min-w-0 bg-transparent outline-none font-bold text-[10px] tracking-wider text-gray-500 dark:text-gray-400 uppercase py-2 px-2 text-left"
+                              value={header}
+                              onChange={(e) => updateHeader(idx, e.target.value)}
+                          />
+                          <button
+                              onClick={() => { setMenuColumn(menuColumn === idx ? null : idx); setOptionDraft(''); }}
+                              className={`p-0.5 mr-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 shrink-0 transition-opacity ${menuColumn === idx ? 'opacity-100' : 'opacity-0 group-hover/col:opacity-100'}`}
+                              title={`${COLUMN_TYPE_LABELS[colTypes[idx]]} column`}
+                          >
+                              <ChevronDown className="w-3 h-3" />
+                          </button>
+                          {/* Column Resize Handle (double-click for auto width) */}
+                          <div
+                              className="absolute top-0 -right-1 h-full w-2 z-10 cursor-col-resize touch-none"
+                              onMouseDown={(e) => handleColumnResizeStart(e, idx)}
+                              onTouchStart={(e) => handleColumnResizeStart(e, idx)}
+                              onDoubleClick={() => onChange(updateColumnConfig(table, idx, { width: undefined }))}
+                          />
+                      </div>
+                  ))}
+              </div>
+
+              {/* Table Body */}
+              <div className="flex-1">
+                  {visibleRows.map(rIdx => (
+                      <div
+                          key={rIdx}
+                          className={`relative flex w-full border-b border-gray-200 dark:border-gray-800/50 last:border-0 hover:bg-gray-50/50 dark:hover:bg-gray-800/30 transition-colors group/row ${dragging?.kind === 'row' && dragging.index === rIdx ? 'opacity-40' : ''}`}
+                          onDragOver={(e) => handleDragOver(e, 'row', rIdx)}
+                      >
+                          {dragging?.kind === 'row' && (dropIndex === rIdx || (dropIndex === table.rows.length && rIdx === visibleRows[visibleRows.length - 1])) && (
+                              <div className={`absolute left-0 right-0 h-0.5 bg-primary-500 z-10 pointer-events-none ${dropIndex === rIdx ? '-top-px' : '-bottom-px'}`} />
+                          )}
+                          <div
+                              draggable
+                              onDragStart={(e) => handleDragStart(e, 'row', rIdx)}
+                              onDragEnd={handleDragEnd}
+                              className="absolute left-0 top-2 z-10 text-gray-300 dark:text-gray-600 hover:text-gray-500 cursor-grab opacity-0 group-hover/row:opacity-100 transition-opacity"
+                              title="Drag to reorder"
+                          >
+                              <GripVertical className="w-3 h-3" />
+                          </div>
+                          {table.headers.map((_, cIdx) => (
+                              <div
+                                  key={cIdx}
+                                  className={`${columnClass(cIdx)} min-w-0 border-r border-gray-200 dark:border-gray-800/50 last:border-r-0 flex items-start ${colTypes[cIdx] === 'checkbox' ? 'justify-center' : ''}`}
+                                  style={columnStyle(cIdx)}
+                                  onPaste={(e) => handleCellPaste(e, rIdx, cIdx)}
+                              >
+                                  {renderCell(rIdx, cIdx)}
+                              </div>
+                          ))}
+                          <button
+                              onClick={() => onChange(deleteRow(table, rIdx))}
+                              className="absolute right-1 top-2 z-10 p-0.5 rounded bg-white dark:bg-gray-800 text-gray-400 hover:text-red-500 opacity-0 group-hover/row:opacity-100 transition-opacity"
+                              title="Delete row"
+                          >
+                              <XIcon className="w-3 h-3" />
+                          </button>
+                      </div>
+                  ))}
+                  {filter && visibleRows.length === 0 && (
+                      <p className="text-xs text-gray-400 px-2 py-3">No rows match.</p>
+                  )}
+              </div>
+
+              {/* Aggregates: each column picks its own total, over all rows */}
+              {showFooter && (
+                  <div className="flex w-full sticky bottom-0 border-t border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 group/footer">
+                      {table.headers.map((_, idx) => {
+                          const aggregate = getColumnConfig(table, idx).aggregate || 'none';
+                          const value = computeAggregate(table, computed, idx);
+                          return (
+                              <div key={idx} className={`${columnClass(idx)} min-w-0 border-r border-gray-300 dark:border-gray-700 last:border-r-0 flex items-center justify-end gap-1 px-2 py-1`} style={columnStyle(idx)}>
+                                  <select
+                                      value={aggregate}
+                                      onChange={(e) => onChange(updateColumnConfig(table, idx, { aggregate: e.target.value as ColumnAggregate }))}
+                                      className={`appearance-none bg-transparent outline-none cursor-pointer text-[10px] uppercase tracking-wider text-gray-400 ${aggregate === 'none' ? 'opacity-0 group-hover/footer:opacity-100' : ''}`}
+                                      title="Column total"
+                                  >
+                                      {getAggregatesFor(colTypes[idx]).map(a => (
+                                          <option key={a} value={a}>{a === 'none' ? '—' : AGGREGATE_LABELS[a]}</option>
+                                      ))}
+                                  </select>
+                                  {value !== null && (
+                                      <span className={`text-xs font-semibold tabular-nums truncate ${isFormulaError(value) ? 'text-red-500' : 'text-gray-700 dark:text-gray-200'}`}>{value}</span>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
+            </div>
+          </div>
+
+          {/* Footer Actions */}
+           <div className="flex gap-2 p-2 border-t border-gray-200 dark:border-gray-800 relative">
+              <button onClick={addRow} className="text-[10px] px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                  <Plus className="w-3 h-3"/> Row
+              </button>
+              {!filter && (
+                  <button onClick={() => setFilter({ query: '', column: null })} className="text-[10px] px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-1 text-gray-600 dark:text-gray-300" title="Filter rows">
+                      Filter
+                  </button>
+              )}
+              {!hasAggregates(table) && (
+                  <button onClick={() => setIsPickingTotals(!isPickingTotals)} className={`text-[10px] px-2 py-1 rounded flex items-center gap-1 text-gray-600 dark:text-gray-300 ${isPickingTotals ? 'bg-gray-300 dark:bg-gray-600' : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'}`} title="Show column totals">
+                      Σ Totals
+                  </button>
+              )}
+              {isAddingColumn ? (
+                  <div className="flex flex-wrap gap-1">
+                      {COLUMN_TYPES.map(type => (
+                          <button key={type} onClick={() => handleAddColumn(type)} className="text-[10px] px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300">
+                              {COLUMN_TYPE_LABELS[type]}
+                          </button>
+                      ))}
+                      <button onClick={() => setIsAddingColumn(false)} className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                          <XIcon className="w-3 h-3" />
+                      </button>
+                  </div>
+              ) : (
+                  <button onClick={() => setIsAddingColumn(true)} className="text-[10px] px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                       <Plus className="w-3 h-3"/> Col
+                  </button>
+              )}
+              <div className="ml-auto flex gap-1">
+                  {isExporting && (['\t', ','] as Delimiter[]).map(d => (
+                      <button key={d} onClick={() => handleExport(d)} className="text-[10px] px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {d === ',' ? 'CSV' : 'TSV'}
+                      </button>
+                  ))}
+                  <button onClick={() => setIsExporting(!isExporting)} className={`p-1 rounded text-gray-500 dark:text-gray-400 ${isExporting ? 'bg-gray-300 dark:bg-gray-600' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`} title="Download as CSV or TSV">
+                      <Download className="w-3 h-3" />
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Type, CheckSquare, Image, Code, Plus, Undo, Sparkles, TableIcon, Send } from './Icons';
+import { Type, CheckSquare, Image, Code, MarkdownIcon, Plus, Undo, Redo, Sparkles, TableIcon, Send, Workflow, Frame } from './Icons';
+import { LAYOUT_MODES, LayoutMode } from '../services/layoutService';
 
 export type ThemeId = 'lumina-light' | 'lumina-dark' | 'crimson' | 'slate' | 'contrast';
 
@@ -7,7 +8,10 @@ interface ToolbarProps {
   onAddBlock: (type: any) => void;
   onUndo: () => void;
   canUndo: boolean;
+  onRedo: () => void;
+  canRedo: boolean;
   onAiSubmit: (prompt: string) => void;
+  onAutoLayout: (mode: LayoutMode) => void;
   aiMode: boolean;
   setAiMode: (mode: boolean) => void;
   isLoading: boolean;
@@ -17,12 +21,16 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onAddBlock,
   onUndo,
   canUndo,
+  onRedo,
+  canRedo,
   onAiSubmit,
+  onAutoLayout,
   aiMode,
   setAiMode,
   isLoading
 }) => {
   const [prompt, setPrompt] = useState('');
+  const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -55,6 +63,13 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             >
                 <Type className="w-5 h-5" />
             </button>
+            <button
+                onClick={() => onAddBlock('markdown')}
+                className="p-2 md:p-2.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 transition-all hover:scale-105 active:scale-95 shrink-0"
+                title="Add Markdown"
+            >
+                <MarkdownIcon className="w-5 h-5" />
+            </button>
             <button
                 onClick={() => onAddBlock('checklist')}
                 className="p-2 md:p-2.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 transition-all hover:scale-105 active:scale-95 shrink-0"
@@ -83,20 +98,58 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             >
                 <Code className="w-5 h-5" />
             </button>
+            <button
+                onClick={() => onAddBlock('frame')}
+                className="p-2 md:p-2.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 transition-all hover:scale-105 active:scale-95 shrink-0"
+                title="Add Frame"
+            >
+                <Frame className="w-5 h-5" />
+            </button>
           </div>
 
           <div className="w-px h-6 bg-gray-200 dark:bg-gray-700 mx-1 shrink-0"></div>
 
-          {/* Static Actions Section (Undo, AI) */}
+          {/* Static Actions Section (Layout, Undo, Redo, AI) */}
           <div className="flex items-center gap-1 md:gap-2 shrink-0">
+            <div className="relative">
+                <button
+                    onClick={() => setIsLayoutMenuOpen(!isLayoutMenuOpen)}
+                    className={`p-2 md:p-2.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-all hover:scale-105 active:scale-95 shrink-0 ${isLayoutMenuOpen ? 'text-primary-500' : 'text-gray-600 dark:text-gray-300'}`}
+                    title="Tidy Up (applies to the selection, or the whole page)"
+                >
+                    <Workflow className="w-5 h-5" />
+                </button>
+                {isLayoutMenuOpen && (
+                    <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-44 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl p-1 animate-pop-in">
+                        {LAYOUT_MODES.map(({ mode, label }) => (
+                            <button
+                                key={mode}
+                                onClick={() => { onAutoLayout(mode); setIsLayoutMenuOpen(false); }}
+                                className="w-full text-left px-3 py-2 text-sm rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             <button
                 onClick={onUndo}
                 disabled={!canUndo}
                 className={`p-2 md:p-2.5 rounded-xl transition-all shrink-0 ${canUndo ? 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 hover:scale-105' : 'text-gray-300 dark:text-gray-600 cursor-not-allowed'}`}
-                title="Undo"
+                title="Undo (Ctrl+Z)"
             >
                 <Undo className="w-5 h-5" />
             </button>
+            <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className={`p-2 md:p-2.5 rounded-xl transition-all shrink-0 ${canRedo ? 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 hover:scale-105' : 'text-gray-300 dark:text-gray-600 cursor-not-allowed'}`}
+                title="Redo (Ctrl+Shift+Z)"
+            >
+                <Redo className="w-5 h-5" />
+            </button>
 
             <div className="w-px h-6 bg-gray-200 dark:bg-gray-700 mx-1 shrink-0"></div>
 
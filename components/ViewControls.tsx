@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Page, Viewpoint } from '../types';
+import { Maximize, Crosshair, Bookmark, Plus, XIcon } from './Icons';
+
+interface ViewControlsProps {
+  scale: number;
+  hasSelection: boolean;
+  viewpoints: Viewpoint[];
+  pages: Page[];
+  activePageId: string;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+  onResetZoom: () => void;
+  onAddViewpoint: (name: string) => void;
+  onGoToViewpoint: (id: string) => void;
+  onDeleteViewpoint: (id: string) => void;
+}
+
+const buttonClass = "p-1.5 rounded-md text-gray-500 hover:text-primary-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+export const ViewControls: React.FC<ViewControlsProps> = ({
+  scale,
+  hasSelection,
+  viewpoints,
+  pages,
+  activePageId,
+  onZoomToFit,
+  onZoomToSelection,
+  onResetZoom,
+  onAddViewpoint,
+  onGoToViewpoint,
+  onDeleteViewpoint
+}) => {
+  const [isListOpen, setIsListOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const saveViewpoint = () => {
+      onAddViewpoint(newName.trim() || `View ${viewpoints.length + 1}`);
+      setNewName('');
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2">
+        {isListOpen && (
+            <div className="w-60 bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl p-2 animate-pop-in">
+                <div className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider px-1 mb-1">Viewpoints</div>
+                <div className="max-h-48 overflow-y-auto space-y-0.5">
+                    {viewpoints.length === 0 && (
+                        <p className="text-xs text-gray-400 px-1 py-2">No saved viewpoints yet</p>
+                    )}
+                    {viewpoints.map(v => {
+                        const page = v.pageId !== activePageId ? pages.find(p => p.id === v.pageId) : undefined;
+                        return (
+                            <div key={v.id} className="group flex items-center gap-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+                                <button
+                                  onClick={() => onGoToViewpoint(v.id)}
+                                  className="flex-1 min-w-0 text-left px-2 py-1.5 text-sm text-gray-700 dark:text-gray-200"
+                                >
+                                    <span className="truncate block">{v.name}</span>
+                                    {page && <span className="text-[10px] text-gray-400 truncate block">{page.name}</span>}
+                                </button>
+                                <button
+                                  onClick={() => onDeleteViewpoint(v.id)}
+                                  className="p-1 mr-1 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  title="Delete viewpoint"
+                                >
+                                    <XIcon className="w-3 h-3" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex items-center gap-1 mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') saveViewpoint(); }}
+                      placeholder="Name this view"
+                      className="flex-1 min-w-0 bg-transparent text-sm px-2 py-1 outline-none text-gray-700 dark:text-gray-200 placeholder-gray-400"
+                    />
+                    <button onClick={saveViewpoint} className={buttonClass} title="Save current view">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        )}
+
+        <div className="flex items-center gap-0.5 bg-white/80 dark:bg-gray-800/80 backdrop-blur p-0.5 rounded-full border border-gray-200 dark:border-gray-700">
+            <button onClick={onZoomToFit} className={buttonClass} title="Zoom to fit (Shift+1)">
+                <Maximize className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={onZoomToSelection} disabled={!hasSelection} className={buttonClass} title="Zoom to selection (Shift+2)">
+                <Crosshair className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onResetZoom}
+              className="px-2 py-1 rounded-md text-xs font-mono text-gray-500 hover:text-primary-500 transition-colors min-w-[3.5rem]"
+              title="Reset zoom (Ctrl+0)"
+            >
+                {Math.round(scale * 100)}%
+            </button>
+            <button
+              onClick={() => setIsListOpen(!isListOpen)}
+              className={`${buttonClass} ${isListOpen ? 'text-primary-500' : ''}`}
+              title="Viewpoints"
+            >
+                <Bookmark className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    </div>
+  );
+};
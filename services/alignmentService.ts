@@ -0,0 +1,139 @@
+import { BlockData, Point, Rect } from "../types";
+
+// Snapping and alignment for blocks: grid snapping, smart guides against neighbouring
+// blocks while dragging or resizing, and the align/distribute commands for a selection.
+
+export const GRID_SIZES = [10, 20, 40, 80];
+export const DEFAULT_GRID_SIZE = 20;
+// Screen pixels within which an edge or centre line snaps to a neighbour
+export const SNAP_THRESHOLD = 6;
+
+export interface AlignmentGuide {
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+    start: number;
+    end: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Which sides of a rect follow the pointer during a resize
+export interface ResizeEdges {
+    left: boolean;
+    right: boolean;
+    top: boolean;
+    bottom: boolean;
+}
+
+export const snapToGrid = (value: number, size: number) => Math.round(value / size) * size;
+
+// Moves only the dragged sides of a rect onto grid lines
+export const snapRectEdgesToGrid = (rect: Rect, edges: ResizeEdges, size: number): Rect => {
+    let { x, y, w, h } = rect;
+    if (edges.left) { const snapped = snapToGrid(x, size); w += x - snapped; x = snapped; }
+    if (edges.right) w = snapToGrid(x + w, size) - x;
+    if (edges.top) { const snapped = snapToGrid(y, size); h += y - snapped; y = snapped; }
+    if (edges.bottom) h = snapToGrid(y + h, size) - y;
+    return { x, y, w, h };
+};
+
+const xLines =(r: Rect) => [r.x, r.x + r.w / 2, r.x + r.w];
+const yLines = (r: Rect) => [r.y, r.y + r.h / 2, r.y + r.h];
+
+// Smallest offset that brings one of `lines` onto one of `targets`, or null if none is in range
+const closestOffset = (lines: number[], targets: number[], threshold: number): number | null => {
+    let best: number | null = null;
+    lines.forEach(line => targets.forEach(target => {
+        const offset = target - line;
+        if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) best = offset;
+    }));
+    return best;
+};
+
+// Offset to apply to a dragged rect so its edges or centre line up with a neighbour
+export const getMoveSnap = (rect: Rect, others: Rect[], threshold: number): Point => ({
+    x: closestOffset(xLines(rect), others.flatMap(xLines), threshold) ?? 0,
+    y: closestOffset(yLines(rect), others.flatMap(yLines), threshold) ?? 0
+});
+
+// Adjusts only the sides being dragged so they line up with a neighbour; the opposite sides stay put
+export const getResizeSnap = (rect: Rect, edges: ResizeEdges, others: Rect[], threshold: number): Rect => {
+    const xTargets = others.flatMap(xLines);
+    const yTargets = others.flatMap(yLines);
+    const next = { ...rect };
+
+    if (edges.left || edges.right) {
+        const offset = closestOffset([edges.left ? rect.x : rect.x + rect.w], xTargets, threshold);
+        if (offset !== null) {
+            if (edges.left) { next.x += offset; next.w -= offset; }
+            else next.w += offset;
+        }
+    }
+    if (edges.top || edges.bottom) {
+        const offset = closestOffset([edges.top ? rect.y : rect.y + rect.h], yTargets, threshold);
+        if (offset !== null) {
+            if (edges.top) { next.y += offset; next.h -= offset; }
+            else next.h += offset;
+        }
+    }
+    return next;
+};
+
+// Guide lines for every edge or centre of `rect` that coincides with a neighbour, spanning both
+export const getAlignmentGuides = (rect: Rect, others: Rect[]): AlignmentGuide[] => {
+    const guides: AlignmentGuide[] = [];
+    const collect = (orientation: AlignmentGuide['orientation'], lines: (r: Rect) => number[]) => {
+        lines(rect).forEach(position => {
+            const matches = others.filter(other => lines(other).some(line => Math.abs(line - position) < 0.5));
+            if (matches.length === 0) return;
+            const spans = [rect, ...matches].flatMap(r => orientation === 'vertical' ? [r.y, r.y + r.h] : [r.x, r.x + r.w]);
+            guides.push({ orientation, position, start: Math.min(...spans), end: Math.max(...spans) });
+        });
+    };
+    collect('vertical', xLines);
+    collect('horizontal', yLines);
+    return guides;
+};
+
+// -- Align & Distribute --
+
+// New positions that line the blocks up against the selection bounds
+export const alignBlocks = (blocks: BlockData[], mode: AlignMode): Map<string, Point> => {
+    const left = Math.min(...blocks.map(b => b.x));
+    const right = Math.max(...blocks.map(b => b.x + b.w));
+    const top = Math.min(...blocks.map(b => b.y));
+    const bottom = Math.max(...blocks.map(b => b.y + b.h));
+
+    return new Map(blocks.map(b => {
+        switch (mode) {
+            case 'left': return [b.id, { x: left, y: b.y }];
+            case 'center': return [b.id, { x: (left + right) / 2 - b.w / 2, y: b.y }];
+            case 'right': return [b.id, { x: right - b.w, y: b.y }];
+            case 'top': return [b.id, { x: b.x, y: top }];
+            case 'middle': return [b.id, { x: b.x, y: (top + bottom) / 2 - b.h / 2 }];
+            case 'bottom': return [b.id, { x: b.x, y: bottom - b.h }];
+        }
+    }));
+};
+
+// Equal gaps between consecutive blocks along an axis. The outermost blocks keep their positions.
+export const distributeBlocks = (blocks: BlockData[], axis: DistributeAxis): Map<string, Point> => {
+    const horizontal = axis === 'horizontal';
+    const start = (b: BlockData) => horizontal ? b.x : b.y;
+    const size = (b: BlockData) => horizontal ? b.w : b.h;
+
+    const sorted = [...blocks].sort((a, b) => start(a) - start(b));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const span = start(last) + size(last) - start(first);
+    const gap = (span - sorted.reduce((sum, b) => sum + size(b), 0)) / Math.max(1, sorted.length - 1);
+
+    const positions = new Map<string, Point>();
+    let cursor = start(first);
+    sorted.forEach(b => {
+        positions.set(b.id, horizontal ? { x: cursor, y: b.y } : { x: b.x, y: cursor });
+        cursor += size(b) + gap;
+    });
+    return positions;
+};
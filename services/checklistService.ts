@@ -0,0 +1,125 @@
+import { BlockData, ChecklistItem } from "../types";
+
+// Checklists stay a flat list; nesting is an indent level per item, outliner style. An item's
+// sub-items are the items directly below it with a deeper level, and they travel with it.
+
+export const MAX_CHECKLIST_LEVEL = 4;
+export const INDENT_WIDTH = 20;
+// Drag-and-drop payload type for moving items between checklist blocks
+export const CHECKLIST_ITEM_MIME = 'application/x-nukenote-checklist-item';
+
+export const getItemLevel = (item: ChecklistItem) => item.level || 0;
+
+const withLevel = (item: ChecklistItem, level: number): ChecklistItem => {
+    const { level: _, ...rest } = item;
+    return level > 0 ? { ...rest, level } : rest;
+};
+
+// Index just past the last sub-item of the item at `index`
+export const getSubtreeEnd = (items: ChecklistItem[], index: number): number => {
+    const level = getItemLevel(items[index]);
+    let end = index + 1;
+    while (end < items.length && getItemLevel(items[end]) > level) end++;
+    return end;
+};
+
+// Each item is at most one level deeper than the one above it
+export const normalizeLevels = (items: ChecklistItem[]): ChecklistItem[] => {
+    let previous = -1;
+    return items.map(item => {
+        const level = Math.min(getItemLevel(item), previous + 1, MAX_CHECKLIST_LEVEL);
+        previous = level;
+        return level === getItemLevel(item) ? item : withLevel(item, level);
+    });
+};
+
+// A parent is checked exactly when all of its sub-items are. Walking bottom-up settles the
+// deepest parents first, so completion ripples all the way to the top.
+export const syncParentChecks = (items: ChecklistItem[]): ChecklistItem[] => {
+    const next = [...items];
+    for (let i = next.length - 1; i >= 0; i--) {
+        const level = getItemLevel(next[i]);
+        const end = getSubtreeEnd(next, i);
+        if (end === i + 1) continue;
+        const children = next.slice(i + 1, end).filter(child => getItemLevel(child) === level + 1);
+        const checked = children.every(child => child.checked);
+        if (checked !== next[i].checked) next[i] = { ...next[i], checked };
+    }
+    return next;
+};
+
+// Ticking an item ticks its sub-items too
+export const toggleChecklistItem = (items: ChecklistItem[], itemId: string): ChecklistItem[] => {
+    const index = items.findIndex(item => item.id === itemId);
+    if (index < 0) return items;
+    const checked = !items[index].checked;
+    const end = getSubtreeEnd(items, index);
+    return syncParentChecks(items.map((item, i) => i >= index && i < end ? { ...item, checked } : item));
+};
+
+// Indenting makes the item a sub-item of the one above; its own sub-items shift along
+export const indentChecklistItem = (items: ChecklistItem[], itemId: string, delta: 1 | -1): ChecklistItem[] => {
+    const index = items.findIndex(item => item.id === itemId);
+    if (index < 0) return items;
+    const level = getItemLevel(items[index]);
+    const maxLevel = index > 0 ? Math.min(getItemLevel(items[index - 1]) + 1, MAX_CHECKLIST_LEVEL) : 0;
+    const target = Math.max(0, Math.min(maxLevel, level + delta));
+    if (target === level) return items;
+    const end = getSubtreeEnd(items, index);
+    const shift = target - level;
+    return syncParentChecks(normalizeLevels(items.map((item, i) =>
+        i >= index && i < end ? withLevel(item, Math.max(0, getItemLevel(item) + shift)) : item)));
+};
+
+export const removeChecklistItem = (items: ChecklistItem[], itemId: string): ChecklistItem[] =>
+    syncParentChecks(normalizeLevels(items.filter(item => item.id !== itemId)));
+
+// Moves an item and its sub-items to `index` (a position in the target list as it is before the
+// move) at the given level, within one checklist block or from one to another.
+export const moveChecklistItem = (
+    blocks: BlockData[],
+    from: { blockId: string, itemId: string },
+    to: { blockId: string, index: number, level: number }
+): BlockData[] => {
+    const source = blocks.find(b => b.id === from.blockId);
+    const target = blocks.find(b => b.id === to.blockId);
+    if (!source || !target || source.type !== 'checklist' || target.type !== 'checklist') return blocks;
+
+    const sourceItems = source.content as ChecklistItem[];
+    const start = sourceItems.findIndex(item => item.id === from.itemId);
+    if (start < 0) return blocks;
+    const end = getSubtreeEnd(sourceItems, start);
+    const sameBlock = source.id === target.id;
+    // Dropping an item into its own subtree is a no-op
+    if (sameBlock && to.index > start && to.index < end) return blocks;
+
+    const moved = sourceItems.slice(start, end);
+    const remaining = [...sourceItems.slice(0, start), ...sourceItems.slice(end)];
+    const targetItems = sameBlock ? remaining : target.content as ChecklistItem[];
+    const index = sameBlock && to.index >= end ? to.index - moved.length : Math.min(to.index, targetItems.length);
+
+    const maxLevel = index > 0 ? Math.min(getItemLevel(targetItems[index - 1]) + 1, MAX_CHECKLIST_LEVEL) : 0;
+    const shift = Math.max(0, Math.min(maxLevel, to.level)) - getItemLevel(moved[0]);
+    const rebased = moved.map(item => withLevel(item, Math.max(0, getItemLevel(item) + shift)));
+    const inserted = syncParentChecks(normalizeLevels([...targetItems.slice(0, index), ...rebased, ...targetItems.slice(index)]));
+
+    return blocks.map(b => {
+        if (b.id === target.id) return { ...b, content: inserted };
+        if (b.id === source.id) return { ...b, content: syncParentChecks(normalizeLevels(remaining)) };
+        return b;
+    });
+};
+
+export const getChecklistProgress = (items: ChecklistItem[]) => ({
+    done: items.filter(item => item.checked).length,
+    total: items.length
+});
+
+// Local calendar date as YYYY-MM-DD, the format of <input type="date"> and of dueDate
+export const todayString = (now = new Date()) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const isOverdue = (item: ChecklistItem, today = todayString()) =>
+    !item.checked && !!item.dueDate && item.dueDate < today;
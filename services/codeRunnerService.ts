@@ -0,0 +1,223 @@
+import { BlockData, ChecklistItem, CodeLanguage, CodeRunOutput, Edge, TableContent } from "../types";
+import { compareSpatially } from './graphService';
+import { getDependencyLinks } from './dependencyService';
+import { getItemLevel } from './checklistService';
+import { computeTable, getColumnType, parseNumber } from './tableService';
+import { htmlToMarkdown } from './markdownService';
+import { stripTypes } from './typeStripService';
+import { isLogLevel } from './schemaService';
+
+// Runs JavaScript / TypeScript code blocks in a throwaway Web Worker started from a sandboxed
+// iframe. The frame has an opaque origin, so the code cannot reach the app's IndexedDB,
+// localStorage or same-origin requests, and removing the frame when the run ends or times out
+// also ends the worker. Blocks connected upstream are
+// passed in as `inputs` (their data, in reading order), `input` (the first one) and
+// `inputsByTitle`. The result is the value of the last statement, as in a browser console, or
+// whatever a top-level `return` gives back (needed once the code uses top-level `await`).
+
+export const RUNNABLE_LANGUAGES: CodeLanguage[] = ['javascript', 'typescript'];
+export const RUN_TIMEOUT_MS = 5000;
+const MAX_LOG_LINES = 200;
+const MAX_TEXT_LENGTH = 10000; // Per log line and for the result
+
+export interface RunInput {
+    title: string;
+    data: unknown;
+}
+
+export interface CodeRun {
+    output: Promise<CodeRunOutput>;
+    stop: () => void;
+}
+
+export const isRunnable = (language: CodeLanguage) => RUNNABLE_LANGUAGES.includes(language);
+
+// -- Inputs --
+
+// Table rows become objects keyed by header: numbers and checkboxes typed, formulas computed
+const tableRecords = (table: TableContent): Record<string, unknown>[] => {
+    const computed = computeTable(table);
+    return table.rows.map((row, r) => Object.fromEntries(table.headers.map((header, c) => {
+        const raw = row[c] ?? '';
+        switch (getColumnType(table, c)) {
+            case 'checkbox': return [header, raw === 'true'];
+            case 'number': return [header, parseNumber(raw)];
+            case 'formula': return [header, computed[r][c]];
+            default: return [header, raw];
+        }
+    })));
+};
+
+// What a block hands to code downstream of it. Code blocks pass on the result of their last run.
+export const getBlockData = (block: BlockData): unknown => {
+    switch (block.type) {
+        case 'text':
+            return htmlToMarkdown(block.content as string);
+        case 'checklist':
+            return (block.content as ChecklistItem[]).map(item => ({
+                text: item.text, checked: item.checked, level: getItemLevel(item), dueDate: item.dueDate ?? null
+            }));
+        case 'table':
+            return tableRecords(block.content as TableContent);
+        case 'code': {
+            const result = block.runOutput?.result;
+            if (result === undefined) return undefined;
+            try {
+                return JSON.parse(result);
+            } catch {
+                return result;
+            }
+        }
+        default:
+            return block.content;
+    }
+};
+
+// Blocks with an edge into this one (a 'depends-on' edge counts the other way round, as it does
+// for tasks); frames and 'references' edges are left out
+export const getRunInputBlocks = (block: BlockData, blocks: BlockData[], edges: Edge[]): BlockData[] => {
+    const upstream = new Set(getDependencyLinks(edges).filter(([, to]) => to === block.id).map(([from]) => from));
+    return blocks.filter(b => upstream.has(b.id) && b.type !== 'frame').sort(compareSpatially);
+};
+
+export const getRunInputs = (block: BlockData, blocks: BlockData[], edges: Edge[]): RunInput[] =>
+    getRunInputBlocks(block, blocks, edges).map(b => ({ title: b.title || b.type, data: getBlockData(b) }));
+
+// -- Worker --
+
+// workerMain and frameMain run inside the sandbox, so they are serialized with toString()
+// and must not use anything from outside their own bodies
+const workerMain = () => {
+    const scope = self as any;
+
+    const format = (value: unknown, quoteStrings: boolean): string => {
+        if (typeof value === 'string') return quoteStrings ? JSON.stringify(value) : value;
+        if (value === undefined) return 'undefined';
+        if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+        if (typeof value === 'bigint') return `${value}n`;
+        if (typeof value === 'symbol') return value.toString();
+        if (value instanceof Error) return `${value.name}: ${value.message}`;
+        if (value instanceof Map) return format(Object.fromEntries(value), quoteStrings);
+        if (value instanceof Set) return format(Array.from(value), quoteStrings);
+        const seen = new WeakSet();
+        try {
+            return JSON.stringify(value, (_, v) => {
+                if (typeof v === 'bigint') return `${v}n`;
+                if (typeof v === 'object' && v !== null) {
+                    if (seen.has(v)) return '[Circular]';
+                    seen.add(v);
+                }
+                return v;
+            }, 2) ?? String(value);
+        } catch {
+            return String(value);
+        }
+    };
+
+    const levels: Record<string, string> = { log: 'log', info: 'info', warn: 'warn', error: 'error', debug: 'log', table: 'log' };
+    Object.keys(levels).forEach(method => {
+        (console as any)[method] = (...args: unknown[]) =>
+            scope.postMessage({ type: 'log', level: levels[method], text: args.map(a => format(a, false)).join(' ') });
+    });
+
+    scope.onmessage = async (e: MessageEvent) => {
+        const { code, inputs } = e.data as { code: string, inputs: { title: string, data: unknown }[] };
+        scope.inputs = inputs.map(i => i.data);
+        scope.input = scope.inputs[0];
+        scope.inputsByTitle = Object.fromEntries(inputs.map(i => [i.title, i.data]));
+        try {
+            // A script is parsed in full before any of it runs, so the leading throw checks the
+            // syntax without side effects. Code that only parses as a function body (top-level
+            // return or await) runs as an async function instead.
+            const parseCheck = {};
+            scope.__parseCheck = parseCheck;
+            let isScript = true;
+            try {
+                (0, eval)(`throw __parseCheck;\n${code}`);
+            } catch (err) {
+                isScript = err === parseCheck;
+            }
+            delete scope.__parseCheck;
+
+            let value: unknown;
+            if (isScript) {
+                value = (0, eval)(code);
+            } else {
+                const AsyncFunction = Object.getPrototypeOf(async () => undefined).constructor;
+                value = new AsyncFunction(code)();
+            }
+            value = await value;
+            scope.postMessage({ type: 'done', result: value === undefined ? undefined : format(value, true) });
+        } catch (err) {
+            scope.postMessage({ type: 'error', error: format(err, false) });
+        }
+    };
+};
+
+// Starts the worker inside the frame and relays messages between it and the app
+const frameMain = (workerSource: string) => {
+    const url = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = (e: MessageEvent) => parent.postMessage(e.data, '*');
+    // Errors the worker could not report itself, such as a script that failed to load
+    worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        parent.postMessage({ type: 'error', error: e.message || 'The code could not be run' }, '*');
+    };
+    window.onmessage = (e: MessageEvent) => {
+        if (e.source === parent) worker.postMessage(e.data);
+    };
+};
+
+// '<' is escaped so nothing in the serialized code can close the <script> early
+const FRAME_HTML = `<script>(${frameMain.toString()})(${JSON.stringify(`(${workerMain.toString()})()`).replace(/</g, '\\u003c')})</script>`;
+
+const truncate = (text: string) => text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+export const runCode = (code: string, language: CodeLanguage, inputs: RunInput[], timeoutMs = RUN_TIMEOUT_MS): CodeRun => {
+    let stop = () => {};
+    const output = new Promise<CodeRunOutput>(resolve => {
+        const started = performance.now();
+        const logs: CodeRunOutput['logs'] = [];
+        // No allow-same-origin: the frame, and the worker it starts, get an opaque origin
+        const frame = document.createElement('iframe');
+        frame.sandbox.add('allow-scripts');
+        frame.style.display = 'none';
+        frame.srcdoc = FRAME_HTML;
+        let finished = false;
+
+        const finish = (outcome: Pick<CodeRunOutput, 'result' | 'error'>) => {
+            if (finished) return;
+            finished = true;
+            clearTimeout(timer);
+            window.removeEventListener('message', handleMessage);
+            frame.remove();
+            resolve({ logs, ...outcome, durationMs: Math.round(performance.now() - started), ranAt: Date.now() });
+        };
+        const timer = setTimeout(() => finish({ error: `Timed out after ${timeoutMs / 1000}s` }), timeoutMs);
+        stop = () => finish({ error: 'Stopped' });
+
+        const handleMessage = (e: MessageEvent) => {
+            // The snippet can post to the relay too, so every field is checked before it is kept:
+            // anything but a string would break the output pane
+            const message: unknown = e.data;
+            if (e.source !== frame.contentWindow || typeof message !== 'object' || message === null) return;
+            const { type, level, text, result, error } = message as Record<string, unknown>;
+            if (type === 'log') {
+                if (typeof text !== 'string') return;
+                if (logs.length < MAX_LOG_LINES) logs.push({ level: isLogLevel(level) ? level : 'log', text: truncate(text) });
+                else if (logs.length === MAX_LOG_LINES) logs.push({ level: 'warn', text: `Output stopped after ${MAX_LOG_LINES} lines` });
+            } else if (type === 'done') {
+                finish({ result: typeof result === 'string' ? truncate(result) : undefined });
+            } else if (type === 'error') {
+                finish({ error: typeof error === 'string' ? truncate(error) : 'The code failed' });
+            }
+        };
+        window.addEventListener('message', handleMessage);
+
+        // The frame's origin is opaque, so '*' is the only target origin that reaches it
+        frame.onload = () => frame.contentWindow?.postMessage({ code: language === 'typescript' ? stripTypes(code) : code, inputs }, '*');
+        document.body.appendChild(frame);
+    });
+    return { output, stop };
+};
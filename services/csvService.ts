@@ -0,0 +1,95 @@
+import { TableContent } from "../types";
+import { computeTable, formatCell, getColumnType, inferColumnType } from './tableService';
+
+// Delimited text (CSV / TSV) in and out of tables. Fields follow RFC 4180: a field holding the
+// delimiter, a quote or a line break is wrapped in quotes, with quotes doubled inside.
+
+export type Delimiter = ',' | '\t' | ';';
+
+// Spreadsheets copy ranges as TSV; otherwise whichever of comma and semicolon splits the
+// first line into more fields
+export const detectDelimiter = (text: string): Delimiter => {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    if (firstLine.includes('\t')) return '\t';
+    return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    // The last line has no line break after it (or the text ended with one)
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Ragged rows are padded so every row has the same number of cells
+    const width = Math.max(0, ...rows.map(r => r.length));
+    return rows.map(r => r.length < width ? [...r, ...new Array(width - r.length).fill('')] : r);
+};
+
+// Whether pasted text looks like a range of cells rather than prose. Tabs always count;
+// comma or semicolon separated text needs several lines that split the same way.
+export const isTabularText = (text: string): boolean => {
+    const trimmed = text.replace(/(\r?\n)+$/, '');
+    const delimiter = detectDelimiter(trimmed);
+    if (delimiter === '\t') return true;
+    const lines = trimmed.split(/\r?\n/);
+    if (lines.length < 2) return false;
+    const counts = parseDelimited(trimmed, delimiter).map(r => r.filter(Boolean).length);
+    return counts[0] >= 2 && counts.every(n => n <= counts[0]) && counts.filter(n => n > 1).length >= 2;
+};
+
+const escapeField = (value: string, delimiter: Delimiter) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toDelimited = (rows: string[][], delimiter: Delimiter): string =>
+    rows.map(row => row.map(cell => escapeField(cell, delimiter)).join(delimiter)).join('\r\n');
+
+// Header row first; formula columns are written as their values, checkboxes as true / false
+export const tableToDelimited = (table: TableContent, delimiter: Delimiter): string => {
+    const computed = computeTable(table);
+    const rows = table.rows.map((row, r) => table.headers.map((_, c) =>
+        getColumnType(table, c) === 'checkbox' ? (row[c] === 'true' ? 'true' : 'false') : formatCell(table, computed, r, c)));
+    return toDelimited([table.headers, ...rows], delimiter);
+};
+
+// The first row becomes the headers; column types are guessed from the values below
+export const tableFromDelimited = (cells: string[][]): TableContent => {
+    const [headers, ...body] = cells;
+    const columnTypes = headers.map((_, i) => inferColumnType(body.map(r => r[i])));
+    return {
+        headers: headers.map((h, i) => h.trim() || `COL ${i + 1}`),
+        rows: body.map(r => r.map((cell, i) => columnTypes[i] === 'checkbox' ? String(/^true$/i.test(cell.trim())) : cell)),
+        columnTypes
+    };
+};
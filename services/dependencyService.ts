@@ -0,0 +1,185 @@
+import { BlockData, ChecklistItem, Edge, Page, TableContent } from "../types";
+import { compareSpatially } from './graphService';
+import { toggleChecklistItem } from './checklistService';
+
+// Dependency mode reads edges as "finish this first". An edge normally points from the earlier
+// task to the later one; a "depends on" edge reads the other way (its source waits on its target).
+// Reference edges carry no ordering. Only checklists and tables with a checkbox column are tasks;
+// other blocks on the path are looked through, so a note between two checklists still links them.
+
+export type TaskStatus = 'blocked' | 'ready' | 'done' | 'cycle';
+
+export interface TaskItem {
+    id: string;
+    text: string;
+}
+
+export interface NextAction {
+    pageId: string;
+    pageName: string;
+    blockId: string;
+    blockTitle: string;
+    item: TaskItem;
+}
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+    blocked: 'Blocked',
+    ready: 'Ready',
+    done: 'Done',
+    cycle: 'Cycle'
+};
+
+const tableCheckboxColumns = (table: TableContent) =>
+    (table.columnTypes || []).flatMap((type, i) => type === 'checkbox' ? [i] : []);
+
+export const isTaskBlock = (block: BlockData): boolean =>
+    block.type === 'checklist' || (block.type === 'table' && tableCheckboxColumns(block.content as TableContent).length > 0);
+
+// Unchecked checklist items, or table rows with an unticked checkbox (named by their first text cell)
+export const getOpenItems = (block: BlockData): TaskItem[] => {
+    if (block.type === 'checklist') {
+        return (block.content as ChecklistItem[]).filter(item => !item.checked).map(item => ({ id: item.id, text: item.text }));
+    }
+    if (block.type !== 'table') return [];
+    const table = block.content as TableContent;
+    const checkboxes = tableCheckboxColumns(table);
+    if (checkboxes.length === 0) return [];
+    const textColumn = table.headers.findIndex((_, i) => !checkboxes.includes(i));
+    return table.rows.flatMap((row, r) => checkboxes.every(c => row[c] === 'true')
+        ? []
+        : [{ id: String(r), text: (textColumn >= 0 ? row[textColumn] : '') || `Row ${r + 1}` }]);
+};
+
+export const isTaskComplete = (block: BlockData) => getOpenItems(block).length === 0;
+
+// Ticks (or unticks) one item returned by getOpenItems; table rows toggle all their checkboxes
+export const toggleTaskItem = (block: BlockData, itemId: string): Partial<BlockData> => {
+    if (block.type === 'checklist') {
+        return { content: toggleChecklistItem(block.content as ChecklistItem[], itemId) };
+    }
+    const table = block.content as TableContent;
+    const checkboxes = tableCheckboxColumns(table);
+    const r = Number(itemId);
+    const done = checkboxes.every(c => table.rows[r]?.[c] === 'true');
+    return {
+        content: {
+            ...table,
+            rows: table.rows.map((row, i) => i === r ? row.map((cell, c) => checkboxes.includes(c) ? String(!done) : cell) : row)
+        }
+    };
+};
+
+// Upstream -> downstream pairs for every edge that orders work
+export const getDependencyLinks = (edges: Edge[]): [string, string][] =>
+    edges.flatMap(e => {
+        if (e.kind === 'references' || e.fromId === e.toId) return [];
+        return [e.kind === 'depends-on' ? [e.toId, e.fromId] as [string, string] : [e.fromId, e.toId] as [string, string]];
+    });
+
+// Strongly connected components with more than one block (Tarjan). Each one is a loop of
+// dependencies that can never be satisfied.
+export const findDependencyCycles = (blocks: BlockData[], edges: Edge[]): string[][] => {
+    const ids = new Set(blocks.map(b => b.id));
+    const outgoing = new Map<string, string[]>(blocks.map(b => [b.id, []]));
+    getDependencyLinks(edges).forEach(([from, to]) => {
+        if (ids.has(from) && ids.has(to)) outgoing.get(from)!.push(to);
+    });
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    // Iterative, so long chains cannot overflow the call stack
+    blocks.forEach(({ id: root }) => {
+        if (index.has(root)) return;
+        const work: { id: string, next: number }[] = [{ id: root, next: 0 }];
+        index.set(root, counter); lowLink.set(root, counter); counter++;
+        stack.push(root); onStack.add(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const targets = outgoing.get(frame.id)!;
+            if (frame.next < targets.length) {
+                const to = targets[frame.next++];
+                if (!index.has(to)) {
+                    index.set(to, counter); lowLink.set(to, counter); counter++;
+                    stack.push(to); onStack.add(to);
+                    work.push({ id: to, next: 0 });
+                } else if (onStack.has(to)) {
+                    lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(to)!));
+                }
+                continue;
+            }
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].id;
+                lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+            }
+            if (lowLink.get(frame.id) === index.get(frame.id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.id);
+                if (component.length > 1) cycles.push(component.reverse());
+            }
+        }
+    });
+    return cycles;
+};
+
+// Status of every task block: done when all its items are ticked, blocked while any upstream
+// task is unfinished, ready otherwise. Tasks caught in a loop are flagged instead.
+export const computeTaskStatuses = (blocks: BlockData[], edges: Edge[]): Map<string, TaskStatus> => {
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    const incoming = new Map<string, string[]>(blocks.map(b => [b.id, []]));
+    getDependencyLinks(edges).forEach(([from, to]) => {
+        if (byId.has(from) && byId.has(to)) incoming.get(to)!.push(from);
+    });
+    const inCycle = new Set(findDependencyCycles(blocks, edges).flat());
+
+    // Nearest tasks upstream, walking back through blocks that are not tasks
+    const upstreamTasks = (id: string): BlockData[] => {
+        const found: BlockData[] = [];
+        const visited = new Set([id]);
+        const queue = [...incoming.get(id)!];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            if (visited.has(current)) continue;
+            visited.add(current);
+            const block = byId.get(current)!;
+            if (isTaskBlock(block)) found.push(block);
+            else queue.push(...incoming.get(current)!);
+        }
+        return found;
+    };
+
+    const statuses = new Map<string, TaskStatus>();
+    blocks.filter(isTaskBlock).forEach(block => {
+        if (inCycle.has(block.id)) statuses.set(block.id, 'cycle');
+        else if (isTaskComplete(block)) statuses.set(block.id, 'done');
+        else statuses.set(block.id, upstreamTasks(block.id).some(b => !isTaskComplete(b)) ? 'blocked' : 'ready');
+    });
+    return statuses;
+};
+
+// Every open item in a ready task, across all pages, in page order and then reading order
+export const getNextActions = (pages: Page[]): NextAction[] =>
+    pages.flatMap(page => {
+        const statuses = computeTaskStatuses(page.blocks, page.edges);
+        return page.blocks
+            .filter(b => statuses.get(b.id) === 'ready')
+            .sort(compareSpatially)
+            .flatMap(block => getOpenItems(block).map(item => ({
+                pageId: page.id,
+                pageName: page.name,
+                blockId: block.id,
+                blockTitle: block.title || 'Untitled',
+                item
+            })));
+    });
@@ -0,0 +1,335 @@
+import { BlockData, Edge, EdgeRouting, HandleType, Point, Rect } from "../types";
+import { distance, getBlockHandlePoint, getClosestPointOnBezier, getEdgeBounds, getEdgeMidpoint, getPathString, isPointNearBezier } from './geometryService';
+import { SpatialIndex, querySpatialIndex } from './spatialIndexService';
+
+// Edge routes: the classic bezier, a straight line, or an orthogonal elbow route that
+// steers around other blocks. Everything that draws or hit-tests edges goes through the
+// route helpers below, so each mode behaves the same for rendering, labels and splicing.
+
+export type EdgeRoute =
+    | { kind: 'bezier', p1: Point, p2: Point, h1: HandleType, h2: HandleType }
+    | { kind: 'polyline', points: Point[] };
+
+export interface EdgeGeometry {
+    p1: Point;
+    p2: Point;
+    route: EdgeRoute;
+}
+
+export const EDGE_ROUTINGS: { routing: EdgeRouting, label: string }[] = [
+    { routing: 'bezier', label: 'Curved' },
+    { routing: 'straight', label: 'Straight' },
+    { routing: 'orthogonal', label: 'Elbow' }
+];
+
+// Clearance kept between a route and the blocks it passes
+const ROUTE_MARGIN = 20;
+// Extra cost per turn, so the search prefers fewer, longer segments
+const BEND_PENALTY = 60;
+// Obstacles considered per route; beyond this the nearest ones win
+const MAX_OBSTACLES = 40;
+// How far past the endpoints' box blocks are still taken into account
+const OBSTACLE_RANGE = 200;
+
+const DIRECTIONS: Record<HandleType, Point> = {
+    top: { x: 0, y: -1 },
+    right: { x: 1, y: 0 },
+    bottom: { x: 0, y: 1 },
+    left: { x: -1, y: 0 }
+};
+
+const offsetPoint = (p: Point, handle: HandleType, amount: number): Point => ({
+    x: p.x + DIRECTIONS[handle].x * amount,
+    y: p.y + DIRECTIONS[handle].y * amount
+});
+
+// Drops repeated points and the middle of straight runs
+const simplify = (points: Point[]): Point[] => {
+    const deduped = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+    return deduped.filter((p, i) => {
+        if (i === 0 || i === deduped.length - 1) return true;
+        const prev = deduped[i - 1];
+        const next = deduped[i + 1];
+        return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+    });
+};
+
+// -- Orthogonal routing --
+
+// Plain three-segment elbow, used when there is nothing to avoid or no clear path exists
+const elbowRoute = (p1: Point, h1: HandleType, p2: Point, h2: HandleType): Point[] => {
+    const start = offsetPoint(p1, h1, ROUTE_MARGIN);
+    const end = offsetPoint(p2, h2, ROUTE_MARGIN);
+    const horizontal = h1 === 'left' || h1 === 'right';
+    const middle = horizontal
+        ? [{ x: (start.x + end.x) / 2, y: start.y }, { x: (start.x + end.x) / 2, y: end.y }]
+        : [{ x: start.x, y: (start.y + end.y) / 2 }, { x: end.x, y: (start.y + end.y) / 2 }];
+    return simplify([p1, start, ...middle, end, p2]);
+};
+
+interface QueueItem { state: number; cost: number; priority: number; }
+
+// Minimal binary heap on `priority`
+class MinHeap {
+    private items: QueueItem[] = [];
+    get size() { return this.items.length; }
+    push(item: QueueItem) {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].priority <= items[i].priority) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+    pop(): QueueItem {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            while (true) {
+                const l = i * 2 + 1;
+                const r = l + 1;
+                let smallest = i;
+                if (l < items.length && items[l].priority < items[smallest].priority) smallest = l;
+                if (r < items.length && items[r].priority < items[smallest].priority) smallest = r;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+// A* over a sparse grid made of the lines just outside every obstacle plus the lines through
+// the two stub points. Grid points inside an obstacle are unusable and grid segments may not
+// cross one. The search state includes the travel direction so turns can be penalised.
+const orthogonalRoute = (p1: Point, h1: HandleType, p2: Point, h2: HandleType, obstacles: Rect[]): Point[] => {
+    const start = offsetPoint(p1, h1, ROUTE_MARGIN);
+    const end = offsetPoint(p2, h2, ROUTE_MARGIN);
+    // Slightly smaller than the margin, so the grid lines at the margin run just outside
+    const blocked = obstacles.map(r => ({
+        x1: r.x - ROUTE_MARGIN + 1, y1: r.y - ROUTE_MARGIN + 1,
+        x2: r.x + r.w + ROUTE_MARGIN - 1, y2: r.y + r.h + ROUTE_MARGIN - 1
+    }));
+    const insideAny = (p: Point) => blocked.some(b => p.x > b.x1 && p.x < b.x2 && p.y > b.y1 && p.y < b.y2);
+    if (blocked.length === 0 || insideAny(start) || insideAny(end)) return elbowRoute(p1, h1, p2, h2);
+
+    const unique = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+    const xs = unique([start.x, end.x, (start.x + end.x) / 2, ...obstacles.flatMap(r => [r.x - ROUTE_MARGIN, r.x + r.w + ROUTE_MARGIN])]);
+    const ys = unique([start.y, end.y, (start.y + end.y) / 2, ...obstacles.flatMap(r => [r.y - ROUTE_MARGIN, r.y + r.h + ROUTE_MARGIN])]);
+
+    const cols = xs.length;
+    const nodeCount = cols * ys.length;
+    const pointOf = (node: number): Point => ({ x: xs[node % cols], y: ys[Math.floor(node / cols)] });
+    const free = new Uint8Array(nodeCount);
+    for (let n = 0; n < nodeCount; n++) free[n] = insideAny(pointOf(n)) ? 0 : 1;
+
+    const segmentClear = (a: Point, b: Point) => blocked.every(r => {
+        if (a.y === b.y) {
+            const lo = Math.min(a.x, b.x), hi = Math.max(a.x, b.x);
+            return !(a.y > r.y1 && a.y < r.y2 && lo < r.x2 && hi > r.x1);
+        }
+        const lo = Math.min(a.y, b.y), hi = Math.max(a.y, b.y);
+        return !(a.x > r.x1 && a.x < r.x2 && lo < r.y2 && hi > r.y1);
+    });
+
+    // Directions are indexed 0-3 as up, right, down, left
+    const steps = [{ dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }];
+    const dirIndex = (h: HandleType) => ['top', 'right', 'bottom', 'left'].indexOf(h);
+    const startNode = xs.indexOf(start.x) + ys.indexOf(start.y) * cols;
+    const endNode = xs.indexOf(end.x) + ys.indexOf(end.y) * cols;
+    // The last segment has to head into the target block, i.e. opposite to its handle
+    const arrivalDir = (dirIndex(h2) + 2) % 4;
+
+    const best = new Float64Array(nodeCount * 4).fill(Infinity);
+    const previous = new Int32Array(nodeCount * 4).fill(-1);
+    const heuristic = (node: number) => {
+        const p = pointOf(node);
+        return Math.abs(p.x - end.x) + Math.abs(p.y - end.y);
+    };
+
+    const heap = new MinHeap();
+    const initial = startNode * 4 + dirIndex(h1);
+    best[initial] = 0;
+    heap.push({ state: initial, cost: 0, priority: heuristic(startNode) });
+
+    let goal = -1;
+    let goalCost = Infinity;
+    while (heap.size > 0) {
+        const { state, cost } = heap.pop();
+        if (cost > best[state]) continue;
+        const node = state >> 2;
+        const dir = state & 3;
+        if (node === endNode) {
+            // Arriving sideways costs one more turn into the block
+            const total = cost + (dir === arrivalDir ? 0 : BEND_PENALTY);
+            if (total < goalCost) {
+                goal = state;
+                goalCost = total;
+            }
+            // Later pops cost at least as much, so nothing can beat a goal reached head-on
+            if (dir === arrivalDir || cost >= goalCost) break;
+            continue;
+        }
+
+        const col = node % cols;
+        const row = Math.floor(node / cols);
+        steps.forEach((step, nextDir) => {
+            // Never double back on the current direction
+            if (nextDir === (dir + 2) % 4) return;
+            const nextCol = col + step.dx;
+            const nextRow = row + step.dy;
+            if (nextCol < 0 || nextCol >= cols || nextRow < 0 || nextRow >= ys.length) return;
+            const next = nextCol + nextRow * cols;
+            if (!free[next]) return;
+            const a = pointOf(node);
+            const b = pointOf(next);
+            if (!segmentClear(a, b)) return;
+            const nextCost = cost + distance(a, b) + (nextDir === dir ? 0 : BEND_PENALTY);
+            const nextState = next * 4 + nextDir;
+            if (nextCost >= best[nextState]) return;
+            best[nextState] = nextCost;
+            previous[nextState] = state;
+            heap.push({ state: nextState, cost: nextCost, priority: nextCost + heuristic(next) });
+        });
+    }
+
+    if (goal === -1) return elbowRoute(p1, h1, p2, h2);
+    const path: Point[] = [];
+    for (let s = goal; s !== -1; s = previous[s]) path.unshift(pointOf(s >> 2));
+    return simplify([p1, ...path, p2]);
+};
+
+export const routeEdge = (routing: EdgeRouting | undefined, p1: Point, p2: Point, h1: HandleType, h2: HandleType, obstacles: Rect[] = []): EdgeRoute => {
+    if (routing === 'straight') return { kind: 'polyline', points: [p1, p2] };
+    if (routing === 'orthogonal') return { kind: 'polyline', points: orthogonalRoute(p1, h1, p2, h2, obstacles) };
+    return { kind: 'bezier', p1, p2, h1, h2 };
+};
+
+// -- Route queries --
+
+const segmentLengths = (points: Point[]) => points.slice(1).map((p, i) => distance(points[i], p));
+
+const closestOnSegment = (point: Point, a: Point, b: Point): Point => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+    return { x: a.x + dx * t, y: a.y + dy * t };
+};
+
+export const getRoutePath = (route: EdgeRoute): string => {
+    if (route.kind === 'bezier') return getPathString(route.p1, route.p2, route.h1, route.h2);
+    return route.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+};
+
+export const getRouteBounds = (route: EdgeRoute, padding = 0): Rect => {
+    if (route.kind === 'bezier') return getEdgeBounds(route.p1, route.p2, route.h1, route.h2, padding);
+    const xs = route.points.map(p => p.x);
+    const ys = route.points.map(p => p.y);
+    const x = Math.min(...xs) - padding;
+    const y = Math.min(...ys) - padding;
+    return { x, y, w: Math.max(...xs) + padding - x, h: Math.max(...ys) + padding - y };
+};
+
+// Halfway along the route's length, where labels sit
+export const getRouteMidpoint = (route: EdgeRoute): Point => {
+    if (route.kind === 'bezier') return getEdgeMidpoint(route.p1, route.p2, route.h1, route.h2);
+    const lengths = segmentLengths(route.points);
+    let remaining = lengths.reduce((a, b) => a + b, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i]) {
+            const t = lengths[i] === 0 ? 0 : remaining / lengths[i];
+            const a = route.points[i];
+            const b = route.points[i + 1];
+            return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+        }
+        remaining -= lengths[i];
+    }
+    return route.points[route.points.length - 1];
+};
+
+export const getClosestPointOnRoute = (point: Point, route: EdgeRoute): Point => {
+    if (route.kind === 'bezier') return getClosestPointOnBezier(point, route.p1, route.p2, route.h1, route.h2);
+    let bestPoint = route.points[0];
+    let bestDistance = Infinity;
+    route.points.slice(1).forEach((b, i) => {
+        const candidate = closestOnSegment(point, route.points[i], b);
+        const d = distance(point, candidate);
+        if (d < bestDistance) {
+            bestDistance = d;
+            bestPoint = candidate;
+        }
+    });
+    return bestPoint;
+};
+
+export const isPointNearRoute = (point: Point, route: EdgeRoute, threshold: number): boolean => {
+    if (route.kind === 'bezier') return isPointNearBezier(point, route.p1, route.p2, route.h1, route.h2, threshold);
+    return distance(point, getClosestPointOnRoute(point, route)) < threshold;
+};
+
+// -- Routing a whole page --
+
+// Last computed route per edge, keyed by everything the route depends on
+export type RouteCache = Map<string, { key: string, route: EdgeRoute }>;
+
+const rectKey = (r: Rect) => `${r.x},${r.y},${r.w},${r.h}`;
+
+// Blocks an orthogonal route has to avoid: those near the box spanned by its endpoints.
+// Frames are left out, since routes between their contents have to cross them.
+const findObstacles = (p1: Point, p2: Point, blocksById: Map<string, BlockData>, index: SpatialIndex, excluded: Set<string>): BlockData[] => {
+    const area = {
+        x: Math.min(p1.x, p2.x) - OBSTACLE_RANGE,
+        y: Math.min(p1.y, p2.y) - OBSTACLE_RANGE,
+        w: Math.abs(p2.x - p1.x) + OBSTACLE_RANGE * 2,
+        h: Math.abs(p2.y - p1.y) + OBSTACLE_RANGE * 2
+    };
+    const centre = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+    return Array.from(querySpatialIndex(index, area))
+        .filter(id => !excluded.has(id))
+        .map(id => blocksById.get(id)!)
+        .filter(b => b && b.type !== 'frame')
+        .sort((a, b) => distance(centre, { x: a.x + a.w / 2, y: a.y + a.h / 2 }) - distance(centre, { x: b.x + b.w / 2, y: b.y + b.h / 2 }))
+        .slice(0, MAX_OBSTACLES);
+};
+
+// Routes every edge, reusing cached routes whose endpoints and nearby obstacles are unchanged.
+// Blocks in `excluded` (the ones being dragged) are not obstacles, which keeps unrelated routes
+// stable mid-drag and lets a dragged block be dropped onto any edge.
+export const computeEdgeGeometry = (
+    edges: Edge[],
+    blocks: BlockData[],
+    index: SpatialIndex,
+    cache: RouteCache,
+    excluded: Set<string> = new Set()
+): { geometry: Map<string, EdgeGeometry>, cache: RouteCache } => {
+    const blocksById = new Map(blocks.map(b => [b.id, b]));
+    const geometry = new Map<string, EdgeGeometry>();
+    const nextCache: RouteCache = new Map();
+
+    edges.forEach(edge => {
+        const from = blocksById.get(edge.fromId);
+        const to = blocksById.get(edge.toId);
+        if (!from || !to) return;
+        const p1 = getBlockHandlePoint(from, edge.fromHandle);
+        const p2 = getBlockHandlePoint(to, edge.toHandle);
+
+        const obstacles = edge.routing === 'orthogonal' ? findObstacles(p1, p2, blocksById, index, excluded) : [];
+        const key = [edge.routing, edge.fromHandle, edge.toHandle, p1.x, p1.y, p2.x, p2.y, ...obstacles.map(o => `${o.id}:${rectKey(o)}`)].join('|');
+        const cached = cache.get(edge.id);
+        const route = cached && cached.key === key
+            ? cached.route
+            : routeEdge(edge.routing, p1, p2, edge.fromHandle, edge.toHandle, obstacles);
+
+        nextCache.set(edge.id, { key, route });
+        geometry.set(edge.id, { p1, p2, route });
+    });
+    return { geometry, cache: nextCache };
+};
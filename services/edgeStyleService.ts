@@ -0,0 +1,50 @@
+import { Edge, EdgeArrowheads, EdgeKind, EdgeLineStyle } from "../types";
+
+// Semantic edge types and how edges are drawn. A kind supplies the default look; the
+// explicit style fields on an edge override it one property at a time.
+
+export interface EdgeStyle {
+    lineStyle: EdgeLineStyle;
+    color: string;
+    arrowheads: EdgeArrowheads;
+}
+
+export const EDGE_KINDS: { kind: EdgeKind, label: string, style: EdgeStyle }[] = [
+    { kind: 'default', label: 'Connection', style: { lineStyle: 'solid', color: '#6b7280', arrowheads: 'end' } },
+    { kind: 'leads-to', label: 'Leads to', style: { lineStyle: 'solid', color: '#3b82f6', arrowheads: 'end' } },
+    { kind: 'depends-on', label: 'Depends on', style: { lineStyle: 'dashed', color: '#f97316', arrowheads: 'end' } },
+    { kind: 'references', label: 'References', style: { lineStyle: 'dashed', color: '#9ca3af', arrowheads: 'none' } }
+];
+
+export const EDGE_COLORS = ['#6b7280', '#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899'];
+export const EDGE_LINE_STYLES: EdgeLineStyle[] = ['solid', 'dashed'];
+export const EDGE_ARROWHEADS: EdgeArrowheads[] = ['none', 'end', 'both'];
+
+export const DASH_PATTERN = '8,6';
+
+// SVG arrowhead markers are defined once per colour
+export const getMarkerId = (color: string) => `arrowhead-${color.replace(/[^a-zA-Z0-9]/g, '')}`;
+
+export const getEdgeKindInfo = (kind: EdgeKind = 'default') =>
+    EDGE_KINDS.find(k => k.kind === kind) || EDGE_KINDS[0];
+
+export const resolveEdgeStyle = (edge: Edge): EdgeStyle => {
+    const defaults = getEdgeKindInfo(edge.kind).style;
+    return {
+        lineStyle: edge.lineStyle || defaults.lineStyle,
+        color: edge.color || defaults.color,
+        arrowheads: edge.arrowheads || defaults.arrowheads
+    };
+};
+
+// Text drawn at the midpoint: the label, or the kind's name for typed edges without one
+export const getEdgeCaption = (edge: Edge): string => {
+    if (edge.label) return edge.label;
+    return edge.kind && edge.kind !== 'default' ? getEdgeKindInfo(edge.kind).label : '';
+};
+
+// Switching kind resets the style fields, so the new kind's look applies
+export const applyEdgeKind = (edge: Edge, kind: EdgeKind): Edge => {
+    const { lineStyle, color, arrowheads, ...rest } = edge;
+    return { ...rest, kind };
+};
@@ -0,0 +1,19 @@
+// Browser download / upload helpers shared by the exporters and importers
+
+export const toFileSlug = (name: string) => name.replace(/\s+/g, '-').toLowerCase() || 'untitled';
+
+export const datedFileName = (name: string, extension: string) =>
+    `${toFileSlug(name)}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export const downloadFile = (fileName: string, data: string | Blob, mimeType: string) => {
+    const blob = typeof data === 'string' ? new Blob([data], { type: mimeType }) : data;
+    const url = URL.createObjectURL(blob);
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", fileName);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
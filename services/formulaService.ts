@@ -0,0 +1,261 @@
+// A small spreadsheet formula language for table columns. A formula column holds one expression
+// that is evaluated for every row:
+//   B * C * D        cells of the same row (columns are lettered A, B, C, ...)
+//   D1, D2           a fixed cell (rows are numbered from 1)
+//   SUM(D1:D5)       a range of cells; D:D is the whole column
+// Operators are + - * / ^ with the usual precedence, plus parentheses and unary minus.
+// Errors are thrown as Error objects whose message is the spreadsheet code shown in the cell.
+
+export type FormulaValue = number | string | null; // string = text that is not a number, null = empty
+
+export interface CellRef {
+    col: number;
+    row?: number; // Omitted: the row being evaluated (or, in a range, the whole column)
+}
+
+export type FormulaNode =
+    | { kind: 'number', value: number }
+    | { kind: 'ref', ref: CellRef }
+    | { kind: 'range', from: CellRef, to: CellRef }
+    | { kind: 'unary', op: '-' | '+', arg: FormulaNode }
+    | { kind: 'binary', op: '+' | '-' | '*' | '/' | '^', left: FormulaNode, right: FormulaNode }
+    | { kind: 'call', name: string, args: FormulaNode[] };
+
+export interface FormulaContext {
+    row: number;
+    rowCount: number;
+    // Value of a cell; throws the cell's error code if it holds an error
+    getCell: (col: number, row: number) => FormulaValue;
+}
+
+export const FORMULA_ERRORS = {
+    syntax: '#ERROR!',
+    ref: '#REF!',
+    value: '#VALUE!',
+    divZero: '#DIV/0!',
+    cycle: '#CYCLE!',
+    name: '#NAME?'
+};
+
+export const isFormulaError = (value: unknown): value is string =>
+    typeof value === 'string' && Object.values(FORMULA_ERRORS).includes(value);
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnLetter = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+    }
+    return letters;
+};
+
+const columnIndex = (letters: string): number =>
+    letters.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+type Token = { type: 'number', value: number } | { type: 'name', value: string } | { type: 'op', value: string };
+
+// '#REF!' stands in for a reference to a deleted column
+const TOKEN_RE = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|([A-Za-z]+\d*|#REF!)|([-+*/^(),:]))/y;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    TOKEN_RE.lastIndex = 0;
+    while (TOKEN_RE.lastIndex < source.length) {
+        if (source.slice(TOKEN_RE.lastIndex).trim() === '') break;
+        const match = TOKEN_RE.exec(source);
+        if (!match) throw new Error(FORMULA_ERRORS.syntax);
+        if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]) });
+        else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toUpperCase() });
+        else tokens.push({ type: 'op', value: match[3] });
+    }
+    return tokens;
+};
+
+// A reference to a deleted column parses to a cell that is always out of range
+const DELETED_REF: FormulaNode = { kind: 'ref', ref: { col: -1 } };
+
+// null for '#REF!'
+const parseRefToken = (name: string): CellRef | null => {
+    if (name === FORMULA_ERRORS.ref) return null;
+    const match = name.match(/^([A-Z]+)(\d*)$/);
+    if (!match) throw new Error(FORMULA_ERRORS.syntax);
+    const [, letters, digits] = match;
+    return digits ? { col: columnIndex(letters), row: Number(digits) - 1 } : { col: columnIndex(letters) };
+};
+
+// Recursive descent, one function per precedence level. A leading '=' is optional.
+export const parseFormula = (source: string): FormulaNode => {
+    const tokens = tokenize(source.trim().replace(/^=/, ''));
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new Error(FORMULA_ERRORS.syntax);
+        pos++;
+    };
+
+    const expression = (): FormulaNode => {
+        let node = term();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[pos++].value as '+' | '-';
+            node = { kind: 'binary', op, left: node, right: term() };
+        }
+        return node;
+    };
+
+    const term = (): FormulaNode => {
+        let node = unary();
+        while (isOp('*') || isOp('/')) {
+            const op = tokens[pos++].value as '*' | '/';
+            node = { kind: 'binary', op, left: node, right: unary() };
+        }
+        return node;
+    };
+
+    const unary = (): FormulaNode => {
+        if (isOp('-') || isOp('+')) {
+            const op = tokens[pos++].value as '-' | '+';
+            return { kind: 'unary', op, arg: unary() };
+        }
+        return power();
+    };
+
+    // Right-associative: 2^3^2 = 2^9
+    const power = (): FormulaNode => {
+        const base = primary();
+        if (!isOp('^')) return base;
+        pos++;
+        return { kind: 'binary', op: '^', left: base, right: unary() };
+    };
+
+    const primary = (): FormulaNode => {
+        const token = tokens[pos++];
+        if (!token) throw new Error(FORMULA_ERRORS.syntax);
+        if (token.type === 'number') return { kind: 'number', value: token.value };
+        if (token.type === 'op') {
+            if (token.value !== '(') throw new Error(FORMULA_ERRORS.syntax);
+            const inner = expression();
+            expect(')');
+            return inner;
+        }
+        if (isOp('(')) {
+            pos++;
+            const args: FormulaNode[] = [];
+            if (!isOp(')')) {
+                args.push(expression());
+                while (isOp(',')) {
+                    pos++;
+                    args.push(expression());
+                }
+            }
+            expect(')');
+            return { kind: 'call', name: token.value, args };
+        }
+        const ref = parseRefToken(token.value);
+        if (!isOp(':')) return ref ? { kind: 'ref', ref } : DELETED_REF;
+        pos++;
+        const end = tokens[pos++];
+        if (end?.type !== 'name') throw new Error(FORMULA_ERRORS.syntax);
+        const endRef = parseRefToken(end.value);
+        return ref && endRef ? { kind: 'range', from: ref, to: endRef } : DELETED_REF;
+    };
+
+    const node = expression();
+    if (pos < tokens.length) throw new Error(FORMULA_ERRORS.syntax);
+    return node;
+};
+
+// Rewrites the column letters in a formula after columns were moved or deleted. `mapColumn`
+// returns the new index of a column, or -1 when it is gone.
+export const remapFormulaColumns = (source: string, mapColumn: (col: number) => number): string =>
+    source.replace(/(?<!#)\b([A-Za-z]+)(\d*)\b(\s*\()?/g, (match, letters: string, digits: string, call?: string) => {
+        if (call) return match;
+        const col = mapColumn(columnIndex(letters));
+        return col < 0 ? FORMULA_ERRORS.ref : `${columnLetter(col)}${digits}`;
+    });
+
+// Cells a range covers, row by row
+const expandRange = (from: CellRef, to: CellRef, ctx: FormulaContext): FormulaValue[] => {
+    if ((from.row === undefined) !== (to.row === undefined)) throw new Error(FORMULA_ERRORS.ref);
+    const [c1, c2] = [Math.min(from.col, to.col), Math.max(from.col, to.col)];
+    const [r1, r2] = from.row === undefined
+        ? [0, ctx.rowCount - 1]
+        : [Math.min(from.row, to.row!), Math.max(from.row, to.row!)];
+    const values: FormulaValue[] = [];
+    for (let r = r1; r <= r2; r++) {
+        for (let c = c1; c <= c2; c++) values.push(ctx.getCell(c, r));
+    }
+    return values;
+};
+
+const toNumber = (value: FormulaValue): number => {
+    if (value === null) return 0;
+    if (typeof value === 'string') throw new Error(FORMULA_ERRORS.value);
+    return value;
+};
+
+// Function arguments flatten ranges; text and empty cells in a range are skipped
+const numericArgs = (args: FormulaNode[], ctx: FormulaContext): number[] =>
+    args.flatMap(arg => arg.kind === 'range'
+        ? expandRange(arg.from, arg.to, ctx).filter((v): v is number => typeof v === 'number')
+        : [toNumber(evaluate(arg, ctx))]);
+
+const FUNCTIONS: Record<string, (args: FormulaNode[], ctx: FormulaContext) => number> = {
+    SUM: (args, ctx) => numericArgs(args, ctx).reduce((a, b) => a + b, 0),
+    AVG: (args, ctx) => {
+        const values = numericArgs(args, ctx);
+        if (values.length === 0) throw new Error(FORMULA_ERRORS.divZero);
+        return values.reduce((a, b) => a + b, 0) / values.length;
+    },
+    MIN: (args, ctx) => {
+        const values = numericArgs(args, ctx);
+        return values.length > 0 ? Math.min(...values) : 0;
+    },
+    MAX: (args, ctx) => {
+        const values = numericArgs(args, ctx);
+        return values.length > 0 ? Math.max(...values) : 0;
+    },
+    COUNT: (args, ctx) => numericArgs(args, ctx).length,
+    ROUND: (args, ctx) => {
+        const [value, digits = 0] = numericArgs(args, ctx);
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    },
+    ABS: (args, ctx) => Math.abs(numericArgs(args, ctx)[0] ?? 0)
+};
+FUNCTIONS.AVERAGE = FUNCTIONS.AVG;
+
+const applyOperator = (op: '+' | '-' | '*' | '/' | '^', left: number, right: number): number => {
+    switch (op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+            if (right === 0) throw new Error(FORMULA_ERRORS.divZero);
+            return left / right;
+        case '^': return left ** right;
+    }
+};
+
+export const evaluate = (node: FormulaNode, ctx: FormulaContext): FormulaValue => {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'ref':
+            return ctx.getCell(node.ref.col, node.ref.row ?? ctx.row);
+        case 'range':
+            // A bare range only makes sense as a function argument
+            throw new Error(FORMULA_ERRORS.value);
+        case 'unary': {
+            const value = toNumber(evaluate(node.arg, ctx));
+            return node.op === '-' ? -value : value;
+        }
+        case 'binary':
+            return applyOperator(node.op, toNumber(evaluate(node.left, ctx)), toNumber(evaluate(node.right, ctx)));
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) throw new Error(FORMULA_ERRORS.name);
+            return fn(node.args, ctx);
+        }
+    }
+};
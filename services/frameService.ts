@@ -0,0 +1,171 @@
+import { BlockData, Point, Rect } from "../types";
+import { getBlocksBounds } from './selectionService';
+
+// Frames are blocks that contain other blocks. Membership is stored on the child (frameId),
+// so moving, duplicating or exporting a frame means expanding it to all of its descendants.
+
+export const FRAME_HEADER_HEIGHT = 50;
+export const FRAME_PADDING = 24;
+export const FRAME_COLORS = ['#8b5cf6', '#3b82f6', '#06b6d4', '#22c55e', '#eab308', '#f97316', '#ef4444', '#6b7280'];
+export const DEFAULT_FRAME_COLOR = FRAME_COLORS[0];
+
+export const isFrame = (block: BlockData) => block.type === 'frame';
+
+const getChildrenByFrame = (blocks: BlockData[]) => {
+    const children = new Map<string, BlockData[]>();
+    blocks.forEach(b => {
+        if (!b.frameId) return;
+        if (!children.has(b.frameId)) children.set(b.frameId, []);
+        children.get(b.frameId)!.push(b);
+    });
+    return children;
+};
+
+// Every block nested (at any depth) inside the given frames
+export const getDescendantIds = (blocks: BlockData[], frameIds: Iterable<string>): Set<string> => {
+    const children = getChildrenByFrame(blocks);
+    const result = new Set<string>();
+    const stack = Array.from(frameIds);
+    while (stack.length > 0) {
+        (children.get(stack.pop()!) || []).forEach(child => {
+            if (result.has(child.id)) return;
+            result.add(child.id);
+            stack.push(child.id);
+        });
+    }
+    return result;
+};
+
+// The given blocks plus everything inside the frames among them, in page order
+export const expandWithDescendants = (blocks: BlockData[], ids: string[]): string[] => {
+    const expanded = new Set([...ids, ...getDescendantIds(blocks, ids)]);
+    return blocks.filter(b => expanded.has(b.id)).map(b => b.id);
+};
+
+// Blocks folded away inside collapsed frames
+export const getHiddenBlockIds = (blocks: BlockData[]): Set<string> =>
+    getDescendantIds(blocks, blocks.filter(b => isFrame(b) && b.collapsed).map(b => b.id));
+
+export const getFrameDepth = (blocks: BlockData[], block: BlockData): number => {
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    let depth = 0;
+    let parent = block.frameId ? byId.get(block.frameId) : undefined;
+    while (parent && depth < blocks.length) {
+        depth++;
+        parent = parent.frameId ? byId.get(parent.frameId) : undefined;
+    }
+    return depth;
+};
+
+// Outer frames first, so nested frames paint on top of their parents
+export const sortFramesByDepth = (blocks: BlockData[], frames: BlockData[]): BlockData[] => {
+    const depths = new Map(frames.map(f => [f.id, getFrameDepth(blocks, f)]));
+    return [...frames].sort((a, b) => depths.get(a.id)! - depths.get(b.id)!);
+};
+
+// The smallest expanded frame under the block's centre that is larger than the block itself.
+// A frame can never land inside one of its own descendants.
+const findContainingFrame = (blocks: BlockData[], block: BlockData, excluded: Set<string>): BlockData | undefined => {
+    const centre: Point = { x: block.x + block.w / 2, y: block.y + block.h / 2 };
+    return blocks
+        .filter(f => isFrame(f) && !f.collapsed && !excluded.has(f.id) && f.w * f.h > block.w * block.h)
+        .filter(f => centre.x >= f.x && centre.x <= f.x + f.w && centre.y >= f.y + FRAME_HEADER_HEIGHT && centre.y <= f.y + f.h)
+        .sort((a, b) => a.w * a.h - b.w * b.h)[0];
+};
+
+// After a drop, each moved block joins the frame it was dropped into (or leaves its frame).
+// Blocks whose frame moved along with them keep their membership.
+export const updateFrameMembership = (blocks: BlockData[], movedIds: string[]): BlockData[] => {
+    const moved = new Set(movedIds);
+    const hidden = getHiddenBlockIds(blocks);
+    let changed = false;
+    const next = blocks.map(block => {
+        if (!moved.has(block.id) || (block.frameId && moved.has(block.frameId))) return block;
+        const excluded = new Set([block.id, ...hidden, ...getDescendantIds(blocks, [block.id])]);
+        const frameId = findContainingFrame(blocks, block, excluded)?.id;
+        if (frameId === block.frameId) return block;
+        changed = true;
+        const { frameId: _, ...rest } = block;
+        return frameId ? { ...rest, frameId } : rest;
+    });
+    return changed ? next : blocks;
+};
+
+// The area a frame needs so its children fit inside the body, below the title bar
+export const getFrameContentBounds = (blocks: BlockData[], frameId: string): Rect | null => {
+    const bounds = getBlocksBounds(blocks.filter(b => b.frameId === frameId));
+    if (!bounds) return null;
+    return {
+        x: bounds.x - FRAME_PADDING,
+        y: bounds.y - FRAME_PADDING - FRAME_HEADER_HEIGHT,
+        w: bounds.w + FRAME_PADDING * 2,
+        h: bounds.h + FRAME_PADDING * 2 + FRAME_HEADER_HEIGHT
+    };
+};
+
+// Grows expanded frames until they enclose their children again. Inner frames are fitted
+// first so their new size is accounted for by the frames around them.
+export const fitFramesToChildren = (blocks: BlockData[]): BlockData[] => {
+    const frames = sortFramesByDepth(blocks, blocks.filter(b => isFrame(b) && !b.collapsed)).reverse();
+    let next = blocks;
+    frames.forEach(({ id }) => {
+        const frame = next.find(b => b.id === id)!;
+        const content = getFrameContentBounds(next, id);
+        if (!content) return;
+        const x = Math.min(frame.x, content.x);
+        const y = Math.min(frame.y, content.y);
+        const w = Math.max(frame.x + frame.w, content.x + content.w) - x;
+        const h = Math.max(frame.y + frame.h, content.y + content.h) - y;
+        if (x === frame.x && y === frame.y && w === frame.w && h === frame.h) return;
+        next = next.map(b => b.id === id ? { ...b, x, y, w, h } : b);
+    });
+    return next;
+};
+
+// A new frame around the given blocks, which become its children
+export const createFrameAround = (blocks: BlockData[], ids: string[], frameId: string): { frame: BlockData, blocks: BlockData[] } | null => {
+    const members = blocks.filter(b => ids.includes(b.id));
+    const bounds = getBlocksBounds(members);
+    if (!bounds) return null;
+    // Blocks already nested under another selected block stay where they are
+    const nested = getDescendantIds(blocks, ids);
+    const parents = new Set(members.map(b => b.frameId));
+    const frame: BlockData = {
+        id: frameId,
+        type: 'frame',
+        x: bounds.x - FRAME_PADDING,
+        y: bounds.y - FRAME_PADDING - FRAME_HEADER_HEIGHT,
+        w: bounds.w + FRAME_PADDING * 2,
+        h: bounds.h + FRAME_PADDING * 2 + FRAME_HEADER_HEIGHT,
+        title: 'Frame',
+        content: '',
+        color: DEFAULT_FRAME_COLOR,
+        // Wrapping siblings keeps the new frame inside their common parent
+        ...(parents.size === 1 && members[0].frameId ? { frameId: members[0].frameId } : {})
+    };
+    return {
+        frame,
+        blocks: blocks.map(b => ids.includes(b.id) && !nested.has(b.id) ? { ...b, frameId } : b)
+    };
+};
+
+// Deleting a frame keeps its contents: children move up to the nearest surviving frame
+export const removeBlocks = (blocks: BlockData[], ids: string[]): BlockData[] => {
+    const removed = new Set(ids);
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    return blocks
+        .filter(b => !removed.has(b.id))
+        .map(b => {
+            if (!b.frameId || !removed.has(b.frameId)) return b;
+            let parent = byId.get(b.frameId);
+            while (parent && removed.has(parent.id)) parent = parent.frameId ? byId.get(parent.frameId) : undefined;
+            const { frameId, ...rest } = b;
+            return parent ? { ...rest, frameId: parent.id } : rest;
+        });
+};
+
+// Collapsing folds the frame to its title bar and remembers the height to restore
+export const toggleFrameCollapsed = (frame: BlockData): Partial<BlockData> =>
+    frame.collapsed
+        ? { collapsed: false, h: Math.max(frame.expandedHeight || 0, FRAME_HEADER_HEIGHT * 2) }
+        : { collapsed: true, expandedHeight: frame.h, h: FRAME_HEADER_HEIGHT };
@@ -40,7 +40,7 @@ export const generateBlockFromPrompt = async (prompt: string, centerPos: {x: num
     content = {
         headers: ['Exercise', 'Sets', 'Reps'],
         rows: rows,
-        columnTypes: ['text', 'text', 'text']
+        columnTypes: ['text', 'number', 'number']
     };
     w = 340;
     // Calculate approximate height: Header (40) + Rows (35 each) + Padding
@@ -0,0 +1,104 @@
+import { BlockData, HandleType, Point, Rect } from "../types";
+
+// Edge geometry shared by the canvas, hit-testing and the exporters
+
+export function getBlockHandlePoint(block: BlockData, handle: HandleType): Point {
+    switch (handle) {
+        case 'top': return { x: block.x + block.w / 2, y: block.y };
+        case 'bottom': return { x: block.x + block.w / 2, y: block.y + block.h };
+        case 'left': return { x: block.x, y: block.y + block.h / 2 };
+        case 'right': return { x: block.x + block.w, y: block.y + block.h / 2 };
+    }
+    return { x: block.x, y: block.y };
+}
+
+export function getHandlePosition(blockId: string, handle: HandleType, blocks: BlockData[]): Point | null {
+    const block = blocks.find(b => b.id === blockId);
+    return block ? getBlockHandlePoint(block, handle) : null;
+}
+
+export function getControlPoints(p1: Point, p2: Point, h1: HandleType, h2: HandleType) {
+  const dist = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  const getOffset = (h: HandleType): Point => {
+      switch(h) {
+          case 'top': return { x: 0, y: -1 };
+          case 'bottom': return { x: 0, y: 1 };
+          case 'left': return { x: -1, y: 0 };
+          case 'right': return { x: 1, y: 0 };
+      }
+  };
+  const o1 = getOffset(h1);
+  const o2 = getOffset(h2);
+  const cpDist = Math.min(dist * 0.5, 150);
+  return {
+      cp1: { x: p1.x + o1.x * cpDist, y: p1.y + o1.y * cpDist },
+      cp2: { x: p2.x + o2.x * cpDist, y: p2.y + o2.y * cpDist }
+  };
+}
+
+export function getPointOnBezier(t: number, p1: Point, cp1: Point, cp2: Point, p2: Point): Point {
+    const mt = 1 - t;
+    const mt2 = mt * mt;
+    const mt3 = mt2 * mt;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    
+    return {
+        x: mt3 * p1.x + 3 * mt2 * t * cp1.x + 3 * mt * t2 * cp2.x + t3 * p2.x,
+        y: mt3 * p1.y + 3 * mt2 * t * cp1.y + 3 * mt * t2 * cp2.y + t3 * p2.y
+    };
+}
+
+export function getEdgeMidpoint(p1: Point, p2: Point, h1: HandleType, h2: HandleType): Point {
+    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
+    return getPointOnBezier(0.5, p1, cp1, cp2, p2);
+}
+
+export function distance(p1: Point, p2: Point) {
+    return Math.hypot(p2.x - p1.x, p2.y - p1.y);
+}
+
+export function getClosestPointOnBezier(point: Point, p1: Point, p2: Point, h1: HandleType, h2: HandleType): Point {
+    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
+    let minDist = Infinity;
+    let bestPoint = p1;
+    
+    // Scan the bezier curve for the closest point
+    const steps = 50;
+    for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        const p = getPointOnBezier(t, p1, cp1, cp2, p2);
+        const d = distance(point, p);
+        if (d < minDist) {
+            minDist = d;
+            bestPoint = p;
+        }
+    }
+    return bestPoint;
+}
+
+export function isPointNearBezier(point: Point, p1: Point, p2: Point, h1: HandleType, h2: HandleType, threshold: number = 25): boolean {
+    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
+    const samples = 15;
+    for (let i = 0; i <= samples; i++) {
+        const t = i / samples;
+        const p = getPointOnBezier(t, p1, cp1, cp2, p2);
+        if (distance(point, p) < threshold) return true;
+    }
+    return false;
+}
+
+export function getPathString(p1: Point, p2: Point, h1: HandleType, h2: HandleType) {
+    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
+    return `M ${p1.x} ${p1.y} C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${p2.x} ${p2.y}`;
+}
+
+// A bezier never leaves the hull of its control points, so their box bounds the curve
+export function getEdgeBounds(p1: Point, p2: Point, h1: HandleType, h2: HandleType, padding = 0): Rect {
+    const { cp1, cp2 } = getControlPoints(p1, p2, h1, h2);
+    const xs = [p1.x, p2.x, cp1.x, cp2.x];
+    const ys = [p1.y, p2.y, cp1.y, cp2.y];
+    const x = Math.min(...xs) - padding;
+    const y = Math.min(...ys) - padding;
+    return { x, y, w: Math.max(...xs) + padding - x, h: Math.max(...ys) + padding - y };
+}
@@ -0,0 +1,43 @@
+import { BlockData, Edge } from "../types";
+
+// Reading order on the canvas: top-to-bottom, then left-to-right
+export const compareSpatially = (a: BlockData, b: BlockData) => (a.y - b.y) || (a.x - b.x);
+
+// Orders blocks so that every block comes after the blocks pointing to it (Kahn's algorithm).
+// Ties, unconnected blocks and cycles fall back to spatial reading order.
+export const topologicalOrder = (blocks: BlockData[], edges: Edge[]): BlockData[] => {
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    const inDegree = new Map(blocks.map(b => [b.id, 0]));
+    const outgoing = new Map<string, string[]>(blocks.map(b => [b.id, []]));
+
+    edges.forEach(e => {
+        if (!byId.has(e.fromId) || !byId.has(e.toId) || e.fromId === e.toId) return;
+        outgoing.get(e.fromId)!.push(e.toId);
+        inDegree.set(e.toId, inDegree.get(e.toId)! + 1);
+    });
+
+    const remaining = [...blocks].sort(compareSpatially);
+    const visited = new Set<string>();
+    const result: BlockData[] = [];
+    let ready = remaining.filter(b => inDegree.get(b.id) === 0);
+
+    while (result.length < blocks.length) {
+        if (ready.length === 0) {
+            // Only cycles are left: break one open at the spatially first block
+            ready = [remaining.find(b => !visited.has(b.id))!];
+        }
+        const next = ready.shift()!;
+        if (visited.has(next.id)) continue;
+        visited.add(next.id);
+        result.push(next);
+
+        outgoing.get(next.id)!.forEach(toId => {
+            const degree = inDegree.get(toId)! - 1;
+            inDegree.set(toId, degree);
+            if (degree === 0 && !visited.has(toId)) ready.push(byId.get(toId)!);
+        });
+        ready.sort(compareSpatially);
+    }
+
+    return result;
+};
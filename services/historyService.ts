@@ -0,0 +1,260 @@
+import { BlockData, Edge, Page } from "../types";
+
+// History is recorded as discrete operations: each entry only holds the blocks and edges
+// it touched (before/after), so a long session costs memory proportional to what changed.
+
+export type HistoryOpKind = 'add' | 'move' | 'resize' | 'edit' | 'connect' | 'delete';
+
+export interface HistoryChange<T> {
+  id: string;
+  before: T | null; // null => the item did not exist before (added)
+  after: T | null;  // null => the item was removed
+  index: number;    // position in the array, used to restore z-order on re-insert
+}
+
+export interface HistoryEntry {
+  kind: HistoryOpKind;
+  blocks: HistoryChange<BlockData>[];
+  edges: HistoryChange<Edge>[];
+  timestamp: number;
+  gestureId?: string;
+  transfer?: PageTransfer;
+  size: number;
+}
+
+// Blocks and edges a step moved onto another page (the active page only records their removal)
+export interface PageTransfer {
+  pageId: string;
+  blocks: BlockData[];
+  edges: Edge[];
+}
+
+export interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+  bytes: number;
+}
+
+export const EMPTY_HISTORY: HistoryStacks = { undo: [], redo: [], bytes: 0 };
+
+const MAX_HISTORY_BYTES = 32 * 1024 * 1024; // Oldest entries are dropped beyond this
+const COALESCE_MS = 1000; // Typing bursts / nudges closer together than this become one step
+const MERGEABLE: HistoryOpKind[] = ['move', 'resize', 'edit'];
+
+// -- Diffing --
+
+const diffById = <T extends { id: string }>(before: T[], after: T[]): HistoryChange<T>[] => {
+    const changes: HistoryChange<T>[] = [];
+    const afterMap = new Map(after.map((item, index) => [item.id, { item, index }]));
+    const beforeIds = new Set<string>();
+
+    before.forEach((item, index) => {
+        beforeIds.add(item.id);
+        const next = afterMap.get(item.id);
+        if (!next) {
+            changes.push({ id: item.id, before: item, after: null, index });
+        } else if (next.item !== item) {
+            // State updates are immutable, so an unchanged item keeps its reference
+            changes.push({ id: item.id, before: item, after: next.item, index });
+        }
+    });
+
+    after.forEach((item, index) => {
+        if (!beforeIds.has(item.id)) {
+            changes.push({ id: item.id, before: null, after: item, index });
+        }
+    });
+
+    return changes;
+};
+
+// Code run results are output, not edits: a change to them alone is not recorded, and undo/redo
+// keeps whatever the block currently shows
+const onlyRunOutputChanged = (before: BlockData, after: BlockData) => {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof BlockData>;
+    keys.delete('runOutput');
+    return [...keys].every(key => before[key] === after[key]);
+};
+
+const classify = (blocks: HistoryChange<BlockData>[], edges: HistoryChange<Edge>[]): HistoryOpKind => {
+    if (blocks.some(c => c.after === null)) return 'delete';
+    if (blocks.some(c => c.before === null)) return 'add';
+    if (edges.some(c => c.before === null)) return 'connect';
+    if (edges.some(c => c.after === null)) return 'delete';
+
+    const modified = blocks.filter(c => c.before && c.after);
+    if (modified.length === 0) return 'edit';
+
+    const isResize = modified.some(c => c.before!.w !== c.after!.w || c.before!.h !== c.after!.h);
+    if (isResize) return 'resize';
+
+    const onlyPosition = modified.every(c => {
+        const { x: _bx, y: _by, ...restBefore } = c.before!;
+        const { x: _ax, y: _ay, ...restAfter } = c.after!;
+        return JSON.stringify(restBefore) === JSON.stringify(restAfter);
+    });
+    return onlyPosition ? 'move' : 'edit';
+};
+
+export const createHistoryEntry = (
+    prevBlocks: BlockData[],
+    prevEdges: Edge[],
+    nextBlocks: BlockData[],
+    nextEdges: Edge[],
+    gestureId?: string
+): HistoryEntry | null => {
+    const blocks = diffById(prevBlocks, nextBlocks).filter(c => !c.before || !c.after || !onlyRunOutputChanged(c.before, c.after));
+    const edges = diffById(prevEdges, nextEdges);
+    if (blocks.length === 0 && edges.length === 0) return null;
+
+    return {
+        kind: classify(blocks, edges),
+        blocks,
+        edges,
+        timestamp: Date.now(),
+        gestureId,
+        size: JSON.stringify({ blocks, edges }).length * 2
+    };
+};
+
+export const withPageTransfer = (entry: HistoryEntry, transfer: PageTransfer): HistoryEntry => ({
+    ...entry,
+    transfer,
+    size: entry.size + JSON.stringify(transfer).length * 2
+});
+
+// -- Recording --
+
+const sameTargets = (a: HistoryEntry, b: HistoryEntry) => {
+    const ids = (e: HistoryEntry) => [...e.blocks.map(c => c.id), ...e.edges.map(c => `edge:${c.id}`)].sort().join('|');
+    return ids(a) === ids(b);
+};
+
+const canMerge = (prev: HistoryEntry, next: HistoryEntry) => {
+    if (prev.gestureId && prev.gestureId === next.gestureId) return true;
+    return prev.kind === next.kind
+        && MERGEABLE.includes(next.kind)
+        && next.timestamp - prev.timestamp < COALESCE_MS
+        && sameTargets(prev, next);
+};
+
+const mergeChanges = <T>(older: HistoryChange<T>[], newer: HistoryChange<T>[]): HistoryChange<T>[] => {
+    const merged = new Map(older.map(c => [c.id, { ...c }]));
+    newer.forEach(c => {
+        const existing = merged.get(c.id);
+        if (existing) {
+            existing.after = c.after;
+        } else {
+            merged.set(c.id, c);
+        }
+    });
+    // An item added then removed within the same step leaves no trace
+    return Array.from(merged.values()).filter(c => c.before !== null || c.after !== null);
+};
+
+export const recordHistoryEntry = (stacks: HistoryStacks, entry: HistoryEntry): HistoryStacks => {
+    let undo = stacks.undo;
+    let bytes = stacks.bytes;
+    const last = undo[undo.length - 1];
+
+    if (last && canMerge(last, entry)) {
+        const blocks = mergeChanges(last.blocks, entry.blocks);
+        const edges = mergeChanges(last.edges, entry.edges);
+        const merged: HistoryEntry = {
+            ...last,
+            kind: last.gestureId && last.gestureId === entry.gestureId ? classify(blocks, edges) : last.kind,
+            blocks,
+            edges,
+            timestamp: entry.timestamp,
+            size: JSON.stringify({ blocks, edges }).length * 2
+        };
+        bytes += merged.size - last.size;
+        undo = [...undo.slice(0, -1), merged];
+    } else {
+        bytes += entry.size;
+        undo = [...undo, entry];
+    }
+
+    // A new action invalidates everything that could have been redone
+    stacks.redo.forEach(e => { bytes -= e.size; });
+
+    while (bytes > MAX_HISTORY_BYTES && undo.length > 1) {
+        bytes -= undo[0].size;
+        undo = undo.slice(1);
+    }
+
+    return { undo, redo: [], bytes };
+};
+
+// -- Replaying --
+
+export const applyHistoryChanges = <T extends { id: string }>(
+    items: T[],
+    changes: HistoryChange<T>[],
+    direction: 'undo' | 'redo'
+): T[] => {
+    const target = (c: HistoryChange<T>) => direction === 'undo' ? c.before : c.after;
+    const targetMap = new Map(changes.map(c => [c.id, target(c)]));
+
+    // Replace or drop the items that already exist
+    const result: T[] = [];
+    items.forEach(item => {
+        if (!targetMap.has(item.id)) {
+            result.push(item);
+            return;
+        }
+        const next = targetMap.get(item.id);
+        if (next) result.push(next);
+    });
+
+    // Re-insert the items that came back, lowest index first so positions stay stable
+    const present = new Set(result.map(i => i.id));
+    changes
+        .filter(c => target(c) && !present.has(c.id))
+        .sort((a, b) => a.index - b.index)
+        .forEach(c => {
+            result.splice(Math.min(c.index, result.length), 0, target(c)!);
+        });
+
+    return result;
+};
+
+export const applyBlockHistoryChanges = (
+    blocks: BlockData[],
+    changes: HistoryChange<BlockData>[],
+    direction: 'undo' | 'redo'
+): BlockData[] => {
+    const current = new Map(blocks.map(b => [b.id, b]));
+    return applyHistoryChanges(blocks, changes, direction).map(block => {
+        const present = current.get(block.id);
+        if (!present || present.runOutput === block.runOutput) return block;
+        const { runOutput: _, ...rest } = block;
+        return present.runOutput ? { ...rest, runOutput: present.runOutput } : rest;
+    });
+};
+
+// Undo takes transferred items back off the other page; redo puts them there again
+export const applyPageTransfer = (pages: Page[], transfer: PageTransfer, direction: 'undo' | 'redo'): Page[] => {
+    const blockIds = new Set(transfer.blocks.map(b => b.id));
+    const edgeIds = new Set(transfer.edges.map(e => e.id));
+    return pages.map(p => {
+        if (p.id !== transfer.pageId) return p;
+        const blocks = p.blocks.filter(b => !blockIds.has(b.id));
+        const edges = p.edges.filter(e => !edgeIds.has(e.id));
+        return direction === 'undo'
+            ? { ...p, blocks, edges }
+            : { ...p, blocks: [...blocks, ...transfer.blocks], edges: [...edges, ...transfer.edges] };
+    });
+};
+
+export const undoHistory = (stacks: HistoryStacks): HistoryStacks => {
+    const entry = stacks.undo[stacks.undo.length - 1];
+    if (!entry) return stacks;
+    return { ...stacks, undo: stacks.undo.slice(0, -1), redo: [...stacks.redo, entry] };
+};
+
+export const redoHistory = (stacks: HistoryStacks): HistoryStacks => {
+    const entry = stacks.redo[stacks.redo.length - 1];
+    if (!entry) return stacks;
+    return { ...stacks, undo: [...stacks.undo, entry], redo: stacks.redo.slice(0, -1) };
+};
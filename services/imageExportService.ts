@@ -0,0 +1,308 @@
+import { BlockData, ChecklistItem, Edge, Point, TableContent } from "../types";
+import { getBlocksBounds } from './selectionService';
+import { computeEdgeGeometry, getRouteBounds, getRouteMidpoint, getRoutePath } from './edgeRoutingService';
+import { createSpatialIndex } from './spatialIndexService';
+import { DASH_PATTERN, getEdgeCaption, getMarkerId, resolveEdgeStyle } from './edgeStyleService';
+import { loadImage } from './storageService';
+import { blobToDataUrl } from './imageService';
+import { AGGREGATE_LABELS, computeAggregate, computeTable, formatCell, getColumnConfig, hasAggregates } from './tableService';
+import { INDENT_WIDTH, getItemLevel, isOverdue, todayString } from './checklistService';
+import { DEFAULT_FRAME_COLOR, FRAME_HEADER_HEIGHT, sortFramesByDepth } from './frameService';
+import { TOKEN_COLORS, guessLanguage, tokenizeLines } from './syntaxService';
+import { renderMarkdown } from './markdownService';
+
+// Renders blocks and edges into a standalone SVG (no foreignObject, so it rasterizes
+// cleanly to PNG and opens in any viewer). Layout approximates Block.tsx.
+
+export interface ExportTheme {
+    color: string;   // accent: borders, arrowheads, checkboxes
+    bg: string;      // canvas background
+    surface: string; // block background
+    text: string;
+}
+
+const PADDING = 40;
+const HEADER_HEIGHT = 40;
+const INNER_PADDING = 14;
+const FONT = `Inter, -apple-system, 'Segoe UI', sans-serif`;
+const MONO_FONT = `'JetBrains Mono', Menlo, Consolas, monospace`;
+const FONT_SIZE = 13;
+const LINE_HEIGHT = 19;
+const EDGE_COLOR = '#6b7280';
+const OVERDUE_COLOR = '#dc2626';
+
+// Used for attribute values as well as text: colours come from imported files
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rich text HTML -> plain lines, keeping the line structure of divs, paragraphs and list items
+const htmlToLines = (html: string): string[] => {
+    const marked = html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<li[^>]*>/gi, '\n• ')
+        .replace(/<\/t[hd]>/gi, '   ')
+        .replace(/<input[^>]*checked[^>]*>/gi, '☑')
+        .replace(/<input[^>]*>/gi, '☐')
+        .replace(/<\/(div|p|li|h[1-6]|pre|blockquote|tr)>/gi, '\n');
+    const doc = new DOMParser().parseFromString(marked, 'text/html');
+    return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim().split('\n');
+};
+
+// Greedy word wrap using an average glyph width; good enough for a static snapshot
+const wrapLine = (line: string, maxWidth: number, charWidth: number): string[] => {
+    const maxChars = Math.max(4, Math.floor(maxWidth / charWidth));
+    if (line.length <= maxChars) return [line];
+    const words = line.split(' ');
+    const wrapped: string[] = [];
+    let current = '';
+    words.forEach(word => {
+        while (word.length > maxChars) {
+            if (current) { wrapped.push(current); current = ''; }
+            wrapped.push(word.slice(0, maxChars));
+            word = word.slice(maxChars);
+        }
+        if (!current) current = word;
+        else if (current.length + 1 + word.length <= maxChars) current += ` ${word}`;
+        else { wrapped.push(current); current = word; }
+    });
+    if (current) wrapped.push(current);
+    return wrapped;
+};
+
+const textLines = (lines: string[], x: number, y: number, width: number, theme: ExportTheme, mono = false) => {
+    const charWidth = FONT_SIZE * (mono ? 0.6 : 0.55);
+    const wrapped = mono
+        ? lines.map(l => l.replace(/\t/g, '    '))
+        : lines.flatMap(l => wrapLine(l, width, charWidth));
+    return wrapped.map((line, i) =>
+        `<text x="${x}" y="${y + (i + 1) * LINE_HEIGHT - 5}" font-family="${mono ? MONO_FONT : FONT}" font-size="${FONT_SIZE}" fill="${theme.text}" xml:space="preserve">${escapeXml(line)}</text>`
+    ).join('');
+};
+
+// One <text> per line, each token a coloured <tspan>, in the editor's colours
+const codeLines = (code: string, language: BlockData['language'], x: number, y: number) =>
+    tokenizeLines(code, language || guessLanguage(code)).map((tokens, i) =>
+        `<text x="${x}" y="${y + (i + 1) * LINE_HEIGHT - 5}" font-family="${MONO_FONT}" font-size="${FONT_SIZE}" xml:space="preserve">` +
+        tokens.map(t => `<tspan fill="${TOKEN_COLORS[t.type]}">${escapeXml(t.text.replace(/\t/g, '    '))}</tspan>`).join('') +
+        `</text>`
+    ).join('');
+
+const checkbox = (x: number, y: number, checked: boolean, theme: ExportTheme) =>
+    `<rect x="${x}" y="${y}" width="14" height="14" rx="3" fill="${checked ? theme.color : 'none'}" stroke="${checked ? theme.color : EDGE_COLOR}" stroke-width="1.5"/>` +
+    (checked ? `<path d="M ${x + 3} ${y + 7} L ${x + 6} ${y + 10} L ${x + 11} ${y + 4}" stroke="#ffffff" stroke-width="2" fill="none"/>` : '');
+
+const renderChecklist = (items: ChecklistItem[], x: number, y: number, width: number, theme: ExportTheme) => {
+    const today = todayString();
+    return items.map((item, i) => {
+        const rowY = y + i * 28;
+        const itemX = x + getItemLevel(item) * INDENT_WIDTH;
+        const label = escapeXml(item.text);
+        const color = isOverdue(item, today) ? OVERDUE_COLOR : theme.text;
+        const due = item.dueDate
+            ? `<text x="${x + width}" y="${rowY + 16}" text-anchor="end" font-family="${FONT}" font-size="11" fill="${color}" opacity="0.8">${escapeXml(item.dueDate)}</text>`
+            : '';
+        return checkbox(itemX, rowY + 4, item.checked, theme) +
+            `<text x="${itemX + 24}" y="${rowY + 16}" font-family="${FONT}" font-size="${FONT_SIZE}" fill="${color}" opacity="${item.checked ? 0.5 : 1}"${item.checked ? ' text-decoration="line-through"' : ''}>${label}</text>` +
+            due;
+    }).join('');
+};
+
+const renderTable = (table: TableContent, x: number, y: number, width: number, theme: ExportTheme) => {
+    const cols = Math.max(1, table.headers.length);
+    const colWidth = width / cols;
+    const rowHeight = 28;
+    const types = table.columnTypes || [];
+    const maxChars = Math.max(3, Math.floor((colWidth - 12) / (FONT_SIZE * 0.55)));
+    const clip = (v: string) => v.length > maxChars ? `${v.slice(0, maxChars - 1)}…` : v;
+
+    let out = `<rect x="${x}" y="${y}" width="${width}" height="${rowHeight}" fill="${theme.color}" opacity="0.15"/>`;
+    table.headers.forEach((h, c) => {
+        out += `<text x="${x + c * colWidth + 6}" y="${y + 18}" font-family="${FONT}" font-size="11" font-weight="700" fill="${theme.text}">${escapeXml(clip(h.toUpperCase()))}</text>`;
+    });
+    const computed = computeTable(table);
+    table.rows.forEach((row, r) => {
+        const rowY = y + (r + 1) * rowHeight;
+        out += `<line x1="${x}" y1="${rowY}" x2="${x + width}" y2="${rowY}" stroke="${EDGE_COLOR}" stroke-opacity="0.4"/>`;
+        row.forEach((cell, c) => {
+            const cellX = x + c * colWidth + 6;
+            if (types[c] === 'checkbox') {
+                out += checkbox(cellX, rowY + 7, cell === 'true', theme);
+                return;
+            }
+            const text = escapeXml(clip(formatCell(table, computed, r, c).replace(/\n/g, ' ')));
+            const option = types[c] === 'select' ? getColumnConfig(table, c).options?.find(o => o.value === cell) : undefined;
+            if (option) {
+                const pillW = Math.min(colWidth - 10, text.length * FONT_SIZE * 0.55 + 14);
+                out += `<rect x="${cellX - 2}" y="${rowY + 6}" width="${pillW}" height="16" rx="8" fill="${escapeXml(option.color)}"/>` +
+                    `<text x="${cellX + 5}" y="${rowY + 18}" font-family="${FONT}" font-size="11" fill="#ffffff">${text}</text>`;
+            } else {
+                out += `<text x="${cellX}" y="${rowY + 18}" font-family="${FONT}" font-size="${FONT_SIZE}" fill="${theme.text}">${text}</text>`;
+            }
+        });
+    });
+
+    if (hasAggregates(table)) {
+        const footY = y + (table.rows.length + 1) * rowHeight;
+        out += `<rect x="${x}" y="${footY}" width="${width}" height="${rowHeight}" fill="${theme.color}" opacity="0.1"/>`;
+        table.headers.forEach((_, c) => {
+            const value = computeAggregate(table, computed, c);
+            if (value === null) return;
+            const label = `${AGGREGATE_LABELS[getColumnConfig(table, c).aggregate!]} ${value}`;
+            out += `<text x="${x + c * colWidth + 6}" y="${footY + 18}" font-family="${FONT}" font-size="11" font-weight="700" fill="${theme.text}">${escapeXml(clip(label))}</text>`;
+        });
+    }
+    return out;
+};
+
+const renderBlock = (block: BlockData, theme: ExportTheme, images: Map<string, string | null>): string => {
+    const { x, y, w, h } = block;
+    const clipId = `clip-${block.id}`;
+    const bodyX = x + INNER_PADDING;
+    const bodyY = y + HEADER_HEIGHT + 6;
+    const bodyW = w - INNER_PADDING * 2;
+
+    let body = '';
+    switch (block.type) {
+        case 'text':
+            body = textLines(htmlToLines(block.content as string), bodyX, bodyY, bodyW, theme);
+            break;
+        case 'markdown':
+            body = textLines(htmlToLines(renderMarkdown(block.content as string)), bodyX, bodyY, bodyW, theme);
+            break;
+        case 'code':
+            body = `<rect x="${x + 8}" y="${bodyY - 4}" width="${w - 16}" height="${h - HEADER_HEIGHT - 10}" rx="6" fill="#1f2937"/>` +
+                codeLines(block.content as string, block.language, bodyX, bodyY);
+            break;
+        case 'checklist':
+            body = renderChecklist(block.content as ChecklistItem[], bodyX, bodyY, bodyW, theme);
+            break;
+        case 'table':
+            body = renderTable(block.content as TableContent, bodyX, bodyY, bodyW, theme);
+            break;
+        case 'image': {
+            const href = images.get(block.id);
+            body = href
+                ? `<image href="${escapeXml(href)}" x="${x + 8}" y="${bodyY - 4}" width="${w - 16}" height="${h - HEADER_HEIGHT - 10}" preserveAspectRatio="xMidYMid meet"/>`
+                : textLines(['(image unavailable)'], bodyX, bodyY, bodyW, theme);
+            break;
+        }
+    }
+
+    return `<g>` +
+        `<clipPath id="${clipId}"><rect x="${x}" y="${y}" width="${w}" height="${h}" rx="12"/></clipPath>` +
+        `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="12" fill="${theme.surface}" stroke="${theme.color}" stroke-opacity="0.35" stroke-width="1.5"/>` +
+        `<g clip-path="url(#${clipId})">` +
+        `<text x="${bodyX}" y="${y + 26}" font-family="${FONT}" font-size="14" font-weight="700" fill="${theme.text}">${escapeXml(block.title || '')}</text>` +
+        `<line x1="${x}" y1="${y + HEADER_HEIGHT}" x2="${x + w}" y2="${y + HEADER_HEIGHT}" stroke="${theme.color}" stroke-opacity="0.2"/>` +
+        body +
+        `</g></g>`;
+};
+
+// Frames are a tinted area with a title bar, drawn beneath edges and blocks
+const renderFrame = (frame: BlockData, theme: ExportTheme): string => {
+    const { x, y, w, h } = frame;
+    const color = escapeXml(frame.color || DEFAULT_FRAME_COLOR);
+    const headerHeight = frame.collapsed ? h : FRAME_HEADER_HEIGHT - 4;
+    return `<g>` +
+        `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="16" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-width="2"/>` +
+        `<rect x="${x}" y="${y}" width="${w}" height="${headerHeight}" rx="16" fill="${color}" fill-opacity="0.2"/>` +
+        `<text x="${x + INNER_PADDING}" y="${y + headerHeight / 2 + 5}" font-family="${FONT}" font-size="14" font-weight="700" fill="${theme.text}">${escapeXml(frame.title || '')}</text>` +
+        `</g>`;
+};
+
+// Image blocks are embedded as data URLs so the SVG is self-contained and the PNG canvas is
+// not tainted. Stored blobs are read from IndexedDB; URLs the browser is not allowed to
+// read (CORS) render as a placeholder.
+const inlineImages = async (blocks: BlockData[]): Promise<Map<string, string | null>> => {
+    const images = new Map<string, string | null>();
+    await Promise.all(blocks.filter(b => b.type === 'image' && (b.imageId || b.content)).map(async block => {
+        const src = block.content as string;
+        if (!block.imageId && src.startsWith('data:')) {
+            images.set(block.id, src);
+            return;
+        }
+        try {
+            const stored = block.imageId ? await loadImage(block.imageId) : null;
+            if (!stored && !src) throw new Error('Missing image');
+            const blob = stored ? stored.blob : await (await fetch(src)).blob();
+            images.set(block.id, await blobToDataUrl(blob));
+        } catch {
+            images.set(block.id, null);
+        }
+    }));
+    return images;
+};
+
+// Label pill at the edge midpoint; the width is estimated since nothing is measured here
+const renderEdgeLabel = (caption: string, mid: Point, theme: ExportTheme) => {
+    const width = caption.length * 11 * 0.55 + 16;
+    return `<rect x="${mid.x - width / 2}" y="${mid.y - 10}" width="${width}" height="20" rx="6" fill="${theme.surface}" stroke="${EDGE_COLOR}" stroke-opacity="0.4"/>` +
+        `<text x="${mid.x}" y="${mid.y + 4}" text-anchor="middle" font-family="${FONT}" font-size="11" fill="${theme.text}">${escapeXml(caption)}</text>`;
+};
+
+// Only edges with both ends inside the exported set are drawn
+export const renderSvg = async (blocks: BlockData[], edges: Edge[], theme: ExportTheme): Promise<{ svg: string, width: number, height: number }> => {
+    const blockBounds = getBlocksBounds(blocks) || { x: 0, y: 0, w: 0, h: 0 };
+    let minX = blockBounds.x, minY = blockBounds.y;
+    let maxX = blockBounds.x + blockBounds.w, maxY = blockBounds.y + blockBounds.h;
+    const images = await inlineImages(blocks);
+
+    const markerColors = new Set<string>();
+    const edgeLabels: string[] = [];
+    // Routed against the exported blocks only, so elbow routes may differ from the canvas
+    const { geometry } = computeEdgeGeometry(edges, blocks, createSpatialIndex(blocks.map(b => ({ id: b.id, rect: b }))), new Map());
+    const edgePaths = edges.map(edge => {
+        const route = geometry.get(edge.id)?.route;
+        if (!route) return '';
+        const edgeBounds = getRouteBounds(route);
+        minX = Math.min(minX, edgeBounds.x); minY = Math.min(minY, edgeBounds.y);
+        maxX = Math.max(maxX, edgeBounds.x + edgeBounds.w); maxY = Math.max(maxY, edgeBounds.y + edgeBounds.h);
+
+        const style = resolveEdgeStyle(edge);
+        const marker = `url(#${getMarkerId(style.color)})`;
+        if (style.arrowheads !== 'none') markerColors.add(style.color);
+        const caption = getEdgeCaption(edge);
+        if (caption) edgeLabels.push(renderEdgeLabel(caption, getRouteMidpoint(route), theme));
+
+        return `<path d="${getRoutePath(route)}" stroke="${escapeXml(style.color)}" stroke-width="2" fill="none"` +
+            (style.lineStyle === 'dashed' ? ` stroke-dasharray="${DASH_PATTERN}"` : '') +
+            (style.arrowheads !== 'none' ? ` marker-end="${marker}"` : '') +
+            (style.arrowheads === 'both' ? ` marker-start="${marker}"` : '') +
+            `/>`;
+    }).join('');
+    const markers = Array.from(markerColors).map(color =>
+        `<marker id="${getMarkerId(color)}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto-start-reverse"><polygon points="0 0, 10 3.5, 0 7" fill="${escapeXml(color)}"/></marker>`
+    ).join('');
+
+    const bounds = { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+    const width = Math.ceil(bounds.w + PADDING * 2);
+    const height = Math.ceil(bounds.h + PADDING * 2);
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${bounds.x - PADDING} ${bounds.y - PADDING} ${width} ${height}">` +
+        `<defs>${markers}</defs>` +
+        `<rect x="${bounds.x - PADDING}" y="${bounds.y - PADDING}" width="${width}" height="${height}" fill="${theme.bg}"/>` +
+        sortFramesByDepth(blocks, blocks.filter(b => b.type === 'frame')).map(f => renderFrame(f, theme)).join('') +
+        edgePaths +
+        edgeLabels.join('') +
+        blocks.filter(b => b.type !== 'frame').map(b => renderBlock(b, theme, images)).join('') +
+        `</svg>`;
+
+    return { svg, width, height };
+};
+
+export const svgToPng = (svg: string, width: number, height: number, scale: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Canvas is not supported'));
+            ctx.scale(scale, scale);
+            ctx.drawImage(img, 0, 0, width, height);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+        };
+        img.onerror = () => reject(new Error('Could not rasterize the SVG'));
+        img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
@@ -0,0 +1,136 @@
+import { BlockData, Page, StoredImage } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { loadImage, saveImage } from './storageService';
+import { HistoryStacks } from './historyService';
+
+const THUMBNAIL_SIZE = 256;
+
+// Serialized form used inside exported workspace bundles
+export interface ImageBundleEntry {
+    dataUrl: string;
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const createThumbnail = async (blob: Blob): Promise<{ thumbnail: Blob, width: number, height: number }> => {
+    const bitmap = await createImageBitmap(blob);
+    const { width, height } = bitmap;
+    const ratio = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * ratio));
+    canvas.height = Math.max(1, Math.round(height * ratio));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const thumbnail = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error('Thumbnail encoding failed')), 'image/webp', 0.8)
+    );
+    return { thumbnail, width, height };
+};
+
+// Stores an image file (drop, paste or import) and resolves with its record
+export const storeImageBlob = async (blob: Blob, id: string = uuidv4()): Promise<StoredImage> => {
+    const { thumbnail, width, height } = await createThumbnail(blob);
+    const image: StoredImage = { id, blob, thumbnail, mimeType: blob.type, width, height, createdAt: Date.now() };
+    await saveImage(image);
+    return image;
+};
+
+// -- Object URLs --
+
+// One object URL per image and variant for the lifetime of the page; released on garbage collection
+const urlCache = new Map<string, Promise<string | null>>();
+
+export const getImageUrl = (id: string, variant: 'full' | 'thumbnail' = 'full'): Promise<string | null> => {
+    const key = `${id}:${variant}`;
+    if (!urlCache.has(key)) {
+        urlCache.set(key, loadImage(id)
+            .then(image => image ? URL.createObjectURL(variant === 'full' ? image.blob : image.thumbnail) : null)
+            .catch(() => null));
+    }
+    return urlCache.get(key)!;
+};
+
+export const releaseImageUrls = (ids: string[]) => {
+    ids.forEach(id => ['full', 'thumbnail'].forEach(variant => {
+        const key = `${id}:${variant}`;
+        urlCache.get(key)?.then(url => { if (url) URL.revokeObjectURL(url); });
+        urlCache.delete(key);
+    }));
+};
+
+// -- References & Bundles --
+
+export const getImageIds = (blocks: BlockData[]): string[] =>
+    blocks.filter(b => b.imageId).map(b => b.imageId!);
+
+export const getPagesImageIds = (pages: Page[]): Set<string> =>
+    new Set(pages.flatMap(p => getImageIds(p.blocks)));
+
+// Deleted blocks can come back through undo/redo, so their images must survive garbage collection
+export const getHistoryImageIds = (history: HistoryStacks): string[] =>
+    [...history.undo, ...history.redo].flatMap(entry =>
+        entry.blocks.flatMap(change => [change.before?.imageId, change.after?.imageId].filter((id): id is string => !!id))
+    );
+
+export const exportImageBundle = async (ids: Iterable<string>): Promise<Record<string, ImageBundleEntry>> => {
+    const bundle: Record<string, ImageBundleEntry> = {};
+    for (const id of ids) {
+        const image = await loadImage(id);
+        if (!image) continue;
+        bundle[id] = { dataUrl: await blobToDataUrl(image.blob), mimeType: image.mimeType, width: image.width, height: image.height };
+    }
+    return bundle;
+};
+
+// Markdown and .canvas files have nowhere to keep blobs, so stored images are written into
+// their blocks as data URLs. Also resolves with how many images could not be read.
+export const inlineStoredImages = async (pages: Page[]): Promise<{ pages: Page[], missing: number }> => {
+    const bundle = await exportImageBundle(getPagesImageIds(pages));
+    let missing = 0;
+    const inlined = pages.map(page => ({
+        ...page,
+        blocks: page.blocks.map(block => {
+            if (!block.imageId) return block;
+            const entry = bundle[block.imageId];
+            if (!entry) {
+                missing++;
+                return block;
+            }
+            return { ...block, content: entry.dataUrl };
+        })
+    }));
+    return { pages: inlined, missing };
+};
+
+// Restores bundled images under their original ids so imported blocks resolve. Images that
+// already exist locally are left alone. Resolves with the number of entries that failed.
+export const importImageBundle = async (bundle: unknown): Promise<number> => {
+    if (!bundle || typeof bundle !== 'object') return 0;
+    let failed = 0;
+    for (const [id, entry] of Object.entries(bundle as Record<string, Partial<ImageBundleEntry>>)) {
+        try {
+            if (await loadImage(id)) continue;
+            if (typeof entry?.dataUrl !== 'string' || !entry.dataUrl.startsWith('data:image/')) throw new Error('Invalid image data');
+            await storeImageBlob(await dataUrlToBlob(entry.dataUrl), id);
+        } catch (e) {
+            console.warn(`Could not import image ${id}`, e);
+            failed++;
+        }
+    }
+    return failed;
+};
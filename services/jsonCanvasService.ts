@@ -0,0 +1,212 @@
+import { BlockData, Edge, EdgeKind, HandleType, Page } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { createPage } from './storageService';
+import { getBlocksBounds } from './selectionService';
+import { EDGE_KINDS, getEdgeKindInfo, resolveEdgeStyle } from './edgeStyleService';
+import { blockToMarkdown, escapeHtml, markdownToHtml, parseMarkdown, sanitizeUrl, sectionToBlock } from './markdownService';
+import { DEFAULT_FRAME_COLOR, sortFramesByDepth, updateFrameMembership } from './frameService';
+
+// JSON Canvas 1.0 (https://jsoncanvas.org), the open board format used by Obsidian Canvas
+
+type JsonCanvasSide = HandleType;
+
+interface JsonCanvasNode {
+    id: string;
+    type: 'text' | 'file' | 'link' | 'group';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    color?: string;
+    text?: string;
+    file?: string;
+    url?: string;
+    label?: string;
+}
+
+interface JsonCanvasEdge {
+    id: string;
+    fromNode: string;
+    fromSide?: JsonCanvasSide;
+    toNode: string;
+    toSide?: JsonCanvasSide;
+    fromEnd?: 'none' | 'arrow';
+    toEnd?: 'none' | 'arrow';
+    color?: string;
+    label?: string;
+    kind?: EdgeKind; // Not in the spec (extra fields are allowed): the NukeNote edge kind
+}
+
+export interface JsonCanvas {
+    nodes: JsonCanvasNode[];
+    edges: JsonCanvasEdge[];
+}
+
+const SIDES: JsonCanvasSide[] = ['top', 'right', 'bottom', 'left'];
+// The spec's preset colours "1"-"6"; apps render them in their own palette
+const PRESET_COLORS: Record<string, string> = { '1': '#ef4444', '2': '#f97316', '3': '#eab308', '4': '#22c55e', '5': '#06b6d4', '6': '#8b5cf6' };
+const HEX_COLOR_RE = /^#([\da-f]{3}|[\da-f]{6})$/i;
+const IMAGE_PATH_RE = /\.(png|jpe?g|gif|webp|svg|avif|bmp)(\?.*)?$/i;
+const IMAGE_MARKDOWN_RE = /^(?:#{1,6}\s+(.*)\n+)?!\[([^\]]*)\]\(([^)\s]+)\)$/;
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+// A preset id or a #rgb / #rrggbb value; anything else in the file is ignored
+const parseColor = (color: unknown): string | undefined => {
+    if (typeof color !== 'string') return undefined;
+    const value = PRESET_COLORS[color] ?? color;
+    return HEX_COLOR_RE.test(value) ? value : undefined;
+};
+
+// -- Export --
+
+// Frames become groups. Nodes are listed bottom-most first, so groups lead, outer ones first.
+const blockToNode = (block: BlockData): JsonCanvasNode => {
+    const geometry = {
+        id: block.id,
+        x: Math.round(block.x),
+        y: Math.round(block.y),
+        width: Math.round(block.w),
+        height: Math.round(block.h)
+    };
+    if (block.type === 'frame') {
+        return { ...geometry, type: 'group', label: block.title || '', color: block.color || DEFAULT_FRAME_COLOR };
+    }
+    // Titles travel as a leading heading, which the importer turns back into the title
+    return { ...geometry, type: 'text', text: blockToMarkdown(block) };
+};
+
+export const pageToJsonCanvas = (page: Page): JsonCanvas => ({
+    nodes: [
+        ...sortFramesByDepth(page.blocks, page.blocks.filter(b => b.type === 'frame')),
+        ...page.blocks.filter(b => b.type !== 'frame')
+    ].map(blockToNode),
+    edges: page.edges.map(edge => {
+        const style = resolveEdgeStyle(edge);
+        return {
+            id: edge.id,
+            fromNode: edge.fromId,
+            fromSide: edge.fromHandle,
+            toNode: edge.toId,
+            toSide: edge.toHandle,
+            fromEnd: style.arrowheads === 'both' ? 'arrow' : 'none',
+            toEnd: style.arrowheads === 'none' ? 'none' : 'arrow',
+            color: style.color,
+            ...(edge.label ? { label: edge.label } : {}),
+            ...(edge.kind && edge.kind !== 'default' ? { kind: edge.kind } : {})
+        };
+    })
+});
+
+// -- Import --
+
+const textNodeToBlock = (text: string): BlockData => {
+    const source = text.replace(/\r\n?/g, '\n').trim();
+
+    const image = source.match(IMAGE_MARKDOWN_RE);
+    if (image) {
+        return { id: '', type: 'image', x: 0, y: 0, w: 0, h: 0, title: image[1] || image[2] || 'Image', content: image[3] };
+    }
+
+    // A note holding exactly one checklist, table or code fence keeps its structure;
+    // anything richer becomes a Markdown block with the source kept as written
+    const sections = parseMarkdown(source);
+    if (sections.length === 1) return sectionToBlock(sections[0]);
+
+    const heading = source.match(/^#{1,6}\s+(.*)\n/);
+    return {
+        id: '', type: 'markdown', x: 0, y: 0, w: 0, h: 0,
+        title: heading ? heading[1].trim() : 'Note',
+        content: (heading ? source.slice(heading[0].length) : source).trim()
+    };
+};
+
+const nodeToBlock = (node: JsonCanvasNode): BlockData => {
+    let block: BlockData;
+    switch (node.type) {
+        case 'file': {
+            const file = node.file || '';
+            block = IMAGE_PATH_RE.test(file)
+                ? { id: '', type: 'image', x: 0, y: 0, w: 0, h: 0, title: baseName(file), content: file }
+                : { id: '', type: 'text', x: 0, y: 0, w: 0, h: 0, title: baseName(file) || 'File', content: markdownToHtml(`\`${file}\``) };
+            break;
+        }
+        case 'link': {
+            const url = node.url || '';
+            let host = url;
+            try { host = new URL(url).hostname; } catch { /* keep the raw url */ }
+            block = IMAGE_PATH_RE.test(url)
+                ? { id: '', type: 'image', x: 0, y: 0, w: 0, h: 0, title: host || 'Image', content: url }
+                : { id: '', type: 'text', x: 0, y: 0, w: 0, h: 0, title: host || 'Link', content: `<div><a href="${escapeHtml(sanitizeUrl(url))}">${escapeHtml(url)}</a></div>` };
+            break;
+        }
+        case 'group':
+            block = {
+                id: '', type: 'frame', x: 0, y: 0, w: 0, h: 0, title: node.label || 'Group', content: '',
+                color: parseColor(node.color) || DEFAULT_FRAME_COLOR
+            };
+            break;
+        default:
+            block = textNodeToBlock(node.text || '');
+    }
+
+    // The node geometry always wins over the sizes estimated from content
+    return {
+        ...block,
+        id: uuidv4(),
+        x: Number(node.x) || 0,
+        y: Number(node.y) || 0,
+        w: Math.max(50, Number(node.width) || 240),
+        h: Math.max(50, Number(node.height) || 120)
+    };
+};
+
+// Builds a new page from a parsed .canvas file. Node ids are replaced so a board can be
+// imported twice without clashing; edges are remapped and keep their sides.
+export const jsonCanvasToPage = (raw: unknown, name: string): Page => {
+    const canvas = raw as Partial<JsonCanvas> | null;
+    if (!canvas || typeof canvas !== 'object' || !Array.isArray(canvas.nodes)) {
+        throw new Error('Not a JSON Canvas file');
+    }
+
+    const nodes = canvas.nodes.filter(n => n && typeof n === 'object' && typeof n.id === 'string');
+    // Groups sit behind their contents, and blocks render in array order
+    const ordered = [...nodes.filter(n => n.type === 'group'), ...nodes.filter(n => n.type !== 'group')];
+
+    const idMap = new Map<string, string>();
+    const nodeBlocks = ordered.map(node => {
+        const block = nodeToBlock(node);
+        idMap.set(node.id, block.id);
+        return block;
+    });
+    // Group membership is implicit in the format: a node belongs to the group it sits in
+    const blocks = updateFrameMembership(nodeBlocks, nodeBlocks.map(b => b.id));
+
+    const edges: Edge[] = (Array.isArray(canvas.edges) ? canvas.edges : [])
+        .filter(e => e && idMap.has(e.fromNode) && idMap.has(e.toNode))
+        .map(e => {
+            const kind = EDGE_KINDS.some(k => k.kind === e.kind) && e.kind !== 'default' ? e.kind : undefined;
+            // Typed edges were exported with their kind's look; only real overrides are kept
+            const defaults = getEdgeKindInfo(kind).style;
+            const color = parseColor(e.color);
+            const arrowheads = e.toEnd === 'none' ? 'none' : e.fromEnd === 'arrow' ? 'both' : 'end';
+            return {
+                id: uuidv4(),
+                fromId: idMap.get(e.fromNode)!,
+                toId: idMap.get(e.toNode)!,
+                fromHandle: SIDES.includes(e.fromSide as JsonCanvasSide) ? e.fromSide! : 'right',
+                toHandle: SIDES.includes(e.toSide as JsonCanvasSide) ? e.toSide! : 'left',
+                ...(typeof e.label === 'string' && e.label ? { label: e.label } : {}),
+                ...(kind ? { kind } : {}),
+                ...(color && !(kind && color === defaults.color) ? { color } : {}),
+                // Spec defaults: no arrow at the start, an arrow at the end
+                ...(kind && arrowheads === defaults.arrowheads ? {} : { arrowheads })
+            };
+        });
+
+    const page = createPage(name, blocks, edges);
+    // Obsidian boards are often centred on the origin; open the page at its top-left content
+    const bounds = getBlocksBounds(blocks);
+    if (bounds) page.canvas = { scale: 1, pan: { x: 80 - bounds.x, y: 120 - bounds.y } };
+    return page;
+};
@@ -0,0 +1,319 @@
+import { BlockData, Edge, HandleType, Point } from "../types";
+
+// Automatic placement of connected blocks. Every layout works on the edge graph between
+// the given blocks and returns target positions plus the handles each edge should use so
+// connections leave and enter blocks in the direction of the flow.
+
+export type LayoutMode = 'flow-down' | 'flow-right' | 'tree' | 'force';
+
+export interface LayoutResult {
+    positions: Map<string, Point>;
+    handles: Map<string, { fromHandle: HandleType, toHandle: HandleType }>;
+}
+
+export const LAYOUT_MODES: { mode: LayoutMode, label: string }[] = [
+    { mode: 'flow-down', label: 'Flow (top-down)' },
+    { mode: 'flow-right', label: 'Flow (left-right)' },
+    { mode: 'tree', label: 'Tree' },
+    { mode: 'force', label: 'Force-directed' }
+];
+
+const LAYER_GAP = 100;
+const SIBLING_GAP = 60;
+const ORDERING_SWEEPS = 8;
+const FORCE_ITERATIONS = 300;
+
+interface Graph {
+    nodes: BlockData[];
+    byId: Map<string, BlockData>;
+    edges: Edge[];
+    outgoing: Map<string, string[]>;
+    incoming: Map<string, string[]>;
+}
+
+const buildGraph = (blocks: BlockData[], edges: Edge[]): Graph => {
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    const graphEdges = edges.filter(e => e.fromId !== e.toId && byId.has(e.fromId) && byId.has(e.toId));
+    const outgoing = new Map(blocks.map(b => [b.id, [] as string[]]));
+    const incoming = new Map(blocks.map(b => [b.id, [] as string[]]));
+    graphEdges.forEach(e => {
+        outgoing.get(e.fromId)!.push(e.toId);
+        incoming.get(e.toId)!.push(e.fromId);
+    });
+    return { nodes: blocks, byId, edges: graphEdges, outgoing, incoming };
+};
+
+// Nodes without incoming edges come first, so roots are picked the way a reader would
+const sourcesFirst = (graph: Graph) =>
+    [...graph.nodes].sort((a, b) => graph.incoming.get(a.id)!.length - graph.incoming.get(b.id)!.length);
+
+// Handles that make an edge point from `from` towards `to`, along the dominant axis
+const handlesBetween = (from: BlockData, to: BlockData): { fromHandle: HandleType, toHandle: HandleType } => {
+    const dx = (to.x + to.w / 2) - (from.x + from.w / 2);
+    const dy = (to.y + to.h / 2) - (from.y + from.h / 2);
+    if (Math.abs(dx) > Math.abs(dy)) {
+        return dx > 0 ? { fromHandle: 'right', toHandle: 'left' } : { fromHandle: 'left', toHandle: 'right' };
+    }
+    return dy > 0 ? { fromHandle: 'bottom', toHandle: 'top' } : { fromHandle: 'top', toHandle: 'bottom' };
+};
+
+const handlesForPositions = (graph: Graph, positions: Map<string, Point>) => {
+    const moved = (id: string) => ({ ...graph.byId.get(id)!, ...positions.get(id) });
+    return new Map(graph.edges.map(e => [e.id, handlesBetween(moved(e.fromId), moved(e.toId))]));
+};
+
+// -- Layered --
+
+// Longest-path ranking over the graph with back edges (found by DFS) ignored, so cycles still get layers
+const rankNodes = (graph: Graph): Map<string, number> => {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const forward = new Map(graph.nodes.map(n => [n.id, [] as string[]]));
+
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        graph.outgoing.get(id)!.forEach(next => {
+            if (state.get(next) === 'visiting') return;
+            forward.get(id)!.push(next);
+            if (!state.has(next)) visit(next);
+        });
+        state.set(id, 'done');
+    };
+    sourcesFirst(graph).forEach(n => { if (!state.has(n.id)) visit(n.id); });
+
+    const ranks = new Map<string, number>();
+    const rankOf = (id: string, parents: Map<string, string[]>): number => {
+        if (ranks.has(id)) return ranks.get(id)!;
+        ranks.set(id, 0);
+        const rank = Math.max(0, ...(parents.get(id) || []).map(p => rankOf(p, parents) + 1));
+        ranks.set(id, rank);
+        return rank;
+    };
+    const parents = new Map(graph.nodes.map(n => [n.id, [] as string[]]));
+    forward.forEach((targets, from) => targets.forEach(to => parents.get(to)!.push(from)));
+    graph.nodes.forEach(n => rankOf(n.id, parents));
+    return ranks;
+};
+
+// Barycenter sweeps: each node moves towards the average position of its neighbours in the adjacent layer
+const orderLayers = (graph: Graph, layers: string[][]) => {
+    const indexIn = (layer: string[]) => new Map(layer.map((id, i) => [id, i]));
+    const sortByNeighbours = (layer: string[], reference: string[], neighbours: Map<string, string[]>) => {
+        const refIndex = indexIn(reference);
+        const current = indexIn(layer);
+        const weight = (id: string) => {
+            const positions = neighbours.get(id)!.filter(n => refIndex.has(n)).map(n => refIndex.get(n)!);
+            return positions.length ? positions.reduce((a, b) => a + b, 0) / positions.length : current.get(id)!;
+        };
+        const weights = new Map(layer.map(id => [id, weight(id)]));
+        layer.sort((a, b) => weights.get(a)! - weights.get(b)! || current.get(a)! - current.get(b)!);
+    };
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+        if (sweep % 2 === 0) {
+            for (let i = 1; i < layers.length; i++) sortByNeighbours(layers[i], layers[i - 1], graph.incoming);
+        } else {
+            for (let i = layers.length - 2; i >= 0; i--) sortByNeighbours(layers[i], layers[i + 1], graph.outgoing);
+        }
+    }
+};
+
+const layeredLayout = (graph: Graph, direction: 'down' | 'right'): LayoutResult => {
+    const ranks = rankNodes(graph);
+    const layers: string[][] = [];
+    sourcesFirst(graph).forEach(n => {
+        const rank = ranks.get(n.id)!;
+        (layers[rank] = layers[rank] || []).push(n.id);
+    });
+    orderLayers(graph, layers);
+
+    const down = direction === 'down';
+    const along = (b: BlockData) => down ? b.h : b.w;
+    const across = (b: BlockData) => down ? b.w : b.h;
+
+    const positions = new Map<string, Point>();
+    let offset = 0;
+    layers.forEach(layer => {
+        const nodes = layer.map(id => graph.byId.get(id)!);
+        const depth = Math.max(...nodes.map(along));
+        const breadth = nodes.reduce((sum, b) => sum + across(b), 0) + SIBLING_GAP * (nodes.length - 1);
+        // Layers are centred on a common axis
+        let cursor = -breadth / 2;
+        nodes.forEach(b => {
+            const lane = offset + (depth - along(b)) / 2;
+            positions.set(b.id, down ? { x: cursor, y: lane } : { x: lane, y: cursor });
+            cursor += across(b) + SIBLING_GAP;
+        });
+        offset += depth + LAYER_GAP;
+    });
+
+    // Edges follow the flow, back edges run against it and edges within a layer run sideways
+    const sideways = handlesForPositions(graph, positions);
+    const handles: LayoutResult['handles'] = new Map();
+    graph.edges.forEach(e => {
+        const step = ranks.get(e.toId)! - ranks.get(e.fromId)!;
+        if (step > 0) handles.set(e.id, down ? { fromHandle: 'bottom', toHandle: 'top' } : { fromHandle: 'right', toHandle: 'left' });
+        else if (step < 0) handles.set(e.id, down ? { fromHandle: 'top', toHandle: 'bottom' } : { fromHandle: 'left', toHandle: 'right' });
+        else handles.set(e.id, sideways.get(e.id)!);
+    });
+    return { positions, handles };
+};
+
+// -- Tree --
+
+// Spanning tree from the sources outwards; each subtree gets a band as wide as its leaves
+// and the parent is centred above its children.
+const treeLayout = (graph: Graph): LayoutResult => {
+    const children = new Map(graph.nodes.map(n => [n.id, [] as string[]]));
+    const visited = new Set<string>();
+    const roots: string[] = [];
+
+    sourcesFirst(graph).forEach(n => {
+        if (visited.has(n.id)) return;
+        roots.push(n.id);
+        visited.add(n.id);
+        const queue = [n.id];
+        while (queue.length) {
+            const id = queue.shift()!;
+            // Undirected reach, so blocks only linked "upwards" still join the tree
+            [...graph.outgoing.get(id)!, ...graph.incoming.get(id)!].forEach(next => {
+                if (visited.has(next)) return;
+                visited.add(next);
+                children.get(id)!.push(next);
+                queue.push(next);
+            });
+        }
+    });
+
+    const widths = new Map<string, number>();
+    const subtreeWidth = (id: string): number => {
+        const own = graph.byId.get(id)!.w;
+        const kids = children.get(id)!;
+        const kidsWidth = kids.reduce((sum, k) => sum + subtreeWidth(k), 0) + SIBLING_GAP * Math.max(0, kids.length - 1);
+        const width = Math.max(own, kidsWidth);
+        widths.set(id, width);
+        return width;
+    };
+
+    // Rows share a height per depth so siblings line up
+    const rowHeights: number[] = [];
+    const measureDepth = (id: string, depth: number) => {
+        rowHeights[depth] = Math.max(rowHeights[depth] || 0, graph.byId.get(id)!.h);
+        children.get(id)!.forEach(k => measureDepth(k, depth + 1));
+    };
+    roots.forEach(r => { subtreeWidth(r); measureDepth(r, 0); });
+    const rowTops: number[] = [];
+    rowHeights.forEach((_, i) => { rowTops[i] = i === 0 ? 0 : rowTops[i - 1] + rowHeights[i - 1] + LAYER_GAP; });
+
+    const positions = new Map<string, Point>();
+    const place = (id: string, left: number, depth: number) => {
+        const block = graph.byId.get(id)!;
+        const width = widths.get(id)!;
+        positions.set(id, { x: left + (width - block.w) / 2, y: rowTops[depth] });
+        const kids = children.get(id)!;
+        const kidsWidth = kids.reduce((sum, k) => sum + widths.get(k)!, 0) + SIBLING_GAP * Math.max(0, kids.length - 1);
+        let cursor = left + (width - kidsWidth) / 2;
+        kids.forEach(k => {
+            place(k, cursor, depth + 1);
+            cursor += widths.get(k)! + SIBLING_GAP;
+        });
+    };
+    let left = 0;
+    roots.forEach(r => {
+        place(r, left, 0);
+        left += widths.get(r)! + SIBLING_GAP * 2;
+    });
+
+    // Tree edges run straight down (or up, when drawn child to parent); the rest follow the geometry
+    const handles = handlesForPositions(graph, positions);
+    graph.edges.forEach(e => {
+        if (children.get(e.fromId)!.includes(e.toId)) handles.set(e.id, { fromHandle: 'bottom', toHandle: 'top' });
+        else if (children.get(e.toId)!.includes(e.fromId)) handles.set(e.id, { fromHandle: 'top', toHandle: 'bottom' });
+    });
+    return { positions, handles };
+};
+
+// -- Force-directed --
+
+// Spring embedding starting from the current arrangement: connected blocks attract, all
+// blocks repel, with distances measured between block centres and padded by block size.
+const forceLayout = (graph: Graph): LayoutResult => {
+    const nodes = graph.nodes;
+    const centre = new Map(nodes.map(b => [b.id, { x: b.x + b.w / 2, y: b.y + b.h / 2 }]));
+    const radius = new Map(nodes.map(b => [b.id, Math.hypot(b.w, b.h) / 2]));
+    const idealLength = (a: string, b: string) => radius.get(a)! + radius.get(b)! + LAYER_GAP;
+
+    let temperature = 200;
+    for (let i = 0; i < FORCE_ITERATIONS; i++) {
+        const force = new Map(nodes.map(b => [b.id, { x: 0, y: 0 }]));
+
+        for (let a = 0; a < nodes.length; a++) {
+            for (let b = a + 1; b < nodes.length; b++) {
+                const pa = centre.get(nodes[a].id)!;
+                const pb = centre.get(nodes[b].id)!;
+                let dx = pa.x - pb.x;
+                let dy = pa.y - pb.y;
+                // Coincident blocks get nudged apart deterministically
+                if (dx === 0 && dy === 0) { dx = a - b; dy = 1; }
+                const dist = Math.hypot(dx, dy);
+                const k = idealLength(nodes[a].id, nodes[b].id);
+                const push = (k * k) / dist;
+                const fa = force.get(nodes[a].id)!;
+                const fb = force.get(nodes[b].id)!;
+                fa.x += (dx / dist) * push; fa.y += (dy / dist) * push;
+                fb.x -= (dx / dist) * push; fb.y -= (dy / dist) * push;
+            }
+        }
+
+        graph.edges.forEach(e => {
+            const pa = centre.get(e.fromId)!;
+            const pb = centre.get(e.toId)!;
+            const dx = pb.x - pa.x;
+            const dy = pb.y - pa.y;
+            const dist = Math.max(1, Math.hypot(dx, dy));
+            const pull = (dist * dist) / idealLength(e.fromId, e.toId);
+            const fa = force.get(e.fromId)!;
+            const fb = force.get(e.toId)!;
+            fa.x += (dx / dist) * pull; fa.y += (dy / dist) * pull;
+            fb.x -= (dx / dist) * pull; fb.y -= (dy / dist) * pull;
+        });
+
+        nodes.forEach(b => {
+            const f = force.get(b.id)!;
+            const magnitude = Math.hypot(f.x, f.y);
+            if (magnitude === 0) return;
+            const step = Math.min(magnitude, temperature);
+            const p = centre.get(b.id)!;
+            p.x += (f.x / magnitude) * step;
+            p.y += (f.y / magnitude) * step;
+        });
+        temperature = Math.max(1, temperature * 0.97);
+    }
+
+    const positions = new Map(nodes.map(b => {
+        const p = centre.get(b.id)!;
+        return [b.id, { x: p.x - b.w / 2, y: p.y - b.h / 2 }];
+    }));
+    return { positions, handles: handlesForPositions(graph, positions) };
+};
+
+// Lays out the connected blocks among `blocks`; blocks without edges are left where they are.
+// The result keeps the top-left corner of the laid-out blocks where it was before.
+export const computeLayout = (blocks: BlockData[], edges: Edge[], mode: LayoutMode): LayoutResult => {
+    const graph = buildGraph(blocks, edges);
+    const linked = new Set(graph.edges.flatMap(e => [e.fromId, e.toId]));
+    const nodes = blocks.filter(b => linked.has(b.id));
+    if (nodes.length < 2) return { positions: new Map(), handles: new Map() };
+    const scoped = buildGraph(nodes, graph.edges);
+
+    const result = mode === 'tree' ? treeLayout(scoped)
+        : mode === 'force' ? forceLayout(scoped)
+        : layeredLayout(scoped, mode === 'flow-down' ? 'down' : 'right');
+
+    const originX = Math.min(...nodes.map(b => b.x));
+    const originY = Math.min(...nodes.map(b => b.y));
+    const laidOut = Array.from(result.positions.values());
+    const shiftX = originX - Math.min(...laidOut.map(p => p.x));
+    const shiftY = originY - Math.min(...laidOut.map(p => p.y));
+    result.positions.forEach(p => { p.x = Math.round(p.x + shiftX); p.y = Math.round(p.y + shiftY); });
+    return result;
+};
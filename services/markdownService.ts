@@ -0,0 +1,633 @@
+import { BlockData, ChecklistItem, CodeLanguage, ColumnType, Edge, Page, Point, TableContent } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { topologicalOrder } from './graphService';
+import { normalizeLevels } from './checklistService';
+import { computeTable, formatCell, inferColumnType } from './tableService';
+import { resolveLanguage } from './syntaxService';
+
+// -- HTML -> Markdown (content of RichTextEditor blocks) --
+
+// '_' inside a word (snake_case) is not emphasis, so only word-edge underscores need escaping
+const escapeMarkdown = (text: string) => text.replace(/([\\`*[\]])/g, '\\$1').replace(/(?<!\w)_|_(?!\w)/g, '\\_');
+
+// Spaces and parentheses would end the (url) part early
+const markdownUrl = (url: string) => url.replace(/[\s()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+
+// Keeps surrounding whitespace outside the markers: "** bold**" is not valid emphasis
+const wrapInline = (marker: string, text: string) => {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+const longestRun = (text: string, char: string) =>
+    Math.max(0, ...(text.match(new RegExp(`\\${char}+`, 'g')) || []).map(run => run.length));
+
+const fence = (code: string, language = '') => {
+    const ticks = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+    return `${ticks}${language}\n${code.replace(/\n$/, '')}\n${ticks}`;
+};
+
+const convertNode = (node: Node, listDepth: number): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+    }
+    if (!(node instanceof HTMLElement)) return '';
+
+    const children = () => Array.from(node.childNodes).map(child => convertNode(child, listDepth)).join('');
+
+    switch (node.tagName) {
+        case 'B':
+        case 'STRONG':
+            return wrapInline('**', children());
+        case 'I':
+        case 'EM':
+            return wrapInline('*', children());
+        case 'S':
+        case 'STRIKE':
+        case 'DEL':
+            return wrapInline('~~', children());
+        case 'U':
+            // Markdown has no underline; inline HTML survives in most renderers
+            return `<u>${children()}</u>`;
+        case 'CODE':
+            return `\`${node.textContent || ''}\``;
+        case 'A': {
+            const href = node.getAttribute('href');
+            return href ? `[${children()}](${markdownUrl(href)})` : children();
+        }
+        case 'IMG':
+            return `![${node.getAttribute('alt') || ''}](${markdownUrl(node.getAttribute('src') || '')})`;
+        case 'BR':
+            return '\n';
+        case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+            return `\n\n${'#'.repeat(Number(node.tagName[1]))} ${children().trim()}\n\n`;
+        case 'PRE': {
+            const language = node.querySelector('code')?.className.match(/language-([\w+#.-]+)/)?.[1];
+            return `\n\n${fence(node.textContent || '', language)}\n\n`;
+        }
+        case 'INPUT':
+            // Task list items rendered from Markdown
+            return (node as HTMLInputElement).type === 'checkbox' ? `[${(node as HTMLInputElement).checked ? 'x' : ' '}]` : '';
+        case 'TABLE': {
+            const rows = Array.from(node.querySelectorAll('tr')).map(tr =>
+                Array.from(tr.children).map(cell => tableCell(Array.from(cell.childNodes).map(child => convertNode(child, listDepth)).join(''))));
+            if (rows.length === 0) return '';
+            const width = Math.max(...rows.map(r => r.length));
+            const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || ' ').join(' | ')} |`;
+            return `\n\n${[line(rows[0]), line(new Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')}\n\n`;
+        }
+        case 'BLOCKQUOTE':
+            return `\n\n${children().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+        case 'UL':
+        case 'OL': {
+            const indent = '  '.repeat(listDepth);
+            const items = Array.from(node.children)
+                .filter(li => li.tagName === 'LI')
+                .map((li, i) => {
+                    const marker = node.tagName === 'OL' ? `${i + 1}.` : '-';
+                    const text = Array.from(li.childNodes).map(child => convertNode(child, listDepth + 1)).join('').trim();
+                    return `${indent}${marker} ${text}`;
+                });
+            return `\n${items.join('\n')}\n`;
+        }
+        case 'P':
+        case 'DIV':
+            // contentEditable wraps every new line in a <div>
+            return `\n${children()}\n`;
+        default:
+            return children();
+    }
+};
+
+export const htmlToMarkdown = (html: string): string => {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    return convertNode(container, 0)
+        .split('\n')
+        .map(line => line.replace(/\s+$/, ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+// -- Blocks -> Markdown --
+
+const tableCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, '<br>').trim();
+
+const tableToMarkdown = (table: TableContent): string => {
+    if (table.headers.length === 0) return '';
+    const types = table.columnTypes || [];
+    // Formula columns are written out as their current values
+    const computed = computeTable(table);
+    const header = `| ${table.headers.map(h => tableCell(h) || ' ').join(' | ')} |`;
+    const divider = `| ${table.headers.map((_, i) => types[i] === 'number' || types[i] === 'formula' ? '---:' : '---').join(' | ')} |`;
+    const rows = table.rows.map((row, r) =>
+        `| ${table.headers.map((_, i) => {
+            const cell = row[i] ?? '';
+            return types[i] === 'checkbox' ? (cell === 'true' ? '[x]' : '[ ]') : tableCell(formatCell(table, computed, r, i));
+        }).join(' | ')} |`
+    );
+    return [header, divider, ...rows].join('\n');
+};
+
+// Sub-items are indented two spaces per level; due dates use the 📅 marker of Obsidian Tasks
+const checklistToMarkdown = (items: ChecklistItem[]) =>
+    items.map(item =>
+        `${'  '.repeat(item.level || 0)}- [${item.checked ? 'x' : ' '}] ${item.text}${item.dueDate ? ` 📅 ${item.dueDate}` : ''}`
+    ).join('\n');
+
+export const blockToMarkdown = (block: BlockData, headingLevel = 2): string => {
+    const heading = block.title ? `${'#'.repeat(headingLevel)} ${block.title}\n\n` : '';
+    let body = '';
+
+    switch (block.type) {
+        case 'text':
+            body = htmlToMarkdown(block.content as string);
+            break;
+        case 'markdown':
+            body = block.content as string;
+            break;
+        case 'code':
+            body = fence(block.content as string, block.language && block.language !== 'plaintext' ? block.language : '');
+            break;
+        case 'checklist':
+            body = checklistToMarkdown(block.content as ChecklistItem[]);
+            break;
+        case 'table':
+            body = tableToMarkdown(block.content as TableContent);
+            break;
+        case 'image':
+            body = block.content ? `![${block.title || 'Image'}](${block.content as string})` : '';
+            break;
+    }
+
+    return `${heading}${body}`.trim();
+};
+
+// Blocks follow the edge flow; anything unconnected is read top-to-bottom, left-to-right.
+// A frame becomes a heading with its contents as the section below it, one level deeper.
+export const pageToMarkdown = (page: Page, headingLevel = 2): string => {
+    const ids = new Set(page.blocks.map(b => b.id));
+    const ordered = topologicalOrder(page.blocks, page.edges);
+    const parentOf = (block: BlockData) => block.frameId && ids.has(block.frameId) ? block.frameId : undefined;
+
+    const renderLevel = (frameId: string | undefined, level: number): string =>
+        ordered
+            .filter(block => parentOf(block) === frameId)
+            .map(block => block.type === 'frame'
+                ? [blockToMarkdown(block, level), renderLevel(block.id, Math.min(6, level + 1))].filter(Boolean).join('\n\n')
+                : blockToMarkdown(block, level))
+            .filter(Boolean)
+            .join('\n\n');
+
+    return renderLevel(undefined, headingLevel);
+};
+
+export const workspaceToMarkdown = (name: string, pages: Page[]): string => {
+    const sections = pages.length === 1
+        ? [pageToMarkdown(pages[0], 2)]
+        : pages.map(page => `## ${page.name}\n\n${pageToMarkdown(page, 3)}`.trim());
+    return `# ${name}\n\n${sections.filter(Boolean).join('\n\n')}\n`;
+};
+
+// -- Markdown / plain text -> Blocks --
+
+export type ParsedSection =
+    | { kind: 'text', title?: string, html: string }
+    | { kind: 'checklist', title?: string, items: ChecklistItem[] }
+    | { kind: 'table', title?: string, table: TableContent }
+    | { kind: 'code', title?: string, code: string, language?: CodeLanguage };
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// Links from files and Markdown are limited to http(s), mailto, relative and '#' URLs; anything
+// else (javascript: and the like) becomes '#'. Control characters and whitespace are dropped
+// first because the browser's URL parser skips them too.
+export const sanitizeUrl = (url: string): string => {
+    const cleaned = url.replace(/[\u0000-\u001f\u007f\s]/g, '');
+    try {
+        return SAFE_PROTOCOLS.has(new URL(cleaned, location.href).protocol) ? cleaned : '#';
+    } catch {
+        return '#';
+    }
+};
+
+// Images may also be inline data URLs, which cannot run script from an <img>
+const sanitizeImageUrl = (url: string): string => /^data:image\//i.test(url.trim()) ? url.trim() : sanitizeUrl(url);
+
+// A URL may hold one level of balanced parentheses, as in wiki/Foo_(bar)
+const INLINE_URL = String.raw`((?:[^()\s]|\([^()\s]*\))+)`;
+const INLINE_IMAGE_RE = new RegExp(String.raw`!\[([^\]]*)\]\(${INLINE_URL}\)`, 'g');
+const INLINE_LINK_RE = new RegExp(String.raw`\[([^\]]+)\]\(${INLINE_URL}\)`, 'g');
+
+const unescapeMarkdown = (text: string) => text.replace(/\\([\\`*_[\]|#>-])/g, '$1');
+
+// Inline Markdown -> the HTML subset RichTextEditor produces
+export const inlineMarkdownToHtml = (text: string): string => {
+    // Code spans, images and link tags are set aside before the emphasis rules run, so URLs
+    // and alt text keep their '_' and '*'
+    const held: string[] = [];
+    const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+    const restore = (html: string): string => html.replace(/\u0000(\d+)\u0000/g, (_, i) => restore(held[Number(i)]));
+
+    const html = escapeHtml(text)
+        .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${code}</code>`))
+        .replace(INLINE_IMAGE_RE, (_, alt, src) => hold(`<img alt="${unescapeMarkdown(alt)}" src="${sanitizeImageUrl(src)}">`))
+        .replace(INLINE_LINK_RE, (_, text, href) => `${hold(`<a href="${sanitizeUrl(href)}">`)}${text}</a>`)
+        .replace(/(?<!\\)\*\*([^*]+)\*\*|(?<![\w\\])__([^_]+)__(?!\w)/g, (_, a, b) => `<b>${a ?? b}</b>`)
+        // Underscores inside a word (snake_case) are not emphasis
+        .replace(/(?<!\\)\*([^*]+)\*|(?<![\w\\])_([^_]+)_(?!\w)/g, (_, a, b) => `<i>${a ?? b}</i>`)
+        .replace(/~~([^~]+)~~/g, '<s>$1</s>');
+    return restore(unescapeMarkdown(html));
+};
+
+const TASK_RE = /^(\s*)[-*+]\s+\[( |x|X)\]\s?(.*)$/;
+const DUE_DATE_RE = /\s*📅\s*(\d{4}-\d{2}-\d{2})\s*$/;
+const LIST_RE = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const TABLE_DIVIDER_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] => {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|').replace(/<br\s*\/?>/gi, '\n'));
+};
+
+const parseTable = (headerLine: string, rowLines: string[]): TableContent => {
+    const headers = splitTableRow(headerLine);
+    const rows = rowLines.map(line => {
+        const cells = splitTableRow(line).slice(0, headers.length);
+        while (cells.length < headers.length) cells.push('');
+        return cells;
+    });
+
+    // A column where every cell is [ ] / [x] round-trips as a checkbox column
+    const isCheckboxColumn = (i: number) => rows.length > 0 && rows.every(r => /^\[( |x|X)?\]$/.test(r[i]));
+    // ...and one holding only numbers or dates comes back typed
+    const columnTypes = headers.map((_, i): ColumnType => {
+        if (isCheckboxColumn(i)) return 'checkbox';
+        const inferred = inferColumnType(rows.map(r => r[i]));
+        return inferred === 'checkbox' ? 'text' : inferred;
+    });
+    const normalizedRows = rows.map(r => r.map((cell, i) => columnTypes[i] === 'checkbox' ? String(/x/i.test(cell)) : cell));
+
+    return { headers, rows: normalizedRows, columnTypes };
+};
+
+const paragraphLinesToHtml = (lines: string[]): string => {
+    const parts: string[] = [];
+    let list: { ordered: boolean, items: string[] } | null = null;
+
+    const flushList = () => {
+        if (!list) return;
+        const tag = list.ordered ? 'ol' : 'ul';
+        parts.push(`<${tag}>${list.items.map(i => `<li>${inlineMarkdownToHtml(i)}</li>`).join('')}</${tag}>`);
+        list = null;
+    };
+
+    lines.forEach(line => {
+        const heading = line.match(HEADING_RE);
+        if (heading) {
+            flushList();
+            parts.push(`<h${heading[1].length}>${inlineMarkdownToHtml(heading[2])}</h${heading[1].length}>`);
+            return;
+        }
+        const listMatch = line.match(LIST_RE);
+        if (listMatch) {
+            const ordered = /\d/.test(listMatch[1]);
+            if (!list || list.ordered !== ordered) {
+                flushList();
+                list = { ordered, items: [] };
+            }
+            list.items.push(listMatch[2]);
+            return;
+        }
+        flushList();
+        const text = line.replace(/^\s*>\s?/, '');
+        parts.push(text.trim() ? `<div>${inlineMarkdownToHtml(text)}</div>` : '<div><br></div>');
+    });
+    flushList();
+
+    return parts.join('');
+};
+
+// Renders Markdown line by line into a single rich-text body, for sources that should stay one block
+export const markdownToHtml = (source: string): string =>
+    paragraphLinesToHtml(source.replace(/\r\n?/g, '\n').trim().split('\n'));
+
+// -- Markdown -> document HTML (preview of markdown blocks) --
+
+const RULE_RE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s*>\s?(.*)$/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+interface ListLine {
+    indent: number;
+    ordered: boolean;
+    start: number;
+    text: string;
+}
+
+const indentOf = (whitespace: string) => whitespace.replace(/\t/g, '  ').length;
+
+// A trailing backslash or two trailing spaces force a line break
+const paragraphToHtml = (lines: string[]) =>
+    lines.map((line, i) => {
+        const hardBreak = i < lines.length - 1 && /(\\| {2,})$/.test(line);
+        return inlineMarkdownToHtml(line.trim().replace(/\\$/, '')) + (hardBreak ? '<br>' : '');
+    }).join('\n');
+
+const listItemToHtml = (text: string) => {
+    const task = text.match(/^\[( |x|X)\]\s+(.*)$/);
+    return task
+        ? `<li class="task"><input type="checkbox" disabled${task[1] !== ' ' ? ' checked' : ''}> ${inlineMarkdownToHtml(task[2])}`
+        : `<li>${inlineMarkdownToHtml(text)}`;
+};
+
+// One list from `from`, with deeper-indented items nested inside the item before them.
+// Returns the HTML and the index of the first item it did not take.
+const listToHtml = (items: ListLine[], from: number): [string, number] => {
+    const { indent, ordered, start } = items[from];
+    let html = '';
+    let i = from;
+    while (i < items.length && items[i].indent >= indent) {
+        if (items[i].indent > indent && html) {
+            const [nested, next] = listToHtml(items, i);
+            html += nested;
+            i = next;
+            continue;
+        }
+        if (items[i].ordered !== ordered) break;
+        html += `${html ? '</li>' : ''}${listItemToHtml(items[i].text)}`;
+        i++;
+    }
+    const tag = ordered ? 'ol' : 'ul';
+    return [`<${tag}${ordered && start !== 1 ? ` start="${start}"` : ''}>${html}</li></${tag}>`, i];
+};
+
+const tableToHtml = (headerLine: string, dividerLine: string, rowLines: string[]) => {
+    const headers = splitTableRow(headerLine);
+    const aligns = splitTableRow(dividerLine).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : '');
+    const cell = (tag: string, text: string, i: number) =>
+        `<${tag}${aligns[i] ? ` style="text-align:${aligns[i]}"` : ''}>${inlineMarkdownToHtml(text).replace(/\n/g, '<br>')}</${tag}>`;
+    const body = rowLines.map(line => {
+        const cells = splitTableRow(line);
+        return `<tr>${headers.map((_, i) => cell('td', cells[i] ?? '', i)).join('')}</tr>`;
+    }).join('');
+    return `<table><thead><tr>${headers.map((h, i) => cell('th', h, i)).join('')}</tr></thead><tbody>${body}</tbody></table>`;
+};
+
+// Headings, paragraphs, nested and task lists, block quotes, fenced code, tables and rules.
+// Text is escaped before any markup is added and link URLs are allowlisted, so the result is
+// safe to insert as HTML.
+export const renderMarkdown = (source: string): string => {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const parts: string[] = [];
+    const isTableStart = (i: number) => lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER_RE.test(lines[i + 1]);
+    const startsBlock = (i: number) => HEADING_RE.test(lines[i]) || FENCE_RE.test(lines[i]) || RULE_RE.test(lines[i])
+        || QUOTE_RE.test(lines[i]) || LIST_ITEM_RE.test(lines[i]) || isTableStart(i);
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fenceMatch = line.match(FENCE_RE);
+        if (fenceMatch) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fenceMatch[1])) code.push(lines[i++]);
+            i++; // closing fence
+            const language = resolveLanguage(fenceMatch[2]);
+            parts.push(`<pre><code${language ? ` class="language-${language}"` : ''}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(HEADING_RE);
+        if (heading) {
+            parts.push(`<h${heading[1].length}>${inlineMarkdownToHtml(heading[2])}</h${heading[1].length}>`);
+            i++;
+            continue;
+        }
+
+        if (RULE_RE.test(line)) {
+            parts.push('<hr>');
+            i++;
+            continue;
+        }
+
+        if (isTableStart(i)) {
+            const rowLines: string[] = [];
+            const divider = lines[i + 1];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rowLines.push(lines[i++]);
+            parts.push(tableToHtml(line, divider, rowLines));
+            continue;
+        }
+
+        if (QUOTE_RE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_RE.test(lines[i])) quoted.push(lines[i++].match(QUOTE_RE)![1]);
+            parts.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM_RE.test(line)) {
+            // Indented lines that are not items continue the item above them
+            const items: ListLine[] = [];
+            while (i < lines.length) {
+                const item = lines[i].match(LIST_ITEM_RE);
+                if (item) {
+                    const number = parseInt(item[2], 10);
+                    items.push({ indent: indentOf(item[1]), ordered: !isNaN(number), start: isNaN(number) ? 1 : number, text: item[3] });
+                } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+                    items[items.length - 1].text += ` ${lines[i].trim()}`;
+                } else {
+                    break;
+                }
+                i++;
+            }
+            for (let from = 0; from < items.length;) {
+                const [html, next] = listToHtml(items, from);
+                parts.push(html);
+                from = next;
+            }
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(i))) paragraph.push(lines[i++]);
+        parts.push(`<p>${paragraphToHtml(paragraph)}</p>`);
+    }
+    return parts.join('');
+};
+
+export const parseMarkdown = (source: string): ParsedSection[] => {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const sections: ParsedSection[] = [];
+    let pendingTitle: string | undefined;
+    let paragraph: string[] = [];
+
+    const takeTitle = () => {
+        const title = pendingTitle;
+        pendingTitle = undefined;
+        return title;
+    };
+
+    // Consecutive paragraphs under one heading become a single text block
+    const flushParagraph = () => {
+        while (paragraph.length > 0 && !paragraph[paragraph.length - 1].trim()) paragraph.pop();
+        if (paragraph.length > 0) {
+            sections.push({ kind: 'text', title: takeTitle(), html: paragraphLinesToHtml(paragraph) });
+        }
+        paragraph = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        const heading = line.match(HEADING_RE);
+        if (heading) {
+            flushParagraph();
+            pendingTitle = heading[2];
+            i++;
+            continue;
+        }
+
+        const fenceMatch = line.match(FENCE_RE);
+        if (fenceMatch) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fenceMatch[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++; // closing fence
+            sections.push({ kind: 'code', title: takeTitle(), code: code.join('\n'), language: resolveLanguage(fenceMatch[2]) });
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER_RE.test(lines[i + 1])) {
+            flushParagraph();
+            const rowLines: string[] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                rowLines.push(lines[i]);
+                i++;
+            }
+            sections.push({ kind: 'table', title: takeTitle(), table: parseTable(line, rowLines) });
+            continue;
+        }
+
+        if (TASK_RE.test(line)) {
+            flushParagraph();
+            const items: ChecklistItem[] = [];
+            while (i < lines.length && TASK_RE.test(lines[i])) {
+                const [, indent, mark, rawText] = lines[i].match(TASK_RE)!;
+                const due = rawText.match(DUE_DATE_RE);
+                const level = Math.floor(indent.replace(/\t/g, '  ').length / 2);
+                items.push({
+                    id: uuidv4(),
+                    text: due ? rawText.slice(0, due.index) : rawText,
+                    checked: mark !== ' ',
+                    ...(level > 0 ? { level } : {}),
+                    ...(due ? { dueDate: due[1] } : {})
+                });
+                i++;
+            }
+            sections.push({ kind: 'checklist', title: takeTitle(), items: normalizeLevels(items) });
+            continue;
+        }
+
+        if (!line.trim()) {
+            // Blank lines separate paragraphs but keep them in the same block
+            if (paragraph.length > 0) paragraph.push('');
+        } else {
+            paragraph.push(line);
+        }
+        i++;
+    }
+    flushParagraph();
+
+    return sections;
+};
+
+export const parsePlainText = (source: string): ParsedSection[] =>
+    source
+        .replace(/\r\n?/g, '\n')
+        .split(/\n\s*\n/)
+        .map(chunk => chunk.trim())
+        .filter(Boolean)
+        .map(chunk => ({
+            kind: 'text' as const,
+            html: chunk.split('\n').map(line => `<div>${escapeHtml(line)}</div>`).join('')
+        }));
+
+// -- Layout --
+
+const GRID_COLUMNS = 3;
+const GRID_GAP = 80;
+
+export const sectionToBlock = (section: ParsedSection): BlockData => {
+    const base = { id: uuidv4(), x: 0, y: 0 };
+    switch (section.kind) {
+        case 'checklist':
+            return { ...base, type: 'checklist', title: section.title || 'Checklist', content: section.items,
+                w: 280, h: Math.min(600, 100 + section.items.length * 32) };
+        case 'table':
+            return { ...base, type: 'table', title: section.title || 'Table', content: section.table,
+                w: Math.max(320, section.table.headers.length * 110), h: Math.min(600, 110 + section.table.rows.length * 38) };
+        case 'code': {
+            const lineCount = section.code.split('\n').length;
+            return { ...base, type: 'code', title: section.title || 'Code Snippet', category: 'code', content: section.code,
+                ...(section.language ? { language: section.language } : {}),
+                w: 400, h: Math.min(500, 100 + lineCount * 20) };
+        }
+        case 'text': {
+            const approxLines = section.html.split(/<div>|<li>/).length + section.html.length / 45;
+            return { ...base, type: 'text', title: section.title || 'Note', content: section.html,
+                w: 320, h: Math.min(600, Math.max(120, Math.round(60 + approxLines * 20))) };
+        }
+    }
+};
+
+// Lays the sections out in a left-to-right grid starting at `origin` and chains them with
+// edges in document order, so the flow reads the same way the file did.
+export const sectionsToCanvas = (sections: ParsedSection[], origin: Point): { blocks: BlockData[], edges: Edge[] } => {
+    const blocks = sections.map(sectionToBlock);
+
+    let rowY = origin.y;
+    for (let row = 0; row * GRID_COLUMNS < blocks.length; row++) {
+        const rowBlocks = blocks.slice(row * GRID_COLUMNS, (row + 1) * GRID_COLUMNS);
+        let x = origin.x;
+        rowBlocks.forEach(b => {
+            b.x = x;
+            b.y = rowY;
+            x += b.w + GRID_GAP;
+        });
+        rowY += Math.max(...rowBlocks.map(b => b.h)) + GRID_GAP;
+    }
+
+    const edges: Edge[] = blocks.slice(1).map((to, i) => {
+        const from = blocks[i];
+        const sameRow = from.y === to.y;
+        return {
+            id: uuidv4(),
+            fromId: from.id,
+            toId: to.id,
+            fromHandle: sameRow ? 'right' : 'bottom',
+            toHandle: sameRow ? 'left' : 'top'
+        };
+    });
+
+    return { blocks, edges };
+};
@@ -0,0 +1,336 @@
+import { BlockData, BlockType, CanvasState, ChecklistItem, CodeLogLevel, CodeRunOutput, ColumnAggregate, ColumnConfig, ColumnType, Edge, EdgeArrowheads, EdgeKind, EdgeLineStyle, EdgeRouting, HandleType, Page, TableContent, Viewpoint, WorkspaceData } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeLevels } from './checklistService';
+import { MIN_COLUMN_WIDTH, SELECT_COLORS } from './tableService';
+import { CODE_LANGUAGES } from './syntaxService';
+
+// Workspace schema versions:
+//   1 - a single flat canvas ({ blocks, edges }), files and records without `schemaVersion`
+//   2 - an ordered list of pages, each with its own blocks, edges and viewport
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const BLOCK_TYPES: BlockType[] = ['text', 'image', 'checklist', 'code', 'table', 'frame', 'markdown'];
+const HANDLE_TYPES: HandleType[] = ['top', 'right', 'bottom', 'left'];
+const EDGE_KINDS: EdgeKind[] = ['default', 'depends-on', 'leads-to', 'references'];
+const EDGE_LINE_STYLES: EdgeLineStyle[] = ['solid', 'dashed'];
+const EDGE_ARROWHEADS: EdgeArrowheads[] = ['none', 'end', 'both'];
+const LOG_LEVELS: CodeLogLevel[] = ['log', 'info', 'warn', 'error'];
+const EDGE_ROUTINGS: EdgeRouting[] = ['bezier', 'straight', 'orthogonal'];
+const COLUMN_TYPES: ColumnType[] = ['text', 'checkbox', 'number', 'date', 'select', 'url', 'formula'];
+const AGGREGATES: ColumnAggregate[] = ['none', 'sum', 'avg', 'min', 'max', 'count'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Everything read from storage or a file starts out as unknown and is narrowed field by field
+type RawObject = Record<string, unknown>;
+
+// migrations[n] upgrades a raw workspace from version n to n + 1. Never edit a shipped
+// migration; add a new one and bump CURRENT_SCHEMA_VERSION instead.
+const migrations: Record<number, (raw: RawObject) => RawObject> = {
+    1: (raw) => {
+        const pageId = uuidv4();
+        const { blocks, edges, ...rest } = raw;
+        return {
+            ...rest,
+            pages: [{ id: pageId, name: 'Page 1', blocks: blocks || [], edges: edges || [] }],
+            activePageId: pageId
+        };
+    }
+};
+
+const detectVersion = (raw: RawObject): number => {
+    if (typeof raw.schemaVersion === 'number') return raw.schemaVersion;
+    return Array.isArray(raw.pages) ? 2 : 1;
+};
+
+// -- Validation & Repair --
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isOneOf = <T extends string>(values: readonly T[], v: unknown): v is T => values.includes(v as T);
+const toNumber = (v: unknown, fallback: number) => typeof v === 'number' && Number.isFinite(v) ? v : fallback;
+
+const repairTable = (content: unknown, repairs: string[], label: string): TableContent => {
+    const source: RawObject = isObject(content) ? content : {};
+    const headers: string[] = Array.isArray(source.headers) ? source.headers.map((h: unknown) => String(h ?? '')) : [];
+    const rawRows: unknown[][] = Array.isArray(source.rows) ? source.rows.filter((r: unknown): r is unknown[] => Array.isArray(r)) : [];
+
+    // A table needs at least one column to be editable
+    if (headers.length === 0) {
+        const width = Math.max(1, ...rawRows.map(r => r.length));
+        for (let i = 0; i < width; i++) headers.push(`COL ${i + 1}`);
+        repairs.push(`${label}: rebuilt missing table headers`);
+    }
+
+    let resized = false;
+    const rows = rawRows.map(row => {
+        const cells = row.slice(0, headers.length).map(c => String(c ?? ''));
+        if (row.length !== headers.length) resized = true;
+        while (cells.length < headers.length) cells.push('');
+        return cells;
+    });
+    if (resized) repairs.push(`${label}: padded or trimmed table rows to match headers`);
+
+    const table: TableContent = { headers, rows };
+    const rawTypes = source.columnTypes;
+    if (Array.isArray(rawTypes)) {
+        const columnTypes = headers.map((_, i): ColumnType => {
+            const type: unknown = rawTypes[i];
+            return isOneOf(COLUMN_TYPES, type) ? type : 'text';
+        });
+        if (rawTypes.length !== headers.length) repairs.push(`${label}: resized table column types`);
+        table.columnTypes = columnTypes;
+    }
+    const rawColumns = source.columns;
+    if (Array.isArray(rawColumns)) {
+        let dropped = false;
+        table.columns = headers.map((_, i) => {
+            const raw: unknown = rawColumns[i];
+            if (!isObject(raw)) return {};
+            const config: ColumnConfig = {};
+            if (typeof raw.formula === 'string') config.formula = raw.formula;
+            if (Array.isArray(raw.options)) {
+                const options = raw.options.flatMap((o: unknown) => isObject(o) && typeof o.value === 'string'
+                    ? [{ value: o.value, color: typeof o.color === 'string' ? o.color : SELECT_COLORS[0] }]
+                    : []);
+                if (options.length !== raw.options.length) dropped = true;
+                config.options = options;
+            }
+            if (isOneOf(AGGREGATES, raw.aggregate)) config.aggregate = raw.aggregate;
+            if (typeof raw.width === 'number' && Number.isFinite(raw.width)) config.width = Math.max(MIN_COLUMN_WIDTH, raw.width);
+            return config;
+        });
+        if (dropped) repairs.push(`${label}: dropped malformed select options`);
+    }
+    return table;
+};
+
+const repairChecklist = (content: unknown, repairs: string[], label: string): ChecklistItem[] => {
+    if (!Array.isArray(content)) {
+        repairs.push(`${label}: replaced invalid checklist content`);
+        return [];
+    }
+    const items: ChecklistItem[] = content.filter(isObject).map(item => ({
+        id: typeof item.id === 'string' ? item.id : uuidv4(),
+        text: String(item.text ?? ''),
+        checked: !!item.checked,
+        ...(typeof item.level === 'number' && Number.isInteger(item.level) && item.level > 0 ? { level: item.level } : {}),
+        ...(typeof item.dueDate === 'string' && DATE_RE.test(item.dueDate) ? { dueDate: item.dueDate } : {})
+    }));
+    if (items.length !== content.length) repairs.push(`${label}: dropped malformed checklist items`);
+    // Indents that skip a level (or run too deep) are pulled back in
+    const normalized = normalizeLevels(items);
+    if (normalized.some((item, i) => item !== items[i])) repairs.push(`${label}: fixed checklist indentation`);
+    return normalized;
+};
+
+export const isLogLevel = (v: unknown): v is CodeLogLevel => isOneOf(LOG_LEVELS, v);
+
+const isRunOutput = (v: unknown): v is CodeRunOutput =>
+    isObject(v)
+    && Array.isArray(v.logs) && v.logs.every((l: unknown) => isObject(l) && isLogLevel(l.level) && typeof l.text === 'string')
+    && (v.result === undefined || typeof v.result === 'string')
+    && (v.error === undefined || typeof v.error === 'string')
+    && typeof v.durationMs === 'number' && typeof v.ranAt === 'number';
+
+const repairBlock = (raw: unknown, repairs: string[]): BlockData | null => {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !isOneOf(BLOCK_TYPES, raw.type)) {
+        repairs.push(`Dropped a block with a missing id or unknown type`);
+        return null;
+    }
+    const type = raw.type;
+    const label = `Block "${typeof raw.title === 'string' && raw.title ? raw.title : raw.id}"`;
+
+    let content: BlockData['content'];
+    if (type === 'checklist') {
+        content = repairChecklist(raw.content, repairs, label);
+    } else if (type === 'table') {
+        content = repairTable(raw.content, repairs, label);
+    } else {
+        content = typeof raw.content === 'string' ? raw.content : '';
+        if (typeof raw.content !== 'string') repairs.push(`${label}: replaced non-text content`);
+    }
+
+    // Fields this version does not know about are carried along; the known optional ones are
+    // checked below and dropped when they hold the wrong type
+    const block: BlockData = {
+        ...(raw as Partial<BlockData>),
+        id: raw.id,
+        type,
+        x: toNumber(raw.x, 0),
+        y: toNumber(raw.y, 0),
+        w: Math.max(50, toNumber(raw.w, 240)),
+        h: Math.max(50, toNumber(raw.h, 120)),
+        content
+    };
+    if ('imageId' in raw && (type !== 'image' || typeof raw.imageId !== 'string')) {
+        delete block.imageId;
+        repairs.push(`${label}: dropped an invalid image reference`);
+    }
+    const invalid = (key: keyof BlockData, valid: boolean) => {
+        if (!(key in raw) || valid) return;
+        delete block[key];
+        repairs.push(`${label}: dropped an invalid ${key}`);
+    };
+    invalid('title', typeof raw.title === 'string');
+    invalid('frameId', typeof raw.frameId === 'string');
+    invalid('color', typeof raw.color === 'string');
+    invalid('collapsed', typeof raw.collapsed === 'boolean');
+    invalid('expandedHeight', typeof raw.expandedHeight === 'number' && Number.isFinite(raw.expandedHeight));
+    invalid('language', type === 'code' && isOneOf(CODE_LANGUAGES, raw.language));
+    invalid('runOutput', type === 'code' && isRunOutput(raw.runOutput));
+    invalid('markdownView', type === 'markdown' && (raw.markdownView === 'source' || raw.markdownView === 'preview'));
+    if (block.x !== raw.x || block.y !== raw.y || block.w !== raw.w || block.h !== raw.h) {
+        repairs.push(`${label}: fixed invalid position or size`);
+    }
+    return block;
+};
+
+// Optional label and style fields fall back to the defaults when they hold unknown values
+const repairEdgeStyle = (edge: Edge, repairs: string[]): Edge => {
+    const invalid = (key: keyof Edge, valid: boolean) => {
+        if (!(key in edge) || valid) return;
+        delete edge[key];
+        repairs.push(`Edge ${edge.id}: dropped an invalid ${key}`);
+    };
+    invalid('label', typeof edge.label === 'string');
+    invalid('kind', isOneOf(EDGE_KINDS, edge.kind));
+    invalid('lineStyle', isOneOf(EDGE_LINE_STYLES, edge.lineStyle));
+    invalid('color', typeof edge.color === 'string');
+    invalid('arrowheads', isOneOf(EDGE_ARROWHEADS, edge.arrowheads));
+    invalid('routing', isOneOf(EDGE_ROUTINGS, edge.routing));
+    return edge;
+};
+
+const repairPage = (raw: unknown, index: number, repairs: string[]): Page => {
+    const source: RawObject = isObject(raw) ? raw : {};
+    const seen = new Set<string>();
+    const rawBlocks: unknown[] = Array.isArray(source.blocks) ? source.blocks : [];
+    const blocks = rawBlocks
+        .map(b => repairBlock(b, repairs))
+        .filter((b): b is BlockData => {
+            if (!b) return false;
+            if (seen.has(b.id)) {
+                repairs.push(`Dropped duplicate block id ${b.id}`);
+                return false;
+            }
+            seen.add(b.id);
+            return true;
+        });
+
+    // A block can only sit in a frame on the same page, and frames cannot contain themselves
+    const byId = new Map(blocks.map(b => [b.id, b]));
+    blocks.forEach(b => {
+        if (!b.frameId) return;
+        const parent = byId.get(b.frameId);
+        let ancestor = parent;
+        for (let depth = 0; ancestor?.frameId && ancestor.id !== b.id && depth < blocks.length; depth++) {
+            ancestor = byId.get(ancestor.frameId);
+        }
+        if (!parent || parent.type !== 'frame' || ancestor?.id === b.id) {
+            delete b.frameId;
+            repairs.push(`Block "${b.title || b.id}": dropped an invalid frame reference`);
+        }
+    });
+
+    const rawEdges: unknown[] = Array.isArray(source.edges) ? source.edges : [];
+    const edges = rawEdges.flatMap((e): Edge[] => {
+        if (!isObject(e) || typeof e.fromId !== 'string' || !seen.has(e.fromId) || typeof e.toId !== 'string' || !seen.has(e.toId)) {
+            repairs.push(`Dropped an edge pointing to a missing block`);
+            return [];
+        }
+        return [repairEdgeStyle({
+            ...(e as Partial<Edge>),
+            id: typeof e.id === 'string' ? e.id : uuidv4(),
+            fromId: e.fromId,
+            toId: e.toId,
+            fromHandle: isOneOf(HANDLE_TYPES, e.fromHandle) ? e.fromHandle : 'right',
+            toHandle: isOneOf(HANDLE_TYPES, e.toHandle) ? e.toHandle : 'left'
+        }, repairs)];
+    });
+
+    const page: Page = {
+        id: typeof source.id === 'string' ? source.id : uuidv4(),
+        name: typeof source.name === 'string' && source.name ? source.name : `Page ${index + 1}`,
+        blocks,
+        edges
+    };
+    const canvas = repairCanvas(source.canvas);
+    if (canvas) page.canvas = canvas;
+    return page;
+};
+
+const repairCanvas = (raw: unknown): CanvasState | null => {
+    if (!isObject(raw) || !isObject(raw.pan)) return null;
+    return {
+        scale: Math.min(5, Math.max(0.1, toNumber(raw.scale, 1))),
+        pan: { x: toNumber(raw.pan.x, 0), y: toNumber(raw.pan.y, 0) }
+    };
+};
+
+// Viewpoints were added without a schema bump: missing means none, and bookmarks
+// pointing at a page that no longer exists are dropped
+const repairViewpoints = (raw: unknown, pages: Page[], repairs: string[]): Viewpoint[] => {
+    if (!Array.isArray(raw)) return [];
+    const pageIds = new Set(pages.map(p => p.id));
+    const viewpoints: Viewpoint[] = [];
+    raw.forEach((v: unknown) => {
+        const canvas = isObject(v) ? repairCanvas(v.canvas) : null;
+        if (!isObject(v) || !canvas || typeof v.pageId !== 'string' || !pageIds.has(v.pageId)) {
+            repairs.push('Dropped an invalid viewpoint');
+            return;
+        }
+        viewpoints.push({
+            id: typeof v.id === 'string' ? v.id : uuidv4(),
+            name: typeof v.name === 'string' && v.name ? v.name : `View ${viewpoints.length + 1}`,
+            pageId: v.pageId,
+            canvas
+        });
+    });
+    return viewpoints;
+};
+
+// -- Public API --
+
+// Upgrades any stored or imported workspace to the current schema and repairs what it can.
+// Throws when the input is not recognisably a workspace or comes from a newer version.
+export const migrateWorkspace = (raw: unknown): { data: WorkspaceData, repairs: string[] } => {
+    if (!isObject(raw) || (!Array.isArray(raw.pages) && !Array.isArray(raw.blocks))) {
+        throw new Error('Not a NukeNote workspace');
+    }
+
+    let version = detectVersion(raw);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This workspace was saved by a newer version (schema ${version})`);
+    }
+
+    let migrated: RawObject = raw;
+    while (version < CURRENT_SCHEMA_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) throw new Error(`No migration from schema ${version}`);
+        migrated = migrate(migrated);
+        version++;
+    }
+
+    const repairs: string[] = [];
+    const rawPages: unknown[] = Array.isArray(migrated.pages) ? migrated.pages : [];
+    const pages = rawPages.map((p, i) => repairPage(p, i, repairs));
+    if (pages.length === 0) {
+        pages.push(repairPage({}, 0, repairs));
+        repairs.push('Added an empty page');
+    }
+
+    const storedActiveId = migrated.activePageId;
+    const activePageId = typeof storedActiveId === 'string' && pages.some(p => p.id === storedActiveId) ? storedActiveId : pages[0].id;
+
+    return {
+        data: {
+            id: typeof migrated.id === 'string' ? migrated.id : uuidv4(),
+            name: typeof migrated.name === 'string' ? migrated.name : 'Untitled Workspace',
+            pages,
+            activePageId,
+            viewpoints: repairViewpoints(migrated.viewpoints, pages, repairs),
+            lastUpdated: toNumber(migrated.lastUpdated, Date.now()),
+            schemaVersion: CURRENT_SCHEMA_VERSION
+        },
+        repairs
+    };
+};
@@ -0,0 +1,109 @@
+import { BlockData, Edge, Point, Rect, Selection } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+
+export const EMPTY_SELECTION: Selection = { blockIds: [], edgeIds: [] };
+
+export const selectOnly = (blockId: string): Selection => ({ blockIds: [blockId], edgeIds: [] });
+
+export const toggleBlockSelection = (selection: Selection, blockId: string): Selection => ({
+    ...selection,
+    blockIds: selection.blockIds.includes(blockId)
+        ? selection.blockIds.filter(id => id !== blockId)
+        : [...selection.blockIds, blockId]
+});
+
+export const toggleEdgeSelection = (selection: Selection, edgeId: string): Selection => ({
+    ...selection,
+    edgeIds: selection.edgeIds.includes(edgeId)
+        ? selection.edgeIds.filter(id => id !== edgeId)
+        : [...selection.edgeIds, edgeId]
+});
+
+export const mergeSelections = (a: Selection, b: Selection): Selection => ({
+    blockIds: Array.from(new Set([...a.blockIds, ...b.blockIds])),
+    edgeIds: Array.from(new Set([...a.edgeIds, ...b.edgeIds]))
+});
+
+// -- Geometry --
+
+export const rectFromPoints = (p1: Point, p2: Point): Rect => ({
+    x: Math.min(p1.x, p2.x),
+    y: Math.min(p1.y, p2.y),
+    w: Math.abs(p2.x - p1.x),
+    h: Math.abs(p2.y - p1.y)
+});
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+    a.x < b.x + b.w &&
+    a.x + a.w > b.x &&
+    a.y < b.y + b.h &&
+    a.y + a.h > b.y;
+
+export const getBlocksBounds = (blocks: BlockData[]): Rect | null => {
+    if (blocks.length === 0) return null;
+    const minX = Math.min(...blocks.map(b => b.x));
+    const minY = Math.min(...blocks.map(b => b.y));
+    const maxX = Math.max(...blocks.map(b => b.x + b.w));
+    const maxY = Math.max(...blocks.map(b => b.y + b.h));
+    return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+};
+
+export const rectContains = (outer: Rect, inner: Rect): boolean =>
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.w <= outer.x + outer.w &&
+    inner.y + inner.h <= outer.y + outer.h;
+
+// Blocks touched by the marquee are selected, plus every edge running between two of them.
+// Frames have to be fully enclosed, so a marquee drawn inside a frame picks only its contents.
+export const selectInRect = (rect: Rect, blocks: BlockData[], edges: Edge[]): Selection => {
+    const blockIds = blocks
+        .filter(b => b.type === 'frame' ? rectContains(rect, b) : rectsIntersect(rect, b))
+        .map(b => b.id);
+    const idSet = new Set(blockIds);
+    const edgeIds = edges.filter(e => idSet.has(e.fromId) && idSet.has(e.toId)).map(e => e.id);
+    return { blockIds, edgeIds };
+};
+
+// -- Group Operations --
+
+// Copies the given blocks with fresh ids and re-wires the edges that run between them to the copies.
+// Copies of blocks whose frame is copied too are placed in the copied frame.
+export const cloneBlocksWithEdges = (
+    blocks: BlockData[],
+    edges: Edge[],
+    blockIds: string[],
+    offset: Point
+): { blocks: BlockData[], edges: Edge[] } => {
+    const idMap = new Map<string, string>();
+    const clonedBlocks: BlockData[] = [];
+
+    blocks.forEach(block => {
+        if (!blockIds.includes(block.id)) return;
+        const newId = uuidv4();
+        idMap.set(block.id, newId);
+        clonedBlocks.push({
+            ...block,
+            id: newId,
+            x: block.x + offset.x,
+            y: block.y + offset.y,
+            content: JSON.parse(JSON.stringify(block.content)),
+            title: block.title ? `${block.title} (Copy)` : undefined
+        });
+    });
+
+    clonedBlocks.forEach(block => {
+        if (block.frameId && idMap.has(block.frameId)) block.frameId = idMap.get(block.frameId);
+    });
+
+    const clonedEdges: Edge[] = edges
+        .filter(e => idMap.has(e.fromId) && idMap.has(e.toId))
+        .map(e => ({
+            ...e,
+            id: uuidv4(),
+            fromId: idMap.get(e.fromId)!,
+            toId: idMap.get(e.toId)!
+        }));
+
+    return { blocks: clonedBlocks, edges: clonedEdges };
+};
@@ -0,0 +1,62 @@
+import { Rect } from "../types";
+import { rectsIntersect } from './selectionService';
+
+// Uniform grid over canvas space. Each item is registered in every cell its bounding box
+// touches, so a query only looks at items near the queried rect instead of all of them.
+// Rebuilding is O(n), cheap enough to redo whenever blocks or edges change.
+
+const DEFAULT_CELL_SIZE = 512;
+
+export interface SpatialIndex {
+    cellSize: number;
+    cells: Map<string, string[]>;
+    rects: Map<string, Rect>;
+}
+
+const cellRange = (rect: Rect, cellSize: number) => ({
+    minX: Math.floor(rect.x / cellSize),
+    minY: Math.floor(rect.y / cellSize),
+    maxX: Math.floor((rect.x + rect.w) / cellSize),
+    maxY: Math.floor((rect.y + rect.h) / cellSize)
+});
+
+export const createSpatialIndex = (items: { id: string, rect: Rect }[], cellSize = DEFAULT_CELL_SIZE): SpatialIndex => {
+    const cells = new Map<string, string[]>();
+    const rects = new Map<string, Rect>();
+
+    items.forEach(({ id, rect }) => {
+        rects.set(id, rect);
+        const { minX, minY, maxX, maxY } = cellRange(rect, cellSize);
+        for (let cx = minX; cx <= maxX; cx++) {
+            for (let cy = minY; cy <= maxY; cy++) {
+                const key = `${cx},${cy}`;
+                const cell = cells.get(key);
+                if (cell) cell.push(id);
+                else cells.set(key, [id]);
+            }
+        }
+    });
+
+    return { cellSize, cells, rects };
+};
+
+// Ids of all items whose bounding box intersects `rect`
+export const querySpatialIndex = (index: SpatialIndex, rect: Rect): Set<string> => {
+    const result = new Set<string>();
+    const { minX, minY, maxX, maxY } = cellRange(rect, index.cellSize);
+
+    // A huge query (zoomed far out) is cheaper as a straight scan than a cell walk
+    if ((maxX - minX + 1) * (maxY - minY + 1) > index.cells.size) {
+        index.rects.forEach((itemRect, id) => { if (rectsIntersect(itemRect, rect)) result.add(id); });
+        return result;
+    }
+
+    for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+            index.cells.get(`${cx},${cy}`)?.forEach(id => {
+                if (!result.has(id) && rectsIntersect(index.rects.get(id)!, rect)) result.add(id);
+            });
+        }
+    }
+    return result;
+};
@@ -1,18 +1,19 @@
-import { BlockData, Edge, WorkspaceMetadata } from "../types";
+import { BlockData, CanvasState, Edge, Page, StoredImage, Viewpoint, WorkspaceData, WorkspaceMetadata } from "../types";
 import { v4 as uuidv4 } from 'uuid';
+import { CURRENT_SCHEMA_VERSION, migrateWorkspace } from './schemaService';
 
 const DB_NAME = 'nukenote-db';
 const STORE_NAME = 'workspaces'; // Renamed from 'workspace' to plural
 const OLD_STORE_NAME = 'workspace';
-const DB_VERSION = 2; // Bumped version
+const IMAGE_STORE_NAME = 'images'; // Shared by all workspaces, referenced by BlockData.imageId
+const DB_VERSION = 4; // v3: workspaces hold an ordered list of pages, v4: image blob store
 
-export interface WorkspaceData {
-  id: string;
-  name: string;
-  blocks: BlockData[];
-  edges: Edge[];
-  lastUpdated: number;
-}
+export const createPage = (name: string, blocks: BlockData[] = [], edges: Edge[] = []): Page => ({
+  id: uuidv4(),
+  name,
+  blocks,
+  edges
+});
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -40,6 +41,10 @@ const openDB = (): Promise<IDBDatabase> => {
          db.deleteObjectStore(OLD_STORE_NAME);
       }
 
+      if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
+        db.createObjectStore(IMAGE_STORE_NAME, { keyPath: 'id' });
+      }
+
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         store.createIndex('lastUpdated', 'lastUpdated', { unique: false });
@@ -47,22 +52,34 @@ const openDB = (): Promise<IDBDatabase> => {
         // If we found old data, insert it into the new store
         if (oldData) {
             const newId = uuidv4();
-            store.add({
+            store.add(migrateWorkspace({
+                ...oldData,
                 id: newId,
                 name: 'Migrated Workspace',
-                blocks: oldData.blocks || [],
-                edges: oldData.edges || [],
                 lastUpdated: Date.now()
-            });
+            }).data);
             // Also set this as the active one in localStorage so user doesn't get lost
             localStorage.setItem('nukenote-last-workspace-id', newId);
         }
+      } else if (event.oldVersion < 3) {
+        // Migration: bring every stored workspace up to the current schema (flat -> paged)
+        const cursorReq = transaction.objectStore(STORE_NAME).openCursor();
+        cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor) return;
+            try {
+                cursor.update(migrateWorkspace(cursor.value).data);
+            } catch (e) {
+                console.error('Failed to migrate workspace', cursor.value?.id, e);
+            }
+            cursor.continue();
+        };
       }
     };
   });
 };
 
-export const saveWorkspace = async (id: string, name: string, blocks: BlockData[], edges: Edge[]): Promise<void> => {
+export const saveWorkspace = async (id: string, name: string, pages: Page[], activePageId: string, viewpoints: Viewpoint[]): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
@@ -71,9 +88,11 @@ export const saveWorkspace = async (id: string, name: string, blocks: BlockData[
     const data: WorkspaceData = {
       id,
       name,
-      blocks,
-      edges,
-      lastUpdated: Date.now()
+      pages,
+      activePageId,
+      viewpoints,
+      lastUpdated: Date.now(),
+      schemaVersion: CURRENT_SCHEMA_VERSION
     };
 
     const request = store.put(data);
@@ -83,6 +102,29 @@ export const saveWorkspace = async (id: string, name: string, blocks: BlockData[
   });
 };
 
+// Writes just one page's viewport into the stored workspace. lastUpdated is left alone so
+// panning around does not reorder the workspace list; unsaved workspaces are skipped.
+export const saveViewport = async (id: string, pageId: string, canvas: CanvasState): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+        const data: WorkspaceData | undefined = request.result;
+        if (!data || !data.pages.some(p => p.id === pageId)) {
+            resolve();
+            return;
+        }
+        const putRequest = store.put({ ...data, pages: data.pages.map(p => p.id === pageId ? { ...p, canvas } : p) });
+        putRequest.onerror = () => reject(putRequest.error);
+        putRequest.onsuccess = () => resolve();
+    };
+  });
+};
+
 export const loadWorkspace = async (id: string): Promise<WorkspaceData | null> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -92,7 +134,16 @@ export const loadWorkspace = async (id: string): Promise<WorkspaceData | null> =
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
-        resolve(request.result as WorkspaceData || null);
+        if (!request.result) {
+            resolve(null);
+            return;
+        }
+        // Records are migrated lazily on read as well, so older rows never reach the UI
+        try {
+            resolve(migrateWorkspace(request.result).data);
+        } catch (e) {
+            reject(e);
+        }
     };
   });
 };
@@ -132,3 +183,64 @@ export const deleteWorkspace = async (id: string): Promise<void> => {
         request.onsuccess = () => resolve();
     });
 };
+
+// -- Images --
+
+export const saveImage = async (image: StoredImage): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(IMAGE_STORE_NAME, 'readwrite');
+        const request = transaction.objectStore(IMAGE_STORE_NAME).put(image);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+    });
+};
+
+export const loadImage = async (id: string): Promise<StoredImage | null> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(IMAGE_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(IMAGE_STORE_NAME).get(id);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result || null);
+    });
+};
+
+// Deletes images that no stored workspace references any more. `inUse` covers references
+// that only live in memory (undo/redo history), and images younger than `graceMs` are kept
+// because the block pointing at them may not have been autosaved yet.
+// Resolves with the ids that were deleted.
+export const collectImageGarbage = async (inUse: Set<string>, graceMs = 60000): Promise<string[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+        const referenced = new Set(inUse);
+        const deleted: string[] = [];
+
+        const workspacesReq = transaction.objectStore(STORE_NAME).getAll();
+        workspacesReq.onsuccess = () => {
+            (workspacesReq.result as WorkspaceData[]).forEach(ws =>
+                (ws.pages || []).forEach(page =>
+                    (page.blocks || []).forEach(b => { if (b.imageId) referenced.add(b.imageId); })
+                )
+            );
+
+            const cursorReq = transaction.objectStore(IMAGE_STORE_NAME).openCursor();
+            cursorReq.onsuccess = () => {
+                const cursor = cursorReq.result;
+                if (!cursor) return;
+                const image = cursor.value as StoredImage;
+                if (!referenced.has(image.id) && Date.now() - image.createdAt > graceMs) {
+                    cursor.delete();
+                    deleted.push(image.id);
+                }
+                cursor.continue();
+            };
+        };
+
+        transaction.oncomplete = () => resolve(deleted);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,307 @@
+import { CodeLanguage } from "../types";
+
+// A small offline highlighter for code blocks. Each language is a list of sticky regex rules
+// tried in order at every position; identifiers are then classified as keywords, function
+// calls or type names. Good enough for notes, not a parser: it never fails, it only guesses.
+
+export type TokenType =
+    | 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'function' | 'type'
+    | 'operator' | 'punctuation' | 'tag' | 'attribute' | 'property';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+export const CODE_LANGUAGES: CodeLanguage[] = [
+    'plaintext', 'javascript', 'typescript', 'python', 'json', 'html', 'css', 'sql', 'bash', 'java', 'c', 'cpp', 'go', 'rust'
+];
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+    plaintext: 'Plain Text',
+    javascript: 'JavaScript',
+    typescript: 'TypeScript',
+    python: 'Python',
+    json: 'JSON',
+    html: 'HTML',
+    css: 'CSS',
+    sql: 'SQL',
+    bash: 'Shell',
+    java: 'Java',
+    c: 'C',
+    cpp: 'C++',
+    go: 'Go',
+    rust: 'Rust'
+};
+
+// Colours for a dark background; shared by the editor and the image export
+export const TOKEN_COLORS: Record<TokenType, string> = {
+    plain: '#e5e7eb',
+    keyword: '#c084fc',
+    string: '#86efac',
+    number: '#fdba74',
+    comment: '#6b7280',
+    function: '#93c5fd',
+    type: '#fde047',
+    operator: '#9ca3af',
+    punctuation: '#9ca3af',
+    tag: '#f87171',
+    attribute: '#fdba74',
+    property: '#7dd3fc'
+};
+
+// Markdown fence names (```ts) that map onto a language
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+    text: 'plaintext', txt: 'plaintext', plain: 'plaintext',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', node: 'javascript',
+    ts: 'typescript', tsx: 'typescript',
+    py: 'python', python3: 'python',
+    xml: 'html', svg: 'html', htm: 'html',
+    sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+    'c++': 'cpp', cc: 'cpp', hpp: 'cpp', cxx: 'cpp', h: 'c',
+    golang: 'go', rs: 'rust', postgres: 'sql', mysql: 'sql', sqlite: 'sql', jsonc: 'json'
+};
+
+export const resolveLanguage = (name: string | undefined): CodeLanguage | undefined => {
+    const key = (name || '').trim().toLowerCase();
+    if (!key) return undefined;
+    if ((CODE_LANGUAGES as string[]).includes(key)) return key as CodeLanguage;
+    return LANGUAGE_ALIASES[key];
+};
+
+// Best guess for code without a chosen language, so older blocks still get colour
+export const guessLanguage = (code: string): CodeLanguage => {
+    const trimmed = code.trim();
+    if (!trimmed) return 'plaintext';
+    if (/^[{[]/.test(trimmed)) {
+        try {
+            JSON.parse(trimmed);
+            return 'json';
+        } catch { /* not JSON */ }
+    }
+    if (/^<(!doctype|html|div|[a-z]+[\s>])/i.test(trimmed)) return 'html';
+    if (/^#!.*\b(ba|z)?sh\b/.test(trimmed) || /^\$ /m.test(trimmed)) return 'bash';
+    if (/^\s*(def |class \w+.*:\s*$|import \w+$|from \w+ import )/m.test(trimmed)) return 'python';
+    if (/\b(SELECT|INSERT INTO|CREATE TABLE|UPDATE)\b/i.test(trimmed) && /\b(FROM|INTO|TABLE|SET)\b/i.test(trimmed)) return 'sql';
+    if (/^\s*#include\b/m.test(trimmed)) return /\b(std::|class |template<|cout)/.test(trimmed) ? 'cpp' : 'c';
+    if (/^\s*package \w+\s*$/m.test(trimmed) && /\bfunc\b/.test(trimmed)) return 'go';
+    if (/\bfn \w+\s*\(/.test(trimmed) && /\blet (mut )?\w+/.test(trimmed)) return 'rust';
+    if (/\bpublic (static )?(class|void)\b/.test(trimmed)) return 'java';
+    if (/^[.#]?[\w-]+(\s*[>+~,]?\s*[.#]?[\w-:]+)*\s*\{[^}]*:[^}]*;/m.test(trimmed) && !/\bfunction\b|=>/.test(trimmed)) return 'css';
+    if (/\b(interface|type) \w+\s*[={<]|:\s*(string|number|boolean)\b/.test(trimmed)) return 'typescript';
+    if (/\b(const|let|var|function|=>|console\.)/.test(trimmed) || /^\s*\/\//m.test(trimmed)) return 'javascript';
+    return 'plaintext';
+};
+
+// What Tab inserts: Python style guides use four spaces, Go uses tabs
+export const getIndentUnit = (language: CodeLanguage) =>
+    language === 'python' ? '    ' : language === 'go' ? '\t' : '  ';
+
+// Whether a new line after this one should be indented one step further
+export const opensBlock = (line: string, language: CodeLanguage) =>
+    language === 'python' ? /:\s*(#.*)?$/.test(line) : /[{[(]\s*$/.test(line);
+
+// -- Grammars --
+
+type Rule = [TokenType | 'identifier', RegExp];
+
+interface Grammar {
+    rules: Rule[];
+    keywords: Set<string>;
+    caseInsensitive?: boolean; // SQL keywords
+    types?: boolean; // Capitalised identifiers are type names
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const LINE_COMMENT: Rule = ['comment', /\/\/.*/y];
+const BLOCK_COMMENT: Rule = ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENT: Rule = ['comment', /#.*/y];
+const DOUBLE_STRING: Rule = ['string', /"(?:\\[\s\S]|[^"\\\n])*"?/y];
+const SINGLE_STRING: Rule = ['string', /'(?:\\[\s\S]|[^'\\\n])*'?/y];
+const TEMPLATE_STRING: Rule = ['string', /`(?:\\[\s\S]|[^`\\])*`?/y];
+const NUMBER: Rule = ['number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y];
+const IDENTIFIER: Rule = ['identifier', /[A-Za-z_$][\w$]*/y];
+const OPERATOR: Rule = ['operator', /[+\-*/%=&|^!<>?~:]+/y];
+const PUNCTUATION: Rule = ['punctuation', /[{}()[\];,.@]/y];
+
+const C_LIKE_RULES: Rule[] = [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, SINGLE_STRING, NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION];
+// Preprocessor lines read as keywords
+const C_RULES: Rule[] = [['keyword', /#\s*\w+/y], ...C_LIKE_RULES];
+
+const JS_KEYWORDS = 'break case catch class const continue debugger default delete do else export extends finally for function if import in instanceof let new return super switch this throw try typeof var void while with yield async await of static get set from as true false null undefined NaN Infinity';
+const C_KEYWORDS = 'auto break case char const continue default do double else enum extern float for goto if inline int long register restrict return short signed sizeof static struct switch typedef union unsigned void volatile while NULL true false bool';
+
+const GRAMMARS: Record<Exclude<CodeLanguage, 'plaintext'>, Grammar> = {
+    javascript: {
+        rules: [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, SINGLE_STRING, TEMPLATE_STRING, NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION],
+        keywords: words(JS_KEYWORDS),
+        types: true
+    },
+    typescript: {
+        rules: [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, SINGLE_STRING, TEMPLATE_STRING, NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION],
+        keywords: words(`${JS_KEYWORDS} interface type enum implements private public protected readonly abstract declare namespace keyof infer is any unknown never string number boolean symbol bigint object satisfies`),
+        types: true
+    },
+    python: {
+        rules: [
+            HASH_COMMENT,
+            ['string', /[rbfuRBFU]{0,2}("""|''')[\s\S]*?(?:\1|$)/y],
+            ['string', /[rbfuRBFU]{0,2}"(?:\\[\s\S]|[^"\\\n])*"?/y],
+            ['string', /[rbfuRBFU]{0,2}'(?:\\[\s\S]|[^'\\\n])*'?/y],
+            ['function', /@[\w.]+/y],
+            NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION
+        ],
+        keywords: words('False None True and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield self match case print len range'),
+        types: true
+    },
+    json: {
+        rules: [['property', /"(?:\\[\s\S]|[^"\\\n])*"(?=\s*:)/y], DOUBLE_STRING, ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y], IDENTIFIER, PUNCTUATION, OPERATOR],
+        keywords: words('true false null')
+    },
+    html: {
+        rules: [
+            ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+            ['tag', /<\/?[\w-]+|\/?>|<!doctype\b/iy],
+            ['attribute', /[\w:-]+(?=\s*=)/y],
+            DOUBLE_STRING, SINGLE_STRING,
+            ['number', /&#?\w+;/y],
+            ['plain', /[^<&"'\s=]+/y]
+        ],
+        keywords: words('')
+    },
+    css: {
+        rules: [
+            BLOCK_COMMENT, DOUBLE_STRING, SINGLE_STRING,
+            ['keyword', /@[\w-]+|!important/y],
+            ['number', /#[\da-fA-F]{3,8}\b|-?(?:\d*\.)?\d+(?:px|em|rem|%|vh|vw|vmin|vmax|s|ms|deg|fr|pt|ch)?/y],
+            ['property', /[\w-]+(?=\s*:[^{};]*[;}])/y],
+            ['function', /[\w-]+(?=\()/y],
+            ['plain', /[\w-]+/y],
+            ['punctuation', /[{}()[\];,.:>+~*]/y]
+        ],
+        keywords: words('')
+    },
+    sql: {
+        rules: [['comment', /--.*/y], BLOCK_COMMENT, SINGLE_STRING, DOUBLE_STRING, NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION],
+        keywords: words('select from where insert into values update set delete create table drop alter add primary key foreign references join inner left right outer full cross on as and or not null is in like between group by order asc desc limit offset having distinct union all case when then else end index view exists default unique check constraint returning with integer int text varchar boolean date timestamp serial true false'),
+        caseInsensitive: true
+    },
+    bash: {
+        rules: [HASH_COMMENT, DOUBLE_STRING, SINGLE_STRING, ['property', /\$\{[^}\n]*\}?|\$[\w@#?*!-]+/y], NUMBER, ['identifier', /[A-Za-z_][\w-]*/y], OPERATOR, PUNCTUATION],
+        keywords: words('if then else elif fi for while until do done case esac function in return exit local export echo cd set unset readonly shift source sudo')
+    },
+    java: {
+        rules: [['function', /@\w+/y], ...C_LIKE_RULES],
+        keywords: words('abstract assert boolean break byte case catch char class const continue default do double else enum extends final finally float for goto if implements import instanceof int interface long native new package private protected public return short static strictfp super switch synchronized this throw throws transient try void volatile while true false null var record'),
+        types: true
+    },
+    c: { rules: C_RULES, keywords: words(C_KEYWORDS) },
+    cpp: {
+        rules: C_RULES,
+        keywords: words(`${C_KEYWORDS} class namespace template typename public private protected virtual override new delete this using try catch throw nullptr constexpr friend operator explicit noexcept static_cast dynamic_cast const_cast reinterpret_cast std`),
+        types: true
+    },
+    go: {
+        rules: [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, ['string', /`[^`]*`?/y], SINGLE_STRING, NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION],
+        keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var true false nil iota string int int64 float64 bool byte error'),
+        types: true
+    },
+    rust: {
+        rules: [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, ['string', /'(?:\\.|[^'\\\n])'/y], ['function', /[a-z_]\w*!/y], ['type', /'[a-z_]\w*/y], NUMBER, IDENTIFIER, OPERATOR, PUNCTUATION],
+        keywords: words('as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while Some None Ok Err'),
+        types: true
+    }
+};
+
+const classifyIdentifier = (grammar: Grammar, word: string, rest: string): TokenType => {
+    if (grammar.keywords.has(grammar.caseInsensitive ? word.toLowerCase() : word)) return 'keyword';
+    if (/^\s*\(/.test(rest)) return 'function';
+    if (grammar.types && /^[A-Z][a-z0-9]/.test(word)) return 'type';
+    return 'plain';
+};
+
+// Splits code into tokens that cover it exactly; adjacent plain text is merged
+export const tokenize = (code: string, language: CodeLanguage): Token[] => {
+    if (language === 'plaintext') return code ? [{ type: 'plain', text: code }] : [];
+    const grammar = GRAMMARS[language];
+    const tokens: Token[] = [];
+    const push = (type: TokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (type === 'plain' && last?.type === 'plain') last.text += text;
+        else tokens.push({ type, text });
+    };
+
+    let pos = 0;
+    while (pos < code.length) {
+        const whitespace = /\s+/y;
+        whitespace.lastIndex = pos;
+        const space = whitespace.exec(code);
+        if (space) {
+            push('plain', space[0]);
+            pos += space[0].length;
+            continue;
+        }
+        let matched = false;
+        for (const [type, re] of grammar.rules) {
+            re.lastIndex = pos;
+            const match = re.exec(code);
+            if (!match || match[0].length === 0) continue;
+            const text = match[0];
+            push(type === 'identifier' ? classifyIdentifier(grammar, text, code.slice(pos + text.length, pos + text.length + 8)) : type, text);
+            pos += text.length;
+            matched = true;
+            break;
+        }
+        if (!matched) push('plain', code[pos++]);
+    }
+    return tokens;
+};
+
+// Tokens regrouped per line (multi-line comments and strings are cut at line breaks)
+export const tokenizeLines = (code: string, language: CodeLanguage): Token[][] => {
+    const lines: Token[][] = [[]];
+    tokenize(code, language).forEach(token => {
+        token.text.split('\n').forEach((part, i) => {
+            if (i > 0) lines.push([]);
+            if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+        });
+    });
+    return lines;
+};
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// The bracket next to the caret (before it first, then after it) and its partner. Brackets in
+// strings and comments are ignored. The partner is -1 when the bracket is unbalanced.
+export const findMatchingBracket = (tokens: Token[], caret: number): [number, number] | null => {
+    const brackets: { pos: number, ch: string }[] = [];
+    let offset = 0;
+    tokens.forEach(token => {
+        if (token.type === 'punctuation' || token.type === 'plain' || token.type === 'operator') {
+            for (let i = 0; i < token.text.length; i++) {
+                const ch = token.text[i];
+                if (OPENERS[ch] || CLOSERS[ch]) brackets.push({ pos: offset + i, ch });
+            }
+        }
+        offset += token.text.length;
+    });
+
+    const index = brackets.findIndex(b => b.pos === caret - 1);
+    const at = index >= 0 ? index : brackets.findIndex(b => b.pos === caret);
+    if (at < 0) return null;
+    const { pos, ch } = brackets[at];
+    const forward = !!OPENERS[ch];
+    let depth = 0;
+    for (let i = at; forward ? i < brackets.length : i >= 0; i += forward ? 1 : -1) {
+        const b = brackets[i];
+        if (forward ? OPENERS[b.ch] : CLOSERS[b.ch]) depth++;
+        else depth--;
+        if (depth === 0) {
+            const pairs = forward ? OPENERS[ch] === b.ch : CLOSERS[ch] === b.ch;
+            return [pos, pairs ? b.pos : -1];
+        }
+    }
+    return [pos, -1];
+};
@@ -0,0 +1,349 @@
+import { ColumnAggregate, ColumnConfig, ColumnType, SelectOption, TableContent } from "../types";
+import { FORMULA_ERRORS, FormulaNode, FormulaValue, evaluate, isFormulaError, parseFormula, remapFormulaColumns } from './formulaService';
+
+// Cells are always stored as strings; a column's type decides how they are edited, shown and
+// read by formulas. Formula columns keep empty strings in `rows` and compute their values.
+
+export const COLUMN_TYPES: ColumnType[] = ['text', 'number', 'date', 'select', 'url', 'checkbox', 'formula'];
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+    text: 'Text',
+    number: 'Number',
+    date: 'Date',
+    select: 'Select',
+    url: 'URL',
+    checkbox: 'Checkbox',
+    formula: 'Formula'
+};
+
+export const AGGREGATE_LABELS: Record<ColumnAggregate, string> = {
+    none: 'None',
+    sum: 'Sum',
+    avg: 'Average',
+    min: 'Min',
+    max: 'Max',
+    count: 'Count'
+};
+
+export const MIN_COLUMN_WIDTH = 50;
+
+export const SELECT_COLORS = ['#6b7280', '#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6'];
+
+// Per-cell result of computeTable; formula errors are their spreadsheet code (e.g. '#DIV/0!')
+export type ComputedTable = FormulaValue[][];
+
+export const getColumnType = (table: TableContent, col: number): ColumnType => table.columnTypes?.[col] || 'text';
+
+export const getColumnConfig = (table: TableContent, col: number): ColumnConfig => table.columns?.[col] || {};
+
+const isNumericType = (type: ColumnType) => type === 'number' || type === 'formula';
+
+// Text-ish columns only count; numeric columns offer every aggregate
+export const getAggregatesFor = (type: ColumnType): ColumnAggregate[] =>
+    isNumericType(type) ? ['none', 'sum', 'avg', 'min', 'max', 'count'] : ['none', 'count'];
+
+export const parseNumber = (raw: string): number | null => {
+    const trimmed = raw.trim().replace(/,/g, '');
+    if (trimmed === '') return null;
+    const n = Number(trimmed);
+    return Number.isFinite(n) ? n : null;
+};
+
+// Rounded to hide floating point noise (0.1 + 0.2)
+export const formatNumber = (n: number): string => String(parseFloat(n.toFixed(6)));
+
+export const isValidUrl = (raw: string) => /^https?:\/\/\S+$/i.test(raw.trim());
+
+// Dates take part in arithmetic as whole days, so "C - B" gives the days between two dates
+const DAY_MS = 86400000;
+const parseDate = (raw: string): number | null => {
+    const match = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS : null;
+};
+
+// What a stored cell means to a formula
+const cellValue = (type: ColumnType, raw: string): FormulaValue => {
+    if (type === 'checkbox') return raw === 'true' ? 1 : 0;
+    if (raw.trim() === '') return null;
+    if (type === 'date') return parseDate(raw) ?? raw;
+    return parseNumber(raw) ?? raw;
+};
+
+// Evaluates every formula cell. Cells are computed on demand and memoized, so each formula runs
+// after the cells it references no matter where they sit; a formula that reaches itself again
+// through its references is a cycle.
+export const computeTable = (table: TableContent): ComputedTable => {
+    const columnCount = table.headers.length;
+    const rowCount = table.rows.length;
+    const formulas = table.headers.map((_, col): FormulaNode | string | null => {
+        if (getColumnType(table, col) !== 'formula') return null;
+        const source = getColumnConfig(table, col).formula?.trim();
+        if (!source) return null;
+        try {
+            return parseFormula(source);
+        } catch (e) {
+            return (e as Error).message;
+        }
+    });
+
+    const results: (FormulaValue | undefined)[][] = table.rows.map(() => new Array(columnCount).fill(undefined));
+    const evaluating = new Set<string>();
+
+    const computeCell = (col: number, row: number): FormulaValue => {
+        const type = getColumnType(table, col);
+        if (type !== 'formula') return cellValue(type, table.rows[row][col] ?? '');
+        const cached = results[row][col];
+        if (cached !== undefined) return cached;
+
+        const formula = formulas[col];
+        let value: FormulaValue;
+        if (formula === null || typeof formula === 'string') {
+            value = formula;
+        } else {
+            const key = `${col}:${row}`;
+            if (evaluating.has(key)) throw new Error(FORMULA_ERRORS.cycle);
+            evaluating.add(key);
+            try {
+                value = evaluate(formula, { row, rowCount, getCell });
+                if (typeof value === 'number' && !Number.isFinite(value)) value = FORMULA_ERRORS.value;
+            } catch (e) {
+                value = (e as Error).message;
+            } finally {
+                evaluating.delete(key);
+            }
+        }
+        results[row][col] = value;
+        return value;
+    };
+
+    // Referencing an error passes it on, like a spreadsheet
+    const getCell = (col: number, row: number): FormulaValue => {
+        if (col < 0 || col >= columnCount || row < 0 || row >= rowCount) throw new Error(FORMULA_ERRORS.ref);
+        const value = computeCell(col, row);
+        if (getColumnType(table, col) === 'formula' && isFormulaError(value)) throw new Error(value);
+        return value;
+    };
+
+    return table.rows.map((_, row) => table.headers.map((_, col) => computeCell(col, row)));
+};
+
+// The text a cell shows when it is not being edited
+export const formatCell = (table: TableContent, computed: ComputedTable, row: number, col: number): string => {
+    const type = getColumnType(table, col);
+    const raw = table.rows[row]?.[col] ?? '';
+    if (type === 'formula') {
+        const value = computed[row]?.[col];
+        return typeof value === 'number' ? formatNumber(value) : value ?? '';
+    }
+    if (type === 'checkbox') return raw === 'true' ? '✓' : '';
+    return raw;
+};
+
+export const computeAggregate = (table: TableContent, computed: ComputedTable, col: number): string | null => {
+    const aggregate = getColumnConfig(table, col).aggregate || 'none';
+    if (aggregate === 'none') return null;
+    const type = getColumnType(table, col);
+    if (aggregate === 'count') {
+        // Checkbox columns count ticked rows, other columns count filled cells
+        const count = type === 'checkbox'
+            ? table.rows.filter(row => row[col] === 'true').length
+            : computed.filter(row => row[col] !== null && row[col] !== '').length;
+        return String(count);
+    }
+    const values = computed.map(row => row[col]);
+    const error = values.find(isFormulaError);
+    if (type === 'formula' && error) return error as string;
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    if (numbers.length === 0) return '';
+    switch (aggregate) {
+        case 'sum': return formatNumber(numbers.reduce((a, b) => a + b, 0));
+        case 'avg': return formatNumber(numbers.reduce((a, b) => a + b, 0) / numbers.length);
+        case 'min': return formatNumber(Math.min(...numbers));
+        case 'max': return formatNumber(Math.max(...numbers));
+    }
+};
+
+export const hasAggregates = (table: TableContent) =>
+    table.headers.some((_, col) => (getColumnConfig(table, col).aggregate || 'none') !== 'none');
+
+// -- Editing --
+
+export const updateColumnConfig = (table: TableContent, col: number, updates: Partial<ColumnConfig>): TableContent => {
+    const columns = table.headers.map((_, i) => getColumnConfig(table, i));
+    columns[col] = { ...columns[col], ...updates };
+    return { ...table, columns };
+};
+
+export const addColumn = (table: TableContent, type: ColumnType): TableContent => {
+    const columnTypes = table.headers.map((_, i) => getColumnType(table, i));
+    const columns = table.headers.map((_, i) => getColumnConfig(table, i));
+    return {
+        headers: [...table.headers, type === 'text' ? 'NEW' : COLUMN_TYPE_LABELS[type].toUpperCase()],
+        rows: table.rows.map(row => [...row, type === 'checkbox' ? 'false' : '']),
+        columnTypes: [...columnTypes, type],
+        columns: [...columns, type === 'select' ? { options: [] } : {}]
+    };
+};
+
+export const addSelectOption = (table: TableContent, col: number, value: string): TableContent => {
+    const options = getColumnConfig(table, col).options || [];
+    const trimmed = value.trim();
+    if (!trimmed || options.some(o => o.value === trimmed)) return table;
+    const option: SelectOption = { value: trimmed, color: SELECT_COLORS[options.length % SELECT_COLORS.length] };
+    return updateColumnConfig(table, col, { options: [...options, option] });
+};
+
+// Cells holding a removed option are cleared
+export const removeSelectOption = (table: TableContent, col: number, value: string): TableContent => {
+    const options = (getColumnConfig(table, col).options || []).filter(o => o.value !== value);
+    const updated = updateColumnConfig(table, col, { options });
+    return { ...updated, rows: updated.rows.map(row => row[col] === value ? row.map((cell, i) => i === col ? '' : cell) : row) };
+};
+
+// -- Rows and columns --
+
+export const deleteRow = (table: TableContent, row: number): TableContent =>
+    ({ ...table, rows: table.rows.filter((_, i) => i !== row) });
+
+// `to` is a position in the list as it is before the move
+export const moveRow = (table: TableContent, from: number, to: number): TableContent => {
+    if (to === from || to === from + 1) return table;
+    const rows = [...table.rows];
+    const [moved] = rows.splice(from, 1);
+    rows.splice(to > from ? to - 1 : to, 0, moved);
+    return { ...table, rows };
+};
+
+// Applies a column reordering to every parallel array; order[i] is the old index of new column i.
+// Formulas follow the columns they reference.
+const reorderColumns = (table: TableContent, order: number[]): TableContent => {
+    const newIndex = new Map(order.map((old, i) => [old, i]));
+    const mapColumn = (col: number) => newIndex.get(col) ?? -1;
+    return {
+        ...table,
+        headers: order.map(i => table.headers[i]),
+        rows: table.rows.map(row => order.map(i => row[i] ?? '')),
+        columnTypes: order.map(i => getColumnType(table, i)),
+        columns: order.map(i => {
+            const config = getColumnConfig(table, i);
+            return config.formula ? { ...config, formula: remapFormulaColumns(config.formula, mapColumn) } : config;
+        })
+    };
+};
+
+export const deleteColumn = (table: TableContent, col: number): TableContent =>
+    table.headers.length <= 1 ? table : reorderColumns(table, table.headers.map((_, i) => i).filter(i => i !== col));
+
+export const moveColumn = (table: TableContent, from: number, to: number): TableContent => {
+    if (to === from || to === from + 1) return table;
+    const order = table.headers.map((_, i) => i);
+    order.splice(from, 1);
+    order.splice(to > from ? to - 1 : to, 0, from);
+    return reorderColumns(table, order);
+};
+
+// A stored cell of one column type, rewritten so it still means something in another
+const convertValue = (value: string, from: ColumnType, to: ColumnType): string => {
+    switch (to) {
+        case 'formula': return '';
+        case 'checkbox': return String(/^(true|x|yes|y|1|done|✓)$/i.test(value.trim()));
+        case 'number': return from === 'checkbox' ? (value === 'true' ? '1' : '0') : value;
+        case 'date': return /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : '';
+        default: return from === 'checkbox' ? (value === 'true' ? '✓' : '') : value;
+    }
+};
+
+// Every value in a select column becomes one of its options
+const addMissingOptions = (table: TableContent, col: number): TableContent =>
+    table.rows.reduce((t, row) => addSelectOption(t, col, row[col]), table);
+
+// Converts the stored cells so they still mean something in the new type. A formula column
+// turned into another type keeps its computed values.
+export const setColumnType = (table: TableContent, col: number, type: ColumnType): TableContent => {
+    const previous = getColumnType(table, col);
+    if (previous === type) return table;
+    const computed = previous === 'formula' ? computeTable(table) : null;
+    const rows = table.rows.map((row, r) => row.map((cell, i) =>
+        i === col ? convertValue(computed ? formatCell(table, computed, r, col) : cell, previous, type) : cell));
+    const columnTypes = table.headers.map((_, i) => i === col ? type : getColumnType(table, i));
+    let updated: TableContent = { ...table, rows, columnTypes };
+    // Existing values become the options of a new select column
+    if (type === 'select') updated = addMissingOptions(updateColumnConfig(updated, col, { options: [] }), col);
+    // Totals that only make sense for numbers are dropped
+    const aggregate = getColumnConfig(updated, col).aggregate;
+    if (aggregate && !getAggregatesFor(type).includes(aggregate)) updated = updateColumnConfig(updated, col, { aggregate: 'none' });
+    return updated;
+};
+
+// Writes a block of pasted cells with its top-left corner at (row, col), adding rows and text
+// columns as needed. Values are converted to each column's type; formula columns are skipped.
+export const pasteCells = (table: TableContent, row: number, col: number, cells: string[][]): TableContent => {
+    const width = Math.max(0, ...cells.map(r => r.length));
+    let updated = table;
+    while (updated.headers.length < col + width) updated = addColumn(updated, 'text');
+    const types = updated.headers.map((_, i) => getColumnType(updated, i));
+    const rows = [...updated.rows];
+    while (rows.length < row + cells.length) rows.push(types.map(type => type === 'checkbox' ? 'false' : ''));
+
+    cells.forEach((values, r) => {
+        rows[row + r] = rows[row + r].map((cell, c) => {
+            const value = values[c - col];
+            if (c < col || value === undefined || types[c] === 'formula') return cell;
+            return convertValue(value, 'text', types[c]);
+        });
+    });
+    updated = { ...updated, rows };
+    types.forEach((type, c) => {
+        if (type === 'select' && c >= col && c < col + width) updated = addMissingOptions(updated, c);
+    });
+    return updated;
+};
+
+// A column type that fits every filled value: numbers, ISO dates or true/false
+export const inferColumnType = (values: string[]): ColumnType => {
+    const filled = values.map(v => v.trim()).filter(Boolean);
+    if (filled.length === 0) return 'text';
+    if (filled.every(v => parseNumber(v) !== null)) return 'number';
+    if (filled.every(v => /^\d{4}-\d{2}-\d{2}$/.test(v))) return 'date';
+    if (filled.every(v => /^(true|false)$/i.test(v))) return 'checkbox';
+    return 'text';
+};
+
+export type SortDirection = 'asc' | 'desc';
+
+// Sorts the stored rows (like a spreadsheet's sort, not a view). Empty cells always go last.
+export const sortRows = (table: TableContent, col: number, direction: SortDirection): TableContent => {
+    const type = getColumnType(table, col);
+    const computed = computeTable(table);
+    const options = (getColumnConfig(table, col).options || []).map(o => o.value);
+    const sign = direction === 'asc' ? 1 : -1;
+
+    const key = (row: number): number | string | null => {
+        const value = computed[row][col];
+        if (type === 'checkbox') return value;
+        if (value === null || value === '') return null;
+        if (type === 'select') return options.includes(table.rows[row][col]) ? options.indexOf(table.rows[row][col]) : options.length;
+        return value;
+    };
+
+    const order = table.rows.map((_, i) => i).sort((a, b) => {
+        const ka = key(a);
+        const kb = key(b);
+        if (ka === null || kb === null) return ka === kb ? 0 : ka === null ? 1 : -1;
+        if (typeof ka === 'number' && typeof kb === 'number') return (ka - kb) * sign;
+        // Errors and text sort after numbers
+        if (typeof ka === 'number') return -1;
+        if (typeof kb === 'number') return 1;
+        return ka.localeCompare(kb, undefined, { numeric: true, sensitivity: 'base' }) * sign;
+    });
+    return { ...table, rows: order.map(i => table.rows[i]) };
+};
+
+// Indices of the rows whose shown text contains the query (in one column, or any when col is null)
+export const filterRows = (table: TableContent, computed: ComputedTable, query: string, col: number | null): number[] => {
+    const needle = query.trim().toLowerCase();
+    const all = table.rows.map((_, i) => i);
+    if (!needle) return all;
+    return all.filter(row => table.headers.some((_, c) =>
+        (col === null || c === col) && formatCell(table, computed, row, c).toLowerCase().includes(needle)));
+};
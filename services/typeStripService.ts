@@ -0,0 +1,426 @@
+// Turns TypeScript into runnable JavaScript by blanking out the type syntax, so code blocks can
+// run offline without shipping a compiler. Covered:
+//   let x: T = ...      (a: T, b?: U) => ...      function f<T>(a: T): R { ... }
+//   x as T, x satisfies T, x!      interface ... { ... }      type X<T> = ...;
+//   class fields, access modifiers, implements clauses, call type arguments f<T>(...)
+// Enums, namespaces, decorators and constructor parameter properties are not: they are left as
+// written and fail when run.
+// Removed text is replaced by spaces (line breaks are kept), so runtime errors still point
+// at the right line and column.
+
+type LexKind = 'space' | 'comment' | 'string' | 'regex' | 'ident' | 'number' | 'punct';
+
+interface LexToken {
+    kind: LexKind;
+    text: string;
+}
+
+// Longest first, so '===' wins over '=='. '>>' is deliberately absent: it closes nested generics.
+const OPERATORS = ['...', '===', '!==', '**=', '??=', '||=', '&&=', '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.',
+    '++', '--', '**', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^='];
+
+const KEYWORDS = new Set(['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+    'else', 'export', 'extends', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of',
+    'return', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await']);
+
+// After these a '/' starts a regular expression rather than a division
+const REGEX_AFTER_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'instanceof', 'yield', 'await']);
+
+const MODIFIERS = new Set(['public', 'private', 'protected', 'readonly', 'override', 'declare', 'abstract']);
+
+const IDENT_RE = /[A-Za-z_$À-￿#][\w$À-￿]*/y;
+const NUMBER_RE = /(?:0[xob][\da-f_]+|\d[\d_]*\.?[\d_]*(?:e[+-]?\d+)?|\.\d[\d_]*(?:e[+-]?\d+)?)n?/iy;
+
+const lex = (source: string): LexToken[] => {
+    const tokens: LexToken[] = [];
+    let lastSignificant: LexToken | undefined;
+    let i = 0;
+
+    const readQuoted = (quote: string) => {
+        let j = i + 1;
+        while (j < source.length && source[j] !== quote && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1;
+        return j + 1;
+    };
+
+    // Template literals can nest templates and braces inside ${ }
+    const readTemplate = (start: number): number => {
+        let j = start + 1;
+        while (j < source.length && source[j] !== '`') {
+            if (source[j] === '\\') { j += 2; continue; }
+            if (source[j] === '$' && source[j + 1] === '{') {
+                let depth = 1;
+                j += 2;
+                while (j < source.length && depth > 0) {
+                    if (source[j] === '`') { j = readTemplate(j); continue; }
+                    if (source[j] === '{') depth++;
+                    else if (source[j] === '}') depth--;
+                    j++;
+                }
+                continue;
+            }
+            j++;
+        }
+        return j + 1;
+    };
+
+    const regexAllowed = () => !lastSignificant
+        || (lastSignificant.kind === 'punct' && !/^[)\]}]$/.test(lastSignificant.text))
+        || (lastSignificant.kind === 'ident' && REGEX_AFTER_KEYWORDS.has(lastSignificant.text));
+
+    while (i < source.length) {
+        const ch = source[i];
+        let end: number;
+        let kind: LexKind;
+
+        if (/\s/.test(ch)) {
+            end = i + 1;
+            while (end < source.length && /\s/.test(source[end])) end++;
+            kind = 'space';
+        } else if (source.startsWith('//', i)) {
+            end = source.indexOf('\n', i);
+            if (end < 0) end = source.length;
+            kind = 'comment';
+        } else if (source.startsWith('/*', i)) {
+            end = source.indexOf('*/', i + 2);
+            end = end < 0 ? source.length : end + 2;
+            kind = 'comment';
+        } else if (ch === '"' || ch === "'") {
+            end = readQuoted(ch);
+            kind = 'string';
+        } else if (ch === '`') {
+            end = readTemplate(i);
+            kind = 'string';
+        } else if (ch === '/' && regexAllowed()) {
+            let j = i + 1;
+            let inClass = false;
+            while (j < source.length && source[j] !== '\n' && (inClass || source[j] !== '/')) {
+                if (source[j] === '\\') j++;
+                else if (source[j] === '[') inClass = true;
+                else if (source[j] === ']') inClass = false;
+                j++;
+            }
+            end = j + 1;
+            while (end < source.length && /[a-z]/i.test(source[end])) end++;
+            kind = 'regex';
+        } else {
+            IDENT_RE.lastIndex = i;
+            NUMBER_RE.lastIndex = i;
+            const ident = /\d/.test(ch) ? null : IDENT_RE.exec(source);
+            const number = ident ? null : NUMBER_RE.exec(source);
+            if (ident) {
+                end = i + ident[0].length;
+                kind = 'ident';
+            } else if (number && number[0] !== '.') {
+                end = i + number[0].length;
+                kind = 'number';
+            } else {
+                end = i + (OPERATORS.find(op => source.startsWith(op, i)) || ch).length;
+                kind = 'punct';
+            }
+        }
+
+        const token = { kind, text: source.slice(i, Math.min(end, source.length)) };
+        tokens.push(token);
+        if (kind !== 'space' && kind !== 'comment') lastSignificant = token;
+        i = end;
+    }
+    return tokens;
+};
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+// What the innermost open bracket holds, for deciding what a ':' or '?' means
+interface Scope {
+    kind: 'params' | 'class' | 'other';
+    ternaries: number; // '?' still waiting for their ':'
+    declaring: boolean; // Between let/const/var (or a ',' in the declaration) and the '='
+    inDeclaration: boolean; // Inside a let/const/var statement
+}
+
+export const stripTypes = (source: string): string => {
+    const tokens = lex(source);
+    const removed = new Array(tokens.length).fill(false);
+    // Indices of the tokens that matter, skipping whitespace and comments
+    const sig = tokens.map((_, i) => i).filter(i => tokens[i].kind !== 'space' && tokens[i].kind !== 'comment');
+    const text = (s: number) => s >= 0 && s < sig.length ? tokens[sig[s]].text : '';
+    const kind = (s: number) => s >= 0 && s < sig.length ? tokens[sig[s]].kind : undefined;
+    const isName = (s: number) => kind(s) === 'ident' && !KEYWORDS.has(text(s));
+
+    // Blank sig tokens from..to (inclusive) and everything between them
+    const remove = (from: number, to: number) => {
+        for (let i = sig[from]; i <= sig[to]; i++) if (tokens[i].kind !== 'space') removed[i] = true;
+    };
+
+    const prevKept = (s: number) => {
+        let p = s - 1;
+        while (p >= 0 && removed[sig[p]]) p--;
+        return p;
+    };
+
+    // Index of the bracket closing the one at s (any bracket kind counts towards depth), or -1
+    const matchBracket = (s: number): number => {
+        let depth = 0;
+        for (let j = s; j < sig.length; j++) {
+            const t = text(j);
+            if (kind(j) !== 'punct') continue;
+            if (OPENERS[t] && (t !== '<' || text(s) === '<')) depth++;
+            else if (t === ')' || t === ']' || t === '}' || (t === '>' && text(s) === '<')) {
+                depth--;
+                if (depth === 0) return j;
+            }
+        }
+        return -1;
+    };
+
+    // A '<' that opens type arguments: everything up to its '>' must look like a type
+    const matchAngle = (s: number): number => {
+        let depth = 0;
+        let braces = 0;
+        for (let j = s; j < sig.length; j++) {
+            const t = text(j);
+            if (kind(j) !== 'punct') continue;
+            if (t === '<') depth++;
+            else if (t === '>') { if (--depth === 0) return j; }
+            else if (t === '{') braces++;
+            else if (t === '}') braces--;
+            else if (t === ';' && braces > 0) continue;
+            else if (!['(', ')', '[', ']', ',', '.', '|', '&', ':', '?', '=>', '=', '-', '...'].includes(t)) return -1;
+        }
+        return -1;
+    };
+
+    // The first sig index after a type expression starting at s
+    const skipType = (s: number): number => {
+        let j = s;
+        let expectAtom = true;
+        let lastWasGroup = false;
+        while (j < sig.length) {
+            const t = text(j);
+            if (expectAtom) {
+                if (t === '|' || t === '&' || t === '-') { j++; continue; }
+                if (kind(j) === 'ident') {
+                    j++;
+                    expectAtom = ['keyof', 'typeof', 'readonly', 'infer', 'unique', 'new', 'asserts'].includes(t);
+                    lastWasGroup = false;
+                } else if (t === '(' || t === '[' || t === '{' || t === '<') {
+                    const end = t === '<' ? matchAngle(j) : matchBracket(j);
+                    if (end < 0) return j;
+                    j = end + 1;
+                    // A generic function type goes on to its parameters
+                    expectAtom = t === '<';
+                    lastWasGroup = t === '(';
+                } else if (kind(j) === 'string' || kind(j) === 'number') {
+                    j++;
+                    expectAtom = false;
+                    lastWasGroup = false;
+                } else {
+                    return j;
+                }
+                continue;
+            }
+            if (t === '|' || t === '&' || t === '.' || t === 'is' || t === 'extends') {
+                j++;
+                expectAtom = true;
+            } else if (t === '=>' && lastWasGroup) {
+                j++;
+                expectAtom = true;
+            } else if (t === '[' || t === '<') {
+                const end = t === '<' ? matchAngle(j) : matchBracket(j);
+                if (end < 0) return j;
+                j = end + 1;
+            } else {
+                return j;
+            }
+        }
+        return j;
+    };
+
+    const scopes: Scope[] = [{ kind: 'other', ternaries: 0, declaring: false, inDeclaration: false }];
+    const scope = () => scopes[scopes.length - 1];
+    let pendingClass = false;
+    let lastParamsClose = -1; // The ')' ending the most recent parameter list
+
+    // Whether the '(' at s starts a parameter list
+    const isParams = (s: number): boolean => {
+        const close = matchBracket(s);
+        if (close < 0) return false;
+        const prev = prevKept(s);
+        const before = text(prev);
+        if (before === 'function' || before === 'catch') return true;
+        if (kind(prev) === 'ident' && (text(prevKept(prev)) === 'function' || text(prevKept(prevKept(prev))) === 'function')) return true;
+        const next = text(close + 1);
+        if (next === '=>') return true;
+        const callable = isName(prev) || before === 'async';
+        if (next === ':' && scope().ternaries === 0 && (callable || !KEYWORDS.has(before))) {
+            const after = text(skipType(close + 2));
+            return after === '{' || after === '=>';
+        }
+        return next === '{' && isName(prev);
+    };
+
+    for (let s = 0; s < sig.length; s++) {
+        if (removed[sig[s]]) continue;
+        const t = text(s);
+        const k = kind(s);
+        const current = scope();
+
+        if (k === 'ident') {
+            const afterDot = text(prevKept(s)) === '.' || text(prevKept(s)) === '?.';
+            if (afterDot) continue;
+
+            if (t === 'interface' && isName(s + 1)) {
+                let open = s + 2;
+                while (open < sig.length && text(open) !== '{') open++;
+                const close = matchBracket(open);
+                if (close > 0) { remove(s, close); s = close; }
+                continue;
+            }
+            if (t === 'type' && isName(s + 1) && (text(s + 2) === '=' || text(s + 2) === '<')) {
+                let eq = s + 2;
+                if (text(eq) === '<') eq = matchAngle(eq) + 1;
+                if (eq > 0 && text(eq) === '=') {
+                    let end = skipType(eq + 1);
+                    if (text(end) === ';') end++;
+                    remove(s, end - 1);
+                    s = end - 1;
+                }
+                continue;
+            }
+            if (MODIFIERS.has(t) && (current.kind === 'class' || text(s + 1) === 'class')
+                && (kind(s + 1) === 'ident' || text(s + 1) === '[')) {
+                remove(s, s);
+                continue;
+            }
+            if (t === 'class') pendingClass = true;
+            if (t === 'implements' && pendingClass) {
+                let end = s + 1;
+                while (end < sig.length && text(end) !== '{') end++;
+                remove(s, end - 1);
+                s = end - 1;
+                continue;
+            }
+            if ((t === 'as' || t === 'satisfies') && s > 0) {
+                const prev = prevKept(s);
+                const endsValue = isName(prev) || kind(prev) === 'string' || kind(prev) === 'number'
+                    || [')', ']', '}', 'this'].includes(text(prev));
+                if (endsValue && (kind(s + 1) === 'ident' || ['{', '[', '(', '<'].includes(text(s + 1)) || kind(s + 1) === 'string')) {
+                    const end = skipType(s + 1);
+                    remove(s, end - 1);
+                    s = end - 1;
+                    continue;
+                }
+            }
+            if (t === 'let' || t === 'const' || t === 'var') {
+                current.declaring = true;
+                current.inDeclaration = true;
+            }
+            if (t === 'of' || t === 'in') current.declaring = false;
+            continue;
+        }
+
+        if (k !== 'punct') continue;
+
+        if (t === '<') {
+            const prev = prevKept(s);
+            const before = text(prev);
+            const end = matchAngle(s);
+            if (end < 0) continue;
+            const declaresParams = kind(prev) === 'ident' && (['function', 'class'].includes(text(prevKept(prev))) || pendingClass);
+            const startsArrow = prev < 0 || ['=', '(', ',', ':', '=>', 'async', 'return'].includes(before);
+            const callArgs = (isName(prev) || before === '>') && text(end + 1) === '(';
+            if (declaresParams || callArgs || (startsArrow && text(end + 1) === '(')) {
+                remove(s, end);
+                s = end;
+            }
+            continue;
+        }
+
+        if (t === '(' || t === '[' || t === '{') {
+            let scopeKind: Scope['kind'] = 'other';
+            if (t === '(' && isParams(s)) scopeKind = 'params';
+            if (t === '{' && pendingClass) { scopeKind = 'class'; pendingClass = false; }
+            scopes.push({ kind: scopeKind, ternaries: 0, declaring: false, inDeclaration: false });
+            continue;
+        }
+        if (t === ')' || t === ']' || t === '}') {
+            if (scopes.length > 1) {
+                const closed = scopes.pop()!;
+                if (closed.kind === 'params') lastParamsClose = s;
+            }
+            continue;
+        }
+
+        if (t === '?') {
+            const next = text(s + 1);
+            const optional = (current.kind === 'params' && [':', ',', ')', '='].includes(next))
+                || (current.kind === 'class' && [':', ';', '=', '('].includes(next));
+            if (optional) remove(s, s);
+            else current.ternaries++;
+            continue;
+        }
+
+        if (t === '!') {
+            const prev = prevKept(s);
+            const endsValue = isName(prev) || [')', ']', 'this'].includes(text(prev));
+            if (endsValue && text(s + 1) !== '=') remove(s, s);
+            continue;
+        }
+
+        if (t === ':') {
+            if (current.ternaries > 0) {
+                current.ternaries--;
+                continue;
+            }
+            const prev = prevKept(s);
+            const before = text(prev);
+            const annotates =
+                (prev === lastParamsClose) ||
+                (current.kind === 'params' && (isName(prev) || before === ']' || before === '}' || removed[sig[s - 1]])) ||
+                (current.declaring && (isName(prev) || before === ']' || before === '}')) ||
+                (current.kind === 'class' && (isName(prev) || removed[sig[s - 1]]));
+            if (annotates) {
+                const end = skipType(s + 1);
+                remove(s, end - 1);
+                s = end - 1;
+            }
+            continue;
+        }
+
+        if (t === '=') current.declaring = false;
+        if (t === ',' && current.inDeclaration) current.declaring = true;
+        if (t === ';') {
+            current.declaring = false;
+            current.inDeclaration = false;
+        }
+    }
+
+    return tokens.map((token, i) => {
+        if (removed[i]) return token.text.replace(/[^\n]/g, ' ');
+        return token.text.startsWith('`') ? stripTemplate(token.text) : token.text;
+    }).join('');
+};
+
+// The ${ } expressions of a template literal are code of their own
+const stripTemplate = (template: string): string => {
+    let out = '';
+    let i = 0;
+    while (i < template.length) {
+        if (template[i] === '\\') {
+            out += template.slice(i, i + 2);
+            i += 2;
+        } else if (template[i] === '$' && template[i + 1] === '{') {
+            let depth = 1;
+            let j = i + 2;
+            while (j < template.length && depth > 0) {
+                if (template[j] === '{') depth++;
+                else if (template[j] === '}') depth--;
+                j++;
+            }
+            out += '${' + stripTypes(template.slice(i + 2, j - 1)) + '}';
+            i = j;
+        } else {
+            out += template[i++];
+        }
+    }
+    return out;
+};
@@ -0,0 +1,65 @@
+import { CanvasState, Rect } from "../types";
+
+// Camera math for the navigation commands (fit, focus, reset) and their animation
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 5;
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Camera that shows `rect` centred in a viewport of the given size. Fitting never zooms in
+// past `maxScale`, so fitting a single small block doesn't blow it up to fill the screen.
+export const fitRectToViewport = (
+    rect: Rect,
+    viewport: { w: number, h: number },
+    padding = 80,
+    maxScale = 1.5
+): CanvasState => {
+    const scale = clampScale(Math.min(
+        (viewport.w - padding * 2) / Math.max(rect.w, 1),
+        (viewport.h - padding * 2) / Math.max(rect.h, 1),
+        maxScale
+    ));
+    return {
+        scale,
+        pan: {
+            x: viewport.w / 2 - (rect.x + rect.w / 2) * scale,
+            y: viewport.h / 2 - (rect.y + rect.h / 2) * scale
+        }
+    };
+};
+
+// Keeps the canvas point under the viewport centre fixed while changing the scale
+export const zoomAroundCenter = (canvas: CanvasState, scale: number, viewport: { w: number, h: number }): CanvasState => {
+    const next = clampScale(scale);
+    const cx = viewport.w / 2;
+    const cy = viewport.h / 2;
+    return {
+        scale: next,
+        pan: {
+            x: cx - (cx - canvas.pan.x) * (next / canvas.scale),
+            y: cy - (cy - canvas.pan.y) * (next / canvas.scale)
+        }
+    };
+};
+
+export const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Interpolates between two cameras. Scale moves geometrically so zooming feels even, and the
+// pan follows the canvas point at the screen centre rather than the raw offset, so the view
+// doesn't swing sideways while zooming.
+export const interpolateCanvas = (from: CanvasState, to: CanvasState, t: number, viewport: { w: number, h: number }): CanvasState => {
+    const k = easeInOutCubic(Math.min(1, Math.max(0, t)));
+    const scale = from.scale * Math.pow(to.scale / from.scale, k);
+    const centerOf = (c: CanvasState) => ({
+        x: (viewport.w / 2 - c.pan.x) / c.scale,
+        y: (viewport.h / 2 - c.pan.y) / c.scale
+    });
+    const a = centerOf(from);
+    const b = centerOf(to);
+    const center = { x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k };
+    return {
+        scale,
+        pan: { x: viewport.w / 2 - center.x * scale, y: viewport.h / 2 - center.y * scale }
+    };
+};
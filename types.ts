@@ -1,18 +1,49 @@
 
-export type BlockType = 'text' | 'image' | 'checklist' | 'code' | 'table';
+export type BlockType = 'text' | 'image' | 'checklist' | 'code' | 'table' | 'frame' | 'markdown';
+
+export type MarkdownView = 'source' | 'preview';
 export type HandleType = 'top' | 'right' | 'bottom' | 'left';
 export type BlockCategory = 'fitness' | 'study' | 'code' | 'general';
+export type CodeLanguage = 'plaintext' | 'javascript' | 'typescript' | 'python' | 'json' | 'html' | 'css' | 'sql' | 'bash' | 'java' | 'c' | 'cpp' | 'go' | 'rust';
 
 export interface ChecklistItem {
   id: string;
   text: string;
   checked: boolean;
+  level?: number; // Indent depth; an item's sub-items follow it with a deeper level
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export type ColumnType = 'text' | 'checkbox' | 'number' | 'date' | 'select' | 'url' | 'formula';
+export type ColumnAggregate = 'none' | 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface SelectOption {
+  value: string;
+  color: string;
+}
+
+export interface ColumnConfig {
+  formula?: string; // Formula columns: expression evaluated for every row, e.g. "B * C * D"
+  options?: SelectOption[]; // Select columns: the allowed values
+  aggregate?: ColumnAggregate; // Shown in the table footer
+  width?: number; // Set once the column is resized; otherwise columns share the table width
 }
 
 export interface TableContent {
   headers: string[];
   rows: string[][];
-  columnTypes?: ('text' | 'checkbox')[]; 
+  columnTypes?: ColumnType[]; 
+  columns?: ColumnConfig[]; // Per-column settings, parallel to headers
+}
+
+export type CodeLogLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface CodeRunOutput {
+  logs: { level: CodeLogLevel, text: string }[];
+  result?: string; // The returned value, as JSON when it has a JSON form
+  error?: string;
+  durationMs: number;
+  ranAt: number;
 }
 
 export interface BlockData {
@@ -26,20 +57,51 @@ export interface BlockData {
   title?: string; // Optional title for blocks
   category?: BlockCategory;
   contentScale?: number; // Scaling factor for the inner content
+  imageId?: string; // Image blocks: blob kept in the IndexedDB image store (takes precedence over a URL in content)
+  frameId?: string; // The frame this block sits in; frames can nest
+  color?: string; // Frames: background colour
+  collapsed?: boolean; // Frames: folded to the title bar, hiding everything inside
+  expandedHeight?: number; // Frames: height to restore when a collapsed frame is expanded
+  language?: CodeLanguage; // Code blocks: highlighting language (guessed from the code when unset)
+  runOutput?: CodeRunOutput; // Code blocks: console output and result of the last run
+  markdownView?: MarkdownView; // Markdown blocks: rendered preview (default) or the source text
+}
+
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  thumbnail: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  createdAt: number;
 }
 
+export type EdgeKind = 'default' | 'depends-on' | 'leads-to' | 'references';
+export type EdgeLineStyle = 'solid' | 'dashed';
+export type EdgeArrowheads = 'none' | 'end' | 'both';
+export type EdgeRouting = 'bezier' | 'straight' | 'orthogonal';
+
 export interface Edge {
   id: string;
   fromId: string;
   toId: string;
   fromHandle: HandleType;
   toHandle: HandleType;
+  label?: string; // Shown at the midpoint of the curve
+  kind?: EdgeKind; // Semantic type; also supplies the default style
+  lineStyle?: EdgeLineStyle; // Explicit style overrides the kind's default
+  color?: string;
+  arrowheads?: EdgeArrowheads;
+  routing?: EdgeRouting; // Defaults to a bezier curve
 }
 
 export interface Page {
   id: string;
   name: string;
   blocks: BlockData[];
+  edges: Edge[];
+  canvas?: CanvasState; // Remembered viewport, restored when switching back to the page
 }
 
 export interface Point {
@@ -52,13 +114,43 @@ export interface Size {
   h: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Selection {
+  blockIds: string[];
+  edgeIds: string[];
+}
+
 export interface CanvasState {
   scale: number;
   pan: Point;
 }
 
+// A bookmarked camera position the user can jump back to
+export interface Viewpoint {
+  id: string;
+  name: string;
+  pageId: string;
+  canvas: CanvasState;
+}
+
 export interface WorkspaceMetadata {
   id: string;
   name: string;
   lastUpdated: number;
 }
+
+export interface WorkspaceData {
+  id: string;
+  name: string;
+  pages: Page[];
+  activePageId: string;
+  viewpoints: Viewpoint[];
+  lastUpdated: number;
+  schemaVersion: number;
+}